@@ -10,24 +10,62 @@ import { MainWebviewViewProps } from '../../../src/selectors/selectMainWebviewVi
 import IntuitaPopover from '../shared/IntuitaPopover';
 import cn from 'classnames';
 import LoadingProgress from '../jobDiffView/Components/LoadingProgress';
+import ActionButton from '../codemodList/TreeView/ActionButton';
 
 type InfoIconProps = {
 	createdAt: number;
 	path: string;
+	appliedAt: number | null;
 };
 
-const InfoIcon = ({ createdAt, path }: InfoIconProps) => {
+const InfoIcon = ({ createdAt, path, appliedAt }: InfoIconProps) => {
+	const executedOn = `Executed on ${path} at ${new Date(
+		Number(createdAt),
+	).toLocaleTimeString()}`;
+
 	return (
 		<IntuitaPopover
-			content={`Executed on ${path} at ${new Date(
-				Number(createdAt),
-			).toLocaleTimeString()}`}
+			content={
+				appliedAt !== null
+					? `${executedOn}, applied at ${new Date(
+							appliedAt,
+					  ).toLocaleTimeString()}`
+					: executedOn
+			}
 		>
 			<span className={cn('codicon', 'codicon-info')} />
 		</IntuitaPopover>
 	);
 };
 
+const undoAppliedCase = (caseHash: CaseHash) => {
+	vscode.postMessage({
+		kind: 'webview.campaignManager.undoAppliedCase',
+		caseHash,
+	});
+};
+
+const exportCaseAsPatch = (caseHash: CaseHash) => {
+	vscode.postMessage({
+		kind: 'webview.campaignManager.exportCaseAsPatch',
+		caseHash,
+	});
+};
+
+const rerunCase = (caseHash: CaseHash) => {
+	vscode.postMessage({
+		kind: 'webview.campaignManager.rerunCase',
+		caseHash,
+	});
+};
+
+const exportCaseReport = (caseHash: CaseHash) => {
+	vscode.postMessage({
+		kind: 'webview.campaignManager.exportCaseReport',
+		caseHash,
+	});
+};
+
 export const App = (
 	props: MainWebviewViewProps & { activeTabId: 'codemodRuns' },
 ) => {
@@ -77,10 +115,51 @@ export const App = (
 							props.onFocus(props.nodeDatum.node.hashDigest);
 						}}
 						endDecorator={
-							<InfoIcon
-								createdAt={props.nodeDatum.node.createdAt}
-								path={props.nodeDatum.node.path}
-							/>
+							<>
+								{props.nodeDatum.node.canBeUndone && (
+									<ActionButton
+										content="Undo apply"
+										iconName="codicon-discard"
+										onClick={() => {
+											undoAppliedCase(
+												props.nodeDatum.node.hashDigest,
+											);
+										}}
+									/>
+								)}
+								<ActionButton
+									content="Re-run"
+									iconName="codicon-debug-rerun"
+									onClick={() => {
+										rerunCase(
+											props.nodeDatum.node.hashDigest,
+										);
+									}}
+								/>
+								<ActionButton
+									content="Export as patch"
+									iconName="codicon-export"
+									onClick={() => {
+										exportCaseAsPatch(
+											props.nodeDatum.node.hashDigest,
+										);
+									}}
+								/>
+								<ActionButton
+									content="Export report"
+									iconName="codicon-report"
+									onClick={() => {
+										exportCaseReport(
+											props.nodeDatum.node.hashDigest,
+										);
+									}}
+								/>
+								<InfoIcon
+									createdAt={props.nodeDatum.node.createdAt}
+									path={props.nodeDatum.node.path}
+									appliedAt={props.nodeDatum.node.appliedAt}
+								/>
+							</>
 						}
 						inlineStyles={{
 							root: {
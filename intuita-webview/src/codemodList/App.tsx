@@ -109,7 +109,7 @@ export const App = memo(
 							<TreeView
 								screenWidth={props.screenWidth}
 								tree={props.codemodTree}
-								rootPath={props.rootPath}
+								rootPaths={props.rootPaths}
 								autocompleteItems={props.autocompleteItems}
 							/>
 						</ResizablePanel>
@@ -155,7 +155,7 @@ export const App = memo(
 								<TreeView
 									screenWidth={props.screenWidth}
 									tree={props.privateCodemods}
-									rootPath={props.rootPath}
+									rootPaths={props.rootPaths}
 									autocompleteItems={props.autocompleteItems}
 								/>
 							) : (
@@ -1,3 +1,4 @@
+import { VSCodeDropdown, VSCodeOption } from '@vscode/webview-ui-toolkit/react';
 import {
 	CodemodArgumentWithValue,
 	CodemodNodeHashDigest,
@@ -20,6 +21,7 @@ type Props = Readonly<{
 	arguments: ReadonlyArray<CodemodArgumentWithValue>;
 	autocompleteItems: ReadonlyArray<string>;
 	rootPath: string | null;
+	rootPaths: ReadonlyArray<string>;
 	executionPath: T.These<{ message: string }, string>;
 }>;
 
@@ -38,11 +40,28 @@ const handleCodemodPathChange = debounce((rawCodemodPath: string) => {
 	});
 }, 50);
 
+const handleWorkspaceFolderChange = (
+	codemodHash: CodemodHash,
+	rootPath: string,
+) => {
+	vscode.postMessage({
+		kind: 'webview.codemodList.updatePathToExecute',
+		value: {
+			newPath: rootPath,
+			codemodHash,
+			errorMessage: 'The selected workspace folder does not exist.',
+			warningMessage: null,
+			revertToPrevExecutionIfInvalid: false,
+		},
+	});
+};
+
 const CodemodArguments = ({
 	hashDigest,
 	arguments: args,
 	autocompleteItems,
 	rootPath,
+	rootPaths,
 	executionPath,
 }: Props) => {
 	const onChangeFormField = (fieldName: string) => (value: string) => {
@@ -87,7 +106,28 @@ const CodemodArguments = ({
 	return (
 		<div className={styles.root}>
 			<form className={styles.form}>
+				{rootPaths.length > 1 && (
+					<VSCodeDropdown
+						value={rootPath ?? ''}
+						title="Workspace folder"
+						onChange={(e) =>
+							handleWorkspaceFolderChange(
+								hashDigest as unknown as CodemodHash,
+								(e as React.ChangeEvent<HTMLInputElement>)
+									.target.value,
+							)
+						}
+					>
+						{rootPaths.map((path) => (
+							<VSCodeOption key={path} value={path}>
+								{path.split('/').slice(-1)[0] ?? path}
+							</VSCodeOption>
+						))}
+					</VSCodeDropdown>
+				)}
 				<DirectorySelector
+					// the selector keeps its own value, so it needs remounting for another workspace folder
+					key={rootPath ?? ''}
 					defaultValue={targetPath}
 					displayValue={'path'}
 					rootPath={rootPath ?? ''}
@@ -7,17 +7,15 @@ import areEqual from 'fast-deep-equal';
 import { CodemodNode } from '../../../../src/selectors/selectCodemodTree';
 import { CodemodHash } from '../../shared/types';
 import ActionButton from '../TreeView/ActionButton';
-import { Progress } from '../useProgressBar';
 import 'react-toastify/dist/ReactToastify.css';
 
 type CodemodItemNode = CodemodNode & { kind: 'CODEMOD' };
 
 type Props = Omit<CodemodItemNode, 'name' | 'kind'> &
 	Readonly<{
-		progress: Progress | null;
+		inProgress: boolean;
 		screenWidth: number | null;
 		focused: boolean;
-		rootPath: string | null;
 		autocompleteItems: ReadonlyArray<string>;
 		argumentsExpanded: boolean;
 	}>;
@@ -26,12 +24,12 @@ const renderActionButtons = (
 	hashDigest: CodemodItemNode['hashDigest'],
 	isPrivate: CodemodItemNode['isPrivate'],
 	permalink: CodemodItemNode['permalink'],
-	codemodInProgress: boolean,
+	inProgress: boolean,
 	queued: boolean,
 	label: string,
 	argumentsExpanded: boolean,
 ) => {
-	if (!codemodInProgress && !queued) {
+	if (!inProgress && !queued) {
 		const handleDryRunClick = (e: React.MouseEvent) => {
 			e.stopPropagation();
 
@@ -126,7 +124,8 @@ const renderActionButtons = (
 		);
 	}
 
-	if (!codemodInProgress && queued) {
+	// the codemod is queued
+	if (!inProgress) {
 		return (
 			<IntuitaPopover content="This codemod has already been queued for execution.">
 				<i className="codicon codicon-history mr-2" />
@@ -134,18 +133,8 @@ const renderActionButtons = (
 		);
 	}
 
-	return (
-		<ActionButton
-			content="Stop Codemod Execution"
-			iconName="codicon-debug-stop"
-			onClick={(e) => {
-				e.stopPropagation();
-				vscode.postMessage({
-					kind: 'webview.codemodList.haltCodemodExecution',
-				});
-			}}
-		/>
-	);
+	// the runs are halted next to their progress bars
+	return null;
 };
 
 const getLabelStyle = (
@@ -200,7 +189,7 @@ const getActionGroupStyle = (
 const Codemod = ({
 	hashDigest,
 	label,
-	progress,
+	inProgress,
 	queued,
 	icon,
 	screenWidth,
@@ -270,7 +259,7 @@ const Codemod = ({
 							hashDigest,
 							isPrivate,
 							permalink,
-							progress !== null,
+							inProgress,
 							queued,
 							label,
 							argumentsExpanded,
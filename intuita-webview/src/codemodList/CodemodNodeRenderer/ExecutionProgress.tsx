@@ -0,0 +1,60 @@
+import { vscode } from '../../shared/utilities/vscode';
+import ActionButton from '../TreeView/ActionButton';
+import { InfiniteProgress } from '../TreeView/InfiniteProgress';
+import ProgressBar from '../TreeView/ProgressBar';
+import { Progress } from '../useProgressBar';
+import styles from './style.module.css';
+
+type Props = Readonly<{
+	progress: Progress;
+	// the runs shown outside of the codemod nodes are labelled with the codemod name
+	showCodemodName: boolean;
+}>;
+
+const renderProgressBar = (progress: Progress) => {
+	if (progress.progressKind === 'infinite') {
+		return <InfiniteProgress />;
+	}
+
+	const value =
+		progress.totalFileNumber > 0
+			? (progress.processedFileNumber / progress.totalFileNumber) * 100
+			: 0;
+
+	return <ProgressBar percent={value} />;
+};
+
+/**
+ * Shows the progress of a single codemod run, with the button halting it.
+ */
+const ExecutionProgress = ({ progress, showCodemodName }: Props) => {
+	const status =
+		progress.progressKind === 'finite'
+			? `Processed ${progress.processedFileNumber} / ${progress.totalFileNumber} files`
+			: 'Processing all files...';
+
+	return (
+		<div className={styles.progressContainer}>
+			<div className={styles.progressHeader}>
+				<p className={styles.progressStatusLabel}>
+					{showCodemodName
+						? `${progress.codemodName}: ${status}`
+						: status}
+				</p>
+				<ActionButton
+					content="Stop Codemod Execution"
+					iconName="codicon-debug-stop"
+					onClick={() => {
+						vscode.postMessage({
+							kind: 'webview.codemodList.haltCodemodExecution',
+							executionId: progress.executionId,
+						});
+					}}
+				/>
+			</div>
+			{renderProgressBar(progress)}
+		</div>
+	);
+};
+
+export default ExecutionProgress;
@@ -13,8 +13,7 @@ import { Progress } from '../useProgressBar';
 import { CodemodHash } from '../../shared/types';
 import cn from 'classnames';
 import CodemodArguments from '../CodemodArguments';
-import { InfiniteProgress } from '../TreeView/InfiniteProgress';
-import ProgressBar from '../TreeView/ProgressBar';
+import ExecutionProgress from './ExecutionProgress';
 
 const EXPANDABLE_CONTENT_MAX_HEIGHT = 1000;
 
@@ -23,9 +22,9 @@ const getIndent = (depth: number) => {
 };
 
 type Deps = {
-	progress: Progress | null;
+	progresses: ReadonlyArray<Progress>;
 	screenWidth: number | null;
-	rootPath: string | null;
+	rootPaths: ReadonlyArray<string>;
 	autocompleteItems: ReadonlyArray<string>;
 };
 
@@ -35,29 +34,18 @@ type Props = Readonly<{
 	onFocus: (hashDigest: CodemodNodeHashDigest) => void;
 }>;
 
-const renderProgressBar = (progress: Progress | null) => {
-	if (progress === null) {
-		return null;
-	}
-
-	if (progress.progressKind === 'infinite') {
-		return <InfiniteProgress />;
-	}
-
-	const value =
-		progress.totalFileNumber > 0
-			? (progress.processedFileNumber / progress.totalFileNumber) * 100
-			: 0;
-
-	return <ProgressBar percent={value} />;
-};
-
 const getCodemodNodeRenderer =
-	({ rootPath, autocompleteItems, progress, screenWidth }: Deps) =>
+	({ rootPaths, autocompleteItems, progresses, screenWidth }: Deps) =>
 	({ nodeDatum, onFlip }: Props) => {
 		const { node, focused, expanded, argumentsExpanded } = nodeDatum;
 		const { hashDigest, label } = node;
 
+		// the same codemod can run on several targets at once
+		const codemodProgresses = progresses.filter(
+			({ codemodHash }) =>
+				codemodHash === (hashDigest as unknown as CodemodHash),
+		);
+
 		const ref = useRef<HTMLDivElement>(null);
 
 		useEffect(() => {
@@ -92,12 +80,7 @@ const getCodemodNodeRenderer =
 						<Codemod
 							hashDigest={hashDigest}
 							label={label}
-							progress={
-								progress?.codemodHash ===
-								(node.hashDigest as unknown as CodemodHash)
-									? progress
-									: null
-							}
+							inProgress={codemodProgresses.length !== 0}
 							isPrivate={node.isPrivate}
 							focused={focused}
 							queued={node.queued}
@@ -106,7 +89,7 @@ const getCodemodNodeRenderer =
 							permalink={node.permalink}
 							executionPath={node.executionPath}
 							autocompleteItems={autocompleteItems}
-							rootPath={rootPath}
+							rootPath={node.rootPath}
 							argumentsExpanded={argumentsExpanded}
 							args={node.args}
 						/>
@@ -122,39 +105,32 @@ const getCodemodNodeRenderer =
 							>
 								<CodemodArguments
 									autocompleteItems={autocompleteItems}
-									rootPath={rootPath}
+									rootPath={node.rootPath}
+									rootPaths={rootPaths}
 									executionPath={node.executionPath}
 									hashDigest={hashDigest}
 									arguments={node.args}
 								/>
 							</div>
 						)}
-						{progress !== null &&
-							(hashDigest as unknown as CodemodHash) ===
-								progress.codemodHash && (
-								<div
-									className={styles.expandableContent}
-									style={{
-										marginLeft: `-${getIndent(
-											nodeDatum.depth,
-										)}px`,
-									}}
-								>
-									<div className={styles.progressContainer}>
-										<p
-											className={
-												styles.progressStatusLabel
-											}
-										>
-											{progress.progressKind === 'finite'
-												? `Processed ${progress.processedFileNumber} / ${progress.totalFileNumber} files`
-												: 'Processing all files...'}
-										</p>
-
-										{renderProgressBar(progress)}
-									</div>
-								</div>
-							)}
+						{codemodProgresses.length !== 0 && (
+							<div
+								className={styles.expandableContent}
+								style={{
+									marginLeft: `-${getIndent(
+										nodeDatum.depth,
+									)}px`,
+								}}
+							>
+								{codemodProgresses.map((progress) => (
+									<ExecutionProgress
+										key={progress.executionId}
+										progress={progress}
+										showCodemodName={false}
+									/>
+								))}
+							</div>
+						)}
 					</div>
 				)}
 
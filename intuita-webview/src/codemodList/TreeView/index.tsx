@@ -11,12 +11,13 @@ import {
 
 import { IntuitaTreeView } from '../../intuitaTreeView';
 import { getCodemodNodeRenderer } from '../CodemodNodeRenderer';
+import ExecutionProgress from '../CodemodNodeRenderer/ExecutionProgress';
 
 type Props = Readonly<{
 	tree: CodemodTree;
 	screenWidth: number | null;
 	autocompleteItems: ReadonlyArray<string>;
-	rootPath: string | null;
+	rootPaths: ReadonlyArray<string>;
 }>;
 
 const onFocus = (hashDigest: CodemodNodeHashDigest) => {
@@ -38,23 +39,42 @@ const onFlip = (hashDigest: CodemodNodeHashDigest) => {
 const TreeView = ({
 	tree,
 	autocompleteItems,
-	rootPath,
+	rootPaths,
 	screenWidth,
 }: Props) => {
-	const progress = useProgressBar();
+	const progresses = useProgressBar();
+
+	// the local codemods, the piranha rules and the codemods within the collapsed directories
+	// have no node to show their runs at
+	const shownCodemodHashes = new Set<string>(
+		tree.nodeData.map(({ node }) => node.hashDigest),
+	);
+	const otherProgresses = progresses.filter(
+		({ codemodHash }) =>
+			codemodHash === null || !shownCodemodHashes.has(codemodHash),
+	);
 
 	return (
-		<IntuitaTreeView<CodemodNodeHashDigest, CodemodNode, NodeDatum>
-			{...tree}
-			nodeRenderer={getCodemodNodeRenderer({
-				progress,
-				screenWidth,
-				autocompleteItems,
-				rootPath,
-			})}
-			onFlip={onFlip}
-			onFocus={onFocus}
-		/>
+		<>
+			{otherProgresses.map((progress) => (
+				<ExecutionProgress
+					key={progress.executionId}
+					progress={progress}
+					showCodemodName
+				/>
+			))}
+			<IntuitaTreeView<CodemodNodeHashDigest, CodemodNode, NodeDatum>
+				{...tree}
+				nodeRenderer={getCodemodNodeRenderer({
+					progresses,
+					screenWidth,
+					autocompleteItems,
+					rootPaths,
+				})}
+				onFlip={onFlip}
+				onFocus={onFocus}
+			/>
+		</>
 	);
 };
 
@@ -1,32 +1,54 @@
 import { useEffect, useState } from 'react';
 import { CodemodHash, WebviewMessage } from '../shared/types';
+import type { CaseHash } from '../../../src/cases/types';
+import type { ExecutionId } from '../../../src/executionQueue/types';
 
 export type Progress = Readonly<{
-	codemodHash: CodemodHash;
+	executionId: ExecutionId;
+	codemodHash: CodemodHash | null;
+	codemodName: string;
+	caseHashDigest: CaseHash;
 	progressKind: 'finite' | 'infinite';
 	totalFileNumber: number;
 	processedFileNumber: number;
 }>;
 
-export const useProgressBar = (): Progress | null => {
-	const [codemodExecutionProgress, setCodemodExecutionProgress] =
-		useState<Progress | null>(null);
+/**
+ * Returns the progress of every codemod run in progress.
+ */
+export const useProgressBar = (): ReadonlyArray<Progress> => {
+	const [codemodExecutionProgresses, setCodemodExecutionProgresses] =
+		useState<ReadonlyArray<Progress>>([]);
 
 	useEffect(() => {
 		const handler = (e: MessageEvent<WebviewMessage>) => {
 			const message = e.data;
 
 			if (message.kind === 'webview.global.setCodemodExecutionProgress') {
-				setCodemodExecutionProgress({
-					codemodHash: message.codemodHash,
-					progressKind: message.progressKind,
-					totalFileNumber: message.totalFileNumber,
-					processedFileNumber: message.processedFileNumber,
-				});
+				setCodemodExecutionProgresses((progresses) => [
+					...progresses.filter(
+						({ executionId }) =>
+							executionId !== message.executionId,
+					),
+					{
+						executionId: message.executionId,
+						codemodHash: message.codemodHash,
+						codemodName: message.codemodName,
+						caseHashDigest: message.caseHashDigest,
+						progressKind: message.progressKind,
+						totalFileNumber: message.totalFileNumber,
+						processedFileNumber: message.processedFileNumber,
+					},
+				]);
 			}
 
 			if (message.kind === 'webview.global.codemodExecutionHalted') {
-				setCodemodExecutionProgress(null);
+				setCodemodExecutionProgresses((progresses) =>
+					progresses.filter(
+						({ executionId }) =>
+							executionId !== message.executionId,
+					),
+				);
 			}
 		};
 
@@ -35,7 +57,7 @@ export const useProgressBar = (): Progress | null => {
 		return () => {
 			window.removeEventListener('message', handler);
 		};
-	}, [codemodExecutionProgress?.codemodHash]);
+	}, []);
 
-	return codemodExecutionProgress;
+	return codemodExecutionProgresses;
 };
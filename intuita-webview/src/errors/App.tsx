@@ -12,25 +12,39 @@ import type { ErrorWebviewViewProps } from '../../../src/selectors/selectErrorWe
 const header = (
 	<VSCodeDataGridRow row-type="sticky-header">
 		<VSCodeDataGridCell cell-type="columnheader" grid-column="1">
-			Message
+			Severity
 		</VSCodeDataGridCell>
 		<VSCodeDataGridCell cell-type="columnheader" grid-column="2">
-			File Path
+			Message
+		</VSCodeDataGridCell>
+		<VSCodeDataGridCell cell-type="columnheader" grid-column="3">
+			Location
 		</VSCodeDataGridCell>
 	</VSCodeDataGridRow>
 );
 
+// e.g. src/index.ts:12:5
+const buildLocation = ({ path, line, column }: ExecutionError): string =>
+	path !== undefined
+		? [path, line, line !== null ? column : null]
+				.filter((part) => part !== null)
+				.join(':')
+		: '';
+
 const buildExecutionErrorRow = (
 	executionError: ExecutionError,
 	index: number,
 ) => {
+	const { severity, code, message, stack } = executionError;
+
 	return (
 		<VSCodeDataGridRow key={index}>
-			<VSCodeDataGridCell grid-column="1">
-				{executionError.message}
+			<VSCodeDataGridCell grid-column="1">{severity}</VSCodeDataGridCell>
+			<VSCodeDataGridCell grid-column="2" title={stack ?? undefined}>
+				{code !== null ? `${code}: ${message}` : message}
 			</VSCodeDataGridCell>
-			<VSCodeDataGridCell grid-column="2">
-				{executionError.path ?? ''}
+			<VSCodeDataGridCell grid-column="3">
+				{buildLocation(executionError)}
 			</VSCodeDataGridCell>
 		</VSCodeDataGridRow>
 	);
@@ -89,7 +103,7 @@ export const App = () => {
 
 	return (
 		<main>
-			<VSCodeDataGrid gridTemplateColumns="50% 50%">
+			<VSCodeDataGrid gridTemplateColumns="15% 50% 35%">
 				{header}
 				{rows}
 			</VSCodeDataGrid>
@@ -0,0 +1,119 @@
+import cn from 'classnames';
+import { useState } from 'react';
+import type { ExecutionQueue } from '../../../src/selectors/selectExecutionQueue';
+import { SectionHeader } from '../shared/SectionHeader';
+import { Command } from '../shared/types';
+import { vscode } from '../shared/utilities/vscode';
+import s from './style.module.css';
+
+const handleCommand = (value: Command) => {
+	vscode.postMessage({
+		kind: 'webview.command',
+		value,
+	});
+};
+
+export const App = (
+	props: Readonly<{
+		executionQueue: ExecutionQueue;
+	}>,
+) => {
+	const [collapsed, setCollapsed] = useState(false);
+
+	const { items, paused } = props.executionQueue;
+
+	const commands: (Command & { icon: string })[] = [
+		paused
+			? {
+					icon: 'debug-start',
+					title: 'Resume',
+					command: 'intuita.resumeExecutionQueue',
+			  }
+			: {
+					icon: 'debug-pause',
+					title: 'Pause',
+					command: 'intuita.pauseExecutionQueue',
+			  },
+	];
+
+	return (
+		<div className={s.root}>
+			<SectionHeader
+				title={paused ? 'Queue (paused)' : 'Queue'}
+				commands={commands}
+				collapsed={collapsed}
+				onClick={(event) => {
+					event.preventDefault();
+
+					setCollapsed(!collapsed);
+				}}
+			/>
+			{!collapsed &&
+				items.map((item, index) => (
+					<div key={item.executionId} className={s.item}>
+						<div className={s.details}>
+							<span className={s.name}>{item.name}</span>
+							<span
+								className={s.description}
+								title={item.targetPath}
+							>
+								{item.targetPath}
+							</span>
+							{item.arguments !== '' && (
+								<span
+									className={s.description}
+									title={item.arguments}
+								>
+									{item.arguments}
+								</span>
+							)}
+						</div>
+						<div className={s.actions}>
+							<span
+								title="Move up"
+								className={cn(
+									'codicon',
+									'codicon-arrow-up',
+									index === 0 && s.disabled,
+								)}
+								onClick={() => {
+									handleCommand({
+										title: 'Move up',
+										command: 'intuita.moveQueuedExecution',
+										arguments: [item.executionId, -1],
+									});
+								}}
+							/>
+							<span
+								title="Move down"
+								className={cn(
+									'codicon',
+									'codicon-arrow-down',
+									index === items.length - 1 && s.disabled,
+								)}
+								onClick={() => {
+									handleCommand({
+										title: 'Move down',
+										command: 'intuita.moveQueuedExecution',
+										arguments: [item.executionId, 1],
+									});
+								}}
+							/>
+							<span
+								title="Cancel"
+								className={cn('codicon', 'codicon-close')}
+								onClick={() => {
+									handleCommand({
+										title: 'Cancel',
+										command:
+											'intuita.cancelQueuedExecution',
+										arguments: [item.executionId],
+									});
+								}}
+							/>
+						</div>
+					</div>
+				))}
+		</div>
+	);
+};
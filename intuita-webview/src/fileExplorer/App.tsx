@@ -54,7 +54,14 @@ export const App = (
 		},
 ) => {
 	const { changeExplorerTree, codemodExecutionInProgress } = props;
-	const progress = useProgressBar();
+	const progresses = useProgressBar();
+	// the change explorer waits for the selected run if it is still in progress
+	const progress =
+		progresses.find(
+			({ caseHashDigest }) =>
+				caseHashDigest ===
+				props.codemodRunsTree?.selectedNodeHashDigest,
+		) ?? null;
 	const caseHash = changeExplorerTree?.caseHash ?? null;
 
 	const handleFocus = useCallback(
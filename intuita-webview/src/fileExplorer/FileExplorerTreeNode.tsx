@@ -7,6 +7,8 @@ import { ReactComponent as IndeterminateCheckboxMaterialIcon } from '../assets/m
 
 import styles from './style.module.css';
 import { _ExplorerNode } from '../../../src/persistedState/explorerNodeCodec';
+import ActionButton from '../codemodList/TreeView/ActionButton';
+import IntuitaPopover from '../shared/IntuitaPopover';
 
 type Props = Omit<
 	TreeItemProps,
@@ -16,7 +18,11 @@ type Props = Omit<
 	iconName: IconName | null;
 	checkboxState: 'checked' | 'blank' | 'indeterminate';
 	reviewed: boolean;
+	stale: boolean;
 	onCheckboxClick(e: React.MouseEvent): void;
+	onRerunClick(e: React.MouseEvent): void;
+	onMergeClick(e: React.MouseEvent): void;
+	onForceApplyClick(e: React.MouseEvent): void;
 	searchPhrase: string;
 };
 
@@ -72,11 +78,15 @@ const FileExplorerTreeNode = ({
 	open,
 	focused,
 	reviewed,
+	stale,
 	iconName,
 	checkboxState,
 	kind,
 	onClick,
 	onCheckboxClick,
+	onRerunClick,
+	onMergeClick,
+	onForceApplyClick,
 	onPressChevron,
 	searchPhrase,
 }: Props) => {
@@ -108,7 +118,35 @@ const FileExplorerTreeNode = ({
 				},
 			}}
 			endDecorator={
-				reviewed && <span className={cn('codicon', 'codicon-eye')} />
+				<>
+					{stale && (
+						<>
+							<IntuitaPopover content="The file changed since the codemod was run.">
+								<span
+									className={cn('codicon', 'codicon-warning')}
+								/>
+							</IntuitaPopover>
+							<ActionButton
+								content="Re-run the codemod on this file"
+								iconName="codicon-refresh"
+								onClick={onRerunClick}
+							/>
+							<ActionButton
+								content="Merge the file changes into the codemod output"
+								iconName="codicon-git-merge"
+								onClick={onMergeClick}
+							/>
+							<ActionButton
+								content="Apply anyway"
+								iconName="codicon-check"
+								onClick={onForceApplyClick}
+							/>
+						</>
+					)}
+					{reviewed && (
+						<span className={cn('codicon', 'codicon-eye')} />
+					)}
+				</>
 			}
 		/>
 	);
@@ -70,6 +70,50 @@ export const explorerNodeRenderer =
 			[explorerNodeHashDigest],
 		);
 
+		const jobHash =
+			props.nodeDatum.node.kind === 'FILE'
+				? props.nodeDatum.node.jobHash
+				: null;
+
+		const stale =
+			jobHash !== null && explorerTree.staleJobHashes.includes(jobHash);
+
+		const handleRerunClick = useCallback(() => {
+			if (jobHash === null) {
+				return;
+			}
+
+			vscode.postMessage({
+				kind: 'webview.global.rerunCodemodOnJobFile',
+				jobHash,
+			});
+		}, [jobHash]);
+
+		const handleMergeClick = useCallback(() => {
+			if (jobHash === null) {
+				return;
+			}
+
+			vscode.postMessage({
+				kind: 'webview.global.mergeStaleJob',
+				jobHash,
+			});
+
+			// show the merged output in the diff view
+			onFocus(nodeDatum.node.hashDigest);
+		}, [jobHash, onFocus, nodeDatum.node.hashDigest]);
+
+		const handleForceApplyClick = useCallback(() => {
+			if (jobHash === null) {
+				return;
+			}
+
+			vscode.postMessage({
+				kind: 'webview.global.forceApplyJob',
+				jobHash,
+			});
+		}, [jobHash]);
+
 		const handleChevronClick = useCallback(
 			(event: React.MouseEvent) => {
 				event.stopPropagation();
@@ -91,10 +135,14 @@ export const explorerNodeRenderer =
 				open={props.nodeDatum.expanded}
 				focused={focused}
 				reviewed={reviewed}
+				stale={stale}
 				checkboxState={checkboxState}
 				kind={props.nodeDatum.node.kind}
 				onClick={handleClick}
 				onCheckboxClick={handleCheckboxClick}
+				onRerunClick={handleRerunClick}
+				onMergeClick={handleMergeClick}
+				onForceApplyClick={handleForceApplyClick}
 				onPressChevron={handleChevronClick}
 				searchPhrase={explorerTree.searchPhrase}
 			/>
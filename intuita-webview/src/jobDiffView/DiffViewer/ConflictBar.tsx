@@ -0,0 +1,58 @@
+import { VSCodeButton } from '@vscode/webview-ui-toolkit/react';
+import { Conflict, ConflictSide } from './conflicts';
+
+type Props = Readonly<{
+	conflicts: ReadonlyArray<Conflict>;
+	onResolve(conflict: Conflict, side: ConflictSide): void;
+	onResolveAll(side: ConflictSide): void;
+}>;
+
+export const ConflictBar = ({ conflicts, onResolve, onResolveAll }: Props) => {
+	return (
+		<div className="flex flex-col gap-4 pb-2-5">
+			<div className="flex align-items-center justify-between">
+				<h4 className="my-0 highlighted-text user-select-none">
+					{conflicts.length} merge conflict(s)
+				</h4>
+				<div className="flex gap-4">
+					<VSCodeButton
+						appearance="secondary"
+						onClick={() => onResolveAll('current')}
+					>
+						Accept All Current
+					</VSCodeButton>
+					<VSCodeButton
+						appearance="secondary"
+						onClick={() => onResolveAll('codemod')}
+					>
+						Accept All Codemod
+					</VSCodeButton>
+				</div>
+			</div>
+			{conflicts.map((conflict) => (
+				<div
+					key={conflict.startLine}
+					className="flex align-items-center justify-between"
+				>
+					<span className="user-select-none">
+						Line {conflict.startLine + 1}
+					</span>
+					<div className="flex gap-4">
+						<VSCodeButton
+							appearance="icon"
+							onClick={() => onResolve(conflict, 'current')}
+						>
+							Accept Current
+						</VSCodeButton>
+						<VSCodeButton
+							appearance="icon"
+							onClick={() => onResolve(conflict, 'codemod')}
+						>
+							Accept Codemod
+						</VSCodeButton>
+					</div>
+				</div>
+			))}
+		</div>
+	);
+};
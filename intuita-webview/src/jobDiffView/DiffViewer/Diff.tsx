@@ -1,19 +1,33 @@
-import { memo, useEffect, useRef, useState } from 'react';
+import { memo, useEffect, useMemo, useRef, useState } from 'react';
 import { getDiff, Diff } from '../../shared/Snippet/calculateDiff';
 import { editor } from 'monaco-editor';
 import configure from './configure';
 import { DiffEditor, Monaco } from '@monaco-editor/react';
+import { ConflictBar } from './ConflictBar';
+import { HunkBar } from './HunkBar';
+import type { JobHunk } from '../../../../src/jobs/buildHunks';
+import {
+	Conflict,
+	ConflictSide,
+	findConflicts,
+	resolveAllConflicts,
+	resolveConflict,
+} from './conflicts';
 
 export type { Diff };
 
 type Props = Readonly<{
 	jobHash: string;
+	oldContentHashDigest: string | null;
 	oldFileContent: string | null;
 	newFileContent: string | null;
 	viewType: 'inline' | 'side-by-side';
 	theme: string;
+	hunks: ReadonlyArray<JobHunk>;
+	rejectedHunkIndices: ReadonlyArray<number>;
 	onDiffCalculated: (diff: Diff) => void;
 	onChange(content: string): void;
+	onRejectedHunksChange(hunkIndices: ReadonlyArray<number>): void;
 }>;
 
 const getDiffChanges = (
@@ -36,6 +50,10 @@ export const DiffComponent = memo(
 		onChange,
 		theme,
 		jobHash,
+		oldContentHashDigest,
+		hunks,
+		rejectedHunkIndices,
+		onRejectedHunksChange,
 	}: Props) => {
 		const editorRef = useRef<editor.IStandaloneDiffEditor | null>(null);
 		const [isMounted, setIsMounted] = useState(false);
@@ -89,46 +107,105 @@ export const DiffComponent = memo(
 
 		useEffect(() => {
 			// set modified content to `newFileContent` only once when the new job first loads
+			// or when the job output gets merged with the changed old file
 			setModifiedContent(newFileContent);
 			// eslint-disable-next-line react-hooks/exhaustive-deps
-		}, [jobHash]);
+		}, [jobHash, oldContentHashDigest]);
+
+		const conflicts = useMemo(
+			() => findConflicts(modifiedContent ?? ''),
+			[modifiedContent],
+		);
+
+		const editModifiedContent = (edit: (content: string) => string) => {
+			const modifiedEditor =
+				editorRef.current?.getModifiedEditor() ?? null;
+			const model = modifiedEditor?.getModel() ?? null;
+
+			if (modifiedEditor === null || model === null) {
+				return;
+			}
+
+			// editing through the editor keeps the undo history and triggers `onChange`
+			modifiedEditor.executeEdits('conflictResolution', [
+				{
+					range: model.getFullModelRange(),
+					text: edit(model.getValue()),
+				},
+			]);
+		};
+
+		const handleResolve = (conflict: Conflict, side: ConflictSide) => {
+			editModifiedContent((content) =>
+				resolveConflict(content, conflict, side),
+			);
+		};
+
+		const handleResolveAll = (side: ConflictSide) => {
+			editModifiedContent((content) =>
+				resolveAllConflicts(content, side),
+			);
+		};
+
+		const handleRevealHunk = ({ newStart }: JobHunk) => {
+			editorRef.current
+				?.getModifiedEditor()
+				.revealLineInCenter(Math.max(newStart, 1));
+		};
 
 		return (
-			<DiffEditor
-				theme={theme}
-				onMount={(e: editor.IStandaloneDiffEditor, m: Monaco) => {
-					editorRef.current = e;
-
-					configure(e, m);
-					setIsMounted(true);
-				}}
-				options={{
-					readOnly: false,
-					originalEditable: false,
-					renderSideBySide: viewType === 'side-by-side',
-					wrappingStrategy: 'advanced',
-					wordWrap: 'wordWrapColumn',
-					wordWrapColumn: 75,
-					wrappingIndent: 'indent',
-					scrollBeyondLastLine: false,
-					wordBreak: 'normal',
-					diffAlgorithm: 'smart',
-					scrollBeyondLastColumn: 0,
-					contextmenu: false,
-					scrollbar: {
-						horizontal: 'hidden',
-						verticalSliderSize: 0,
-						vertical: 'hidden',
-						alwaysConsumeMouseWheel: false,
-					},
-				}}
-				loading={<div>Loading content ...</div>}
-				modified={modifiedContent ?? undefined}
-				original={oldFileContent ?? undefined}
-				modifiedModelPath="modified.tsx"
-				originalModelPath="original.tsx"
-				language="javascript"
-			/>
+			<>
+				{hunks.length !== 0 && (
+					<HunkBar
+						hunks={hunks}
+						rejectedHunkIndices={rejectedHunkIndices}
+						onRejectedHunksChange={onRejectedHunksChange}
+						onRevealHunk={handleRevealHunk}
+					/>
+				)}
+				{conflicts.length !== 0 && (
+					<ConflictBar
+						conflicts={conflicts}
+						onResolve={handleResolve}
+						onResolveAll={handleResolveAll}
+					/>
+				)}
+				<DiffEditor
+					theme={theme}
+					onMount={(e: editor.IStandaloneDiffEditor, m: Monaco) => {
+						editorRef.current = e;
+
+						configure(e, m);
+						setIsMounted(true);
+					}}
+					options={{
+						readOnly: false,
+						originalEditable: false,
+						renderSideBySide: viewType === 'side-by-side',
+						wrappingStrategy: 'advanced',
+						wordWrap: 'wordWrapColumn',
+						wordWrapColumn: 75,
+						wrappingIndent: 'indent',
+						scrollBeyondLastLine: false,
+						wordBreak: 'normal',
+						diffAlgorithm: 'smart',
+						scrollBeyondLastColumn: 0,
+						contextmenu: false,
+						scrollbar: {
+							horizontal: 'hidden',
+							verticalSliderSize: 0,
+							vertical: 'hidden',
+							alwaysConsumeMouseWheel: false,
+						},
+					}}
+					loading={<div>Loading content ...</div>}
+					modified={modifiedContent ?? undefined}
+					original={oldFileContent ?? undefined}
+					modifiedModelPath="modified.tsx"
+					originalModelPath="original.tsx"
+					language="javascript"
+				/>
+			</>
 		);
 	},
 );
@@ -20,6 +20,7 @@ export const JobDiffView = memo(
 				viewType,
 				jobHash,
 				jobKind,
+				oldContentHashDigest,
 				oldFileContent,
 				newFileContent,
 				originalNewFileContent,
@@ -28,6 +29,8 @@ export const JobDiffView = memo(
 				title,
 				theme,
 				caseHash,
+				hunks,
+				rejectedHunkIndices,
 			}: Props,
 			ref,
 		) => {
@@ -72,6 +75,16 @@ export const JobDiffView = memo(
 				}
 			}, 1000);
 
+			const handleRejectedHunksChange = (
+				hunkIndices: ReadonlyArray<number>,
+			) => {
+				vscode.postMessage({
+					kind: 'webview.jobDiffView.setRejectedHunks',
+					jobHash,
+					hunkIndices,
+				});
+			};
+
 			return (
 				<div
 					ref={ref}
@@ -118,6 +131,10 @@ export const JobDiffView = memo(
 							onDiffCalculated={handleDiffCalculated}
 							onChange={handleContentChange}
 							jobHash={jobHash}
+							oldContentHashDigest={oldContentHashDigest}
+							hunks={hunks}
+							rejectedHunkIndices={rejectedHunkIndices}
+							onRejectedHunksChange={handleRejectedHunksChange}
 						/>
 					</Collapsable>
 				</div>
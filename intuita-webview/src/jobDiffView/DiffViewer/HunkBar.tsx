@@ -0,0 +1,88 @@
+import { VSCodeButton, VSCodeCheckbox } from '@vscode/webview-ui-toolkit/react';
+import type { JobHunk } from '../../../../src/jobs/buildHunks';
+
+type Props = Readonly<{
+	hunks: ReadonlyArray<JobHunk>;
+	rejectedHunkIndices: ReadonlyArray<number>;
+	onRejectedHunksChange(hunkIndices: ReadonlyArray<number>): void;
+	onRevealHunk(hunk: JobHunk): void;
+}>;
+
+const formatLines = ({ newStart, addedLineCount }: JobHunk): string =>
+	addedLineCount > 1
+		? `Lines ${newStart}–${newStart + addedLineCount - 1}`
+		: `Line ${newStart}`;
+
+export const HunkBar = ({
+	hunks,
+	rejectedHunkIndices,
+	onRejectedHunksChange,
+	onRevealHunk,
+}: Props) => {
+	const flipHunk = (index: number) => {
+		onRejectedHunksChange(
+			rejectedHunkIndices.includes(index)
+				? rejectedHunkIndices.filter((i) => i !== index)
+				: [...rejectedHunkIndices, index],
+		);
+	};
+
+	return (
+		<div className="flex flex-col gap-4 pb-2-5">
+			<div className="flex align-items-center justify-between">
+				<h4 className="my-0 highlighted-text user-select-none">
+					{hunks.length - rejectedHunkIndices.length} of{' '}
+					{hunks.length} change(s) accepted
+				</h4>
+				<div className="flex gap-4">
+					<VSCodeButton
+						appearance="secondary"
+						onClick={() => onRejectedHunksChange([])}
+					>
+						Accept All
+					</VSCodeButton>
+					<VSCodeButton
+						appearance="secondary"
+						onClick={() =>
+							onRejectedHunksChange(
+								hunks.map((_, index) => index),
+							)
+						}
+					>
+						Reject All
+					</VSCodeButton>
+				</div>
+			</div>
+			{hunks.map((hunk, index) => (
+				<div
+					key={`${hunk.oldStart}-${hunk.newStart}`}
+					className="flex align-items-center justify-between"
+				>
+					<div
+						className="flex align-items-center checkbox-container"
+						onClick={() => flipHunk(index)}
+					>
+						<VSCodeCheckbox
+							checked={!rejectedHunkIndices.includes(index)}
+						/>
+						<span className="user-select-none ml-10">
+							{formatLines(hunk)}
+						</span>
+						<span className="diff-changes diff-removed">
+							-{hunk.removedLineCount}
+						</span>
+						<span className="diff-changes diff-added">
+							+{hunk.addedLineCount}
+						</span>
+					</div>
+					<VSCodeButton
+						appearance="icon"
+						onClick={() => onRevealHunk(hunk)}
+					>
+						Show
+					</VSCodeButton>
+				</div>
+			))}
+		</div>
+	);
+};
@@ -0,0 +1,72 @@
+// Imported from /src/jobs/threeWayMerge.ts
+
+export const CONFLICT_START_MARKER = '<<<<<<< current';
+export const CONFLICT_SEPARATOR_MARKER = '=======';
+export const CONFLICT_END_MARKER = '>>>>>>> codemod';
+
+export type Conflict = Readonly<{
+	// zero-based indices of the marker lines
+	startLine: number;
+	separatorLine: number;
+	endLine: number;
+}>;
+
+export type ConflictSide = 'current' | 'codemod';
+
+export const findConflicts = (content: string): ReadonlyArray<Conflict> => {
+	const lines = content.split('\n');
+	const conflicts: Conflict[] = [];
+
+	let startLine: number | null = null;
+	let separatorLine: number | null = null;
+
+	lines.forEach((line, index) => {
+		if (line === CONFLICT_START_MARKER) {
+			startLine = index;
+			separatorLine = null;
+		} else if (line === CONFLICT_SEPARATOR_MARKER && startLine !== null) {
+			separatorLine = index;
+		} else if (
+			line === CONFLICT_END_MARKER &&
+			startLine !== null &&
+			separatorLine !== null
+		) {
+			conflicts.push({ startLine, separatorLine, endLine: index });
+
+			startLine = null;
+			separatorLine = null;
+		}
+	});
+
+	return conflicts;
+};
+
+export const resolveConflict = (
+	content: string,
+	conflict: Conflict,
+	side: ConflictSide,
+): string => {
+	const lines = content.split('\n');
+
+	const keptLines =
+		side === 'current'
+			? lines.slice(conflict.startLine + 1, conflict.separatorLine)
+			: lines.slice(conflict.separatorLine + 1, conflict.endLine);
+
+	return [
+		...lines.slice(0, conflict.startLine),
+		...keptLines,
+		...lines.slice(conflict.endLine + 1),
+	].join('\n');
+};
+
+export const resolveAllConflicts = (
+	content: string,
+	side: ConflictSide,
+): string =>
+	// resolving from the last conflict keeps the line indices of the preceding ones valid
+	findConflicts(content).reduceRight(
+		(resolvedContent, conflict) =>
+			resolveConflict(resolvedContent, conflict, side),
+		content,
+	);
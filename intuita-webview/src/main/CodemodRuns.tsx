@@ -9,6 +9,7 @@ import { SectionHeader } from '../shared/SectionHeader';
 
 import { App as CampaignManager } from '../campaignManager/App';
 import { App as FileExplorer } from '../fileExplorer/App';
+import { App as ExecutionQueue } from '../executionQueue/App';
 
 import { MainWebviewViewProps } from '../../../src/selectors/selectMainWebviewViewProps';
 import { vscode } from '../shared/utilities/vscode';
@@ -52,7 +53,13 @@ export const CodemodRuns = (
 		[props.panelGroupSettings],
 	);
 
-	const commands: (Command & { icon: string })[] = [];
+	const commands: (Command & { icon: string })[] = [
+		{
+			icon: 'diff',
+			title: 'Import patch',
+			command: 'intuita.importPatch',
+		},
+	];
 
 	if (props.clearingInProgress) {
 		commands.push({
@@ -69,88 +76,95 @@ export const CodemodRuns = (
 	}
 
 	return (
-		<div className="w-full h-full">
-			<PanelGroup
-				direction="vertical"
-				storage={storage}
-				autoSaveId="codemodRunsPanelGroup"
-			>
-				<SectionHeader
-					title={'Results'}
-					commands={commands}
-					collapsed={props.resultsCollapsed}
-					onClick={(event) => {
-						event.preventDefault();
-
-						vscode.postMessage({
-							kind: 'webview.global.collapseResultsPanel',
-							collapsed: !props.resultsCollapsed,
-						});
-					}}
-				/>
-				<ResizablePanel
-					collapsible
-					minSize={0}
-					defaultSize={
-						props.resultsCollapsed
-							? props.panelGroupSettings['0,0']?.[0] ?? 50
-							: 0
-					}
-					style={{
-						overflowY: 'auto',
-						overflowX: 'hidden',
-					}}
-					ref={resultsRef}
-					onCollapse={(collapsed) => {
-						vscode.postMessage({
-							kind: 'webview.global.collapseResultsPanel',
-							collapsed,
-						});
-					}}
+		<div className="w-full h-full flex flex-col">
+			{(props.executionQueue.items.length !== 0 ||
+				props.executionQueue.paused) && (
+				<ExecutionQueue executionQueue={props.executionQueue} />
+			)}
+			{/* the panels take the height left by the queue */}
+			<div className="w-full flex-1" style={{ minHeight: 0 }}>
+				<PanelGroup
+					direction="vertical"
+					storage={storage}
+					autoSaveId="codemodRunsPanelGroup"
 				>
-					{props.clearingInProgress ? (
-						<VSCodeProgressRing className="clearing-progress-ring" />
-					) : (
-						<CampaignManager {...props} />
-					)}
-				</ResizablePanel>
-				<PanelResizeHandle className="resize-handle" />
-				<SectionHeader
-					title={'Change Explorer'}
-					commands={[]}
-					collapsed={props.changeExplorerCollapsed}
-					onClick={(event) => {
-						event.preventDefault();
+					<SectionHeader
+						title={'Results'}
+						commands={commands}
+						collapsed={props.resultsCollapsed}
+						onClick={(event) => {
+							event.preventDefault();
 
-						vscode.postMessage({
-							kind: 'webview.global.collapseChangeExplorerPanel',
-							collapsed: !props.changeExplorerCollapsed,
-						});
-					}}
-				/>
-				<ResizablePanel
-					collapsible
-					minSize={0}
-					defaultSize={
-						props.changeExplorerCollapsed
-							? 0
-							: props.panelGroupSettings['0,0']?.[1] ?? 50
-					}
-					style={{
-						overflowY: 'auto',
-						overflowX: 'hidden',
-					}}
-					ref={changeExplorerRef}
-					onCollapse={(collapsed) => {
-						vscode.postMessage({
-							kind: 'webview.global.collapseChangeExplorerPanel',
-							collapsed,
-						});
-					}}
-				>
-					<FileExplorer {...props} />
-				</ResizablePanel>
-			</PanelGroup>
+							vscode.postMessage({
+								kind: 'webview.global.collapseResultsPanel',
+								collapsed: !props.resultsCollapsed,
+							});
+						}}
+					/>
+					<ResizablePanel
+						collapsible
+						minSize={0}
+						defaultSize={
+							props.resultsCollapsed
+								? props.panelGroupSettings['0,0']?.[0] ?? 50
+								: 0
+						}
+						style={{
+							overflowY: 'auto',
+							overflowX: 'hidden',
+						}}
+						ref={resultsRef}
+						onCollapse={(collapsed) => {
+							vscode.postMessage({
+								kind: 'webview.global.collapseResultsPanel',
+								collapsed,
+							});
+						}}
+					>
+						{props.clearingInProgress ? (
+							<VSCodeProgressRing className="clearing-progress-ring" />
+						) : (
+							<CampaignManager {...props} />
+						)}
+					</ResizablePanel>
+					<PanelResizeHandle className="resize-handle" />
+					<SectionHeader
+						title={'Change Explorer'}
+						commands={[]}
+						collapsed={props.changeExplorerCollapsed}
+						onClick={(event) => {
+							event.preventDefault();
+
+							vscode.postMessage({
+								kind: 'webview.global.collapseChangeExplorerPanel',
+								collapsed: !props.changeExplorerCollapsed,
+							});
+						}}
+					/>
+					<ResizablePanel
+						collapsible
+						minSize={0}
+						defaultSize={
+							props.changeExplorerCollapsed
+								? 0
+								: props.panelGroupSettings['0,0']?.[1] ?? 50
+						}
+						style={{
+							overflowY: 'auto',
+							overflowX: 'hidden',
+						}}
+						ref={changeExplorerRef}
+						onCollapse={(collapsed) => {
+							vscode.postMessage({
+								kind: 'webview.global.collapseChangeExplorerPanel',
+								collapsed,
+							});
+						}}
+					>
+						<FileExplorer {...props} />
+					</ResizablePanel>
+				</PanelGroup>
+			</div>
 		</div>
 	);
 };
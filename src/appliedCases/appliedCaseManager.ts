@@ -0,0 +1,363 @@
+import { FileSystemError, Uri, workspace } from 'vscode';
+import { MessageBus, MessageKind } from '../components/messageBus';
+import { Store } from '../data';
+import { actions } from '../data/slice';
+import { CaseHash } from '../cases/types';
+import { Job, mapJobToPersistedJob, mapPersistedJobToJob } from '../jobs/types';
+import {
+	FileSnapshot,
+	getJobAffectedUris,
+	restoreFileSnapshot,
+} from '../jobs/fileSnapshot';
+import { buildHash } from '../utilities';
+import { SnapshotEntry } from './types';
+
+const doesFileExist = async (uri: Uri): Promise<boolean> => {
+	try {
+		await workspace.fs.stat(uri);
+
+		return true;
+	} catch (error) {
+		if (error instanceof FileSystemError) {
+			return false;
+		}
+
+		throw error;
+	}
+};
+
+const readContentHashDigest = async (uri: Uri): Promise<string | null> => {
+	try {
+		return buildHash(await workspace.fs.readFile(uri));
+	} catch (error) {
+		if (error instanceof FileSystemError) {
+			return null;
+		}
+
+		throw error;
+	}
+};
+
+// the applied contents of the files are compared with the current ones before undoing
+const readAppliedContentHashDigests = (
+	snapshotEntries: ReadonlyArray<SnapshotEntry>,
+	uris: ReadonlySet<string>,
+): Promise<ReadonlyArray<SnapshotEntry>> =>
+	Promise.all(
+		snapshotEntries.map(async (entry) =>
+			uris.has(entry.uri)
+				? {
+						...entry,
+						appliedContentHashDigest: await readContentHashDigest(
+							Uri.parse(entry.uri),
+						),
+				  }
+				: entry,
+		),
+	);
+
+export class AppliedCaseManager {
+	public constructor(
+		private readonly __messageBus: MessageBus,
+		private readonly __store: Store,
+		private readonly __storageUri: Uri | null,
+	) {}
+
+	private __getSnapshotDirectoryUri(caseHash: CaseHash): Uri | null {
+		if (this.__storageUri === null) {
+			return null;
+		}
+
+		return Uri.joinPath(this.__storageUri, 'snapshots', caseHash);
+	}
+
+	public async recordAppliedJobs(
+		jobs: ReadonlyArray<Job>,
+		snapshot: FileSnapshot,
+	): Promise<void> {
+		const state = this.__store.getState();
+
+		const caseHashes = new Set(jobs.map((job) => job.caseHashDigest));
+
+		for (const caseHash of caseHashes) {
+			const snapshotDirectoryUri =
+				this.__getSnapshotDirectoryUri(caseHash);
+
+			const prevAppliedCase = state.appliedCases[caseHash] ?? null;
+
+			const kase =
+				state.case.entities[caseHash] ?? prevAppliedCase?.kase ?? null;
+
+			if (snapshotDirectoryUri === null || kase === null) {
+				continue;
+			}
+
+			const caseJobs = jobs.filter(
+				(job) => job.caseHashDigest === caseHash,
+			);
+
+			const caseUris = new Set(
+				caseJobs.flatMap(getJobAffectedUris).map(String),
+			);
+
+			const snapshotEntries: SnapshotEntry[] = [
+				...(prevAppliedCase?.snapshotEntries ?? []),
+			];
+
+			// the first snapshot of a file holds its state before any of the applies
+			const recordedUris = new Set(snapshotEntries.map(({ uri }) => uri));
+
+			await workspace.fs.createDirectory(snapshotDirectoryUri);
+
+			for (const { uri, content } of snapshot) {
+				const stringifiedUri = uri.toString();
+
+				if (
+					!caseUris.has(stringifiedUri) ||
+					recordedUris.has(stringifiedUri)
+				) {
+					continue;
+				}
+
+				if (content === null) {
+					snapshotEntries.push({
+						uri: stringifiedUri,
+						snapshotUri: null,
+						appliedContentHashDigest: undefined,
+					});
+
+					continue;
+				}
+
+				const snapshotUri = Uri.joinPath(
+					snapshotDirectoryUri,
+					buildHash(stringifiedUri),
+				);
+
+				await workspace.fs.writeFile(snapshotUri, content);
+
+				snapshotEntries.push({
+					uri: stringifiedUri,
+					snapshotUri: snapshotUri.toString(),
+					appliedContentHashDigest: undefined,
+				});
+			}
+
+			this.__store.dispatch(
+				actions.upsertAppliedCase({
+					kase,
+					jobs: [
+						...(prevAppliedCase?.jobs ?? []),
+						...caseJobs.map(mapJobToPersistedJob),
+					],
+					snapshotEntries: await readAppliedContentHashDigests(
+						snapshotEntries,
+						caseUris,
+					),
+					appliedAt: Date.now(),
+				}),
+			);
+		}
+	}
+
+	/**
+	 * Records the current contents of the files touched by the jobs as the applied ones,
+	 * e.g. after the post-apply hooks formatted them.
+	 */
+	public async recordAppliedContents(
+		jobs: ReadonlyArray<Job>,
+	): Promise<void> {
+		const caseHashes = new Set(jobs.map((job) => job.caseHashDigest));
+
+		for (const caseHash of caseHashes) {
+			const appliedCase =
+				this.__store.getState().appliedCases[caseHash] ?? null;
+
+			if (appliedCase === null) {
+				continue;
+			}
+
+			const caseUris = new Set(
+				jobs
+					.filter((job) => job.caseHashDigest === caseHash)
+					.flatMap(getJobAffectedUris)
+					.map(String),
+			);
+
+			this.__store.dispatch(
+				actions.upsertAppliedCase({
+					...appliedCase,
+					snapshotEntries: await readAppliedContentHashDigests(
+						appliedCase.snapshotEntries,
+						caseUris,
+					),
+				}),
+			);
+		}
+	}
+
+	/**
+	 * Finds the files whose contents changed since the jobs of the case were applied,
+	 * which undoing the case would overwrite.
+	 */
+	public async findChangedUris(
+		caseHash: CaseHash,
+	): Promise<ReadonlyArray<Uri>> {
+		const appliedCase = this.__getAppliedCaseToUndo(caseHash);
+
+		if (appliedCase === null) {
+			return [];
+		}
+
+		const changedUris: Uri[] = [];
+
+		for (const {
+			uri,
+			appliedContentHashDigest,
+		} of appliedCase.snapshotEntries) {
+			if (appliedContentHashDigest === undefined) {
+				continue;
+			}
+
+			const parsedUri = Uri.parse(uri);
+
+			if (
+				(await readContentHashDigest(parsedUri)) !==
+				appliedContentHashDigest
+			) {
+				changedUris.push(parsedUri);
+			}
+		}
+
+		return changedUris;
+	}
+
+	/**
+	 * Restores the files to their pre-apply contents and re-creates the applied jobs.
+	 * Returns the number of jobs which could not be re-created
+	 * because their output files do not exist anymore.
+	 */
+	public async undoAppliedCase(caseHash: CaseHash): Promise<number> {
+		const appliedCase = this.__getAppliedCaseToUndo(caseHash);
+
+		if (appliedCase === null) {
+			throw new Error('The case has not been applied.');
+		}
+
+		const snapshot: FileSnapshot = await Promise.all(
+			appliedCase.snapshotEntries.map(async ({ uri, snapshotUri }) => ({
+				uri: Uri.parse(uri),
+				content:
+					snapshotUri !== null
+						? await workspace.fs.readFile(Uri.parse(snapshotUri))
+						: null,
+			})),
+		);
+
+		const unrestoredUris = await restoreFileSnapshot(snapshot);
+
+		if (unrestoredUris.length !== 0) {
+			throw new Error(
+				`Could not restore the following files: ${unrestoredUris
+					.map(({ fsPath }) => fsPath)
+					.join(', ')}`,
+			);
+		}
+
+		const jobs: Job[] = [];
+
+		for (const job of appliedCase.jobs.map(mapPersistedJobToJob)) {
+			if (
+				job.newContentUri === null ||
+				(await doesFileExist(job.newContentUri))
+			) {
+				jobs.push(await this.__restoreOldContent(job, snapshot));
+			}
+		}
+
+		this.__messageBus.publish({
+			kind: MessageKind.upsertCase,
+			kase: appliedCase.kase,
+			jobs,
+		});
+
+		// the changes are not accepted anymore after restoring the files
+		this.__store.dispatch(
+			actions.removeJobOutcomes(appliedCase.jobs.map(({ hash }) => hash)),
+		);
+		this.__store.dispatch(actions.removeAppliedCase(caseHash));
+
+		await this.__deleteSnapshotDirectory(
+			this.__getSnapshotDirectoryUri(caseHash),
+		);
+
+		return appliedCase.jobs.length - jobs.length;
+	}
+
+	// the worktree cases are committed and their worktrees removed once the jobs are applied
+	private __getAppliedCaseToUndo(caseHash: CaseHash) {
+		const appliedCase =
+			this.__store.getState().appliedCases[caseHash] ?? null;
+
+		if (appliedCase !== null && appliedCase.kase.worktree !== null) {
+			throw new Error(
+				`The changes of the "${appliedCase.kase.codemodName}" case were applied in a git worktree and committed there. Revert the commit with git to undo them.`,
+			);
+		}
+
+		return appliedCase;
+	}
+
+	// the codemod inputs kept for merging are deleted once the jobs are applied
+	private async __restoreOldContent(
+		job: Job,
+		snapshot: FileSnapshot,
+	): Promise<Job> {
+		if (
+			job.oldContentUri === null ||
+			(await doesFileExist(job.oldContentUri))
+		) {
+			return job;
+		}
+
+		const content =
+			snapshot.find(
+				({ uri }) => uri.toString() === job.oldUri?.toString(),
+			)?.content ?? null;
+
+		// the force-applied jobs were run on a different content than the restored one
+		if (
+			content === null ||
+			buildHash(content) !== job.oldContentHashDigest
+		) {
+			return { ...job, oldContentUri: null };
+		}
+
+		await workspace.fs.writeFile(job.oldContentUri, content);
+
+		return job;
+	}
+
+	public async deleteAllSnapshots(): Promise<void> {
+		await this.__deleteSnapshotDirectory(
+			this.__storageUri !== null
+				? Uri.joinPath(this.__storageUri, 'snapshots')
+				: null,
+		);
+	}
+
+	private async __deleteSnapshotDirectory(uri: Uri | null): Promise<void> {
+		if (uri === null) {
+			return;
+		}
+
+		try {
+			await workspace.fs.delete(uri, {
+				recursive: true,
+				useTrash: false,
+			});
+		} catch (error) {
+			console.error(error);
+		}
+	}
+}
@@ -0,0 +1,273 @@
+import { spawn } from 'node:child_process';
+import { existsSync } from 'node:fs';
+import { dirname } from 'node:path';
+import {
+	CancellationToken,
+	commands,
+	OutputChannel,
+	ProgressLocation,
+	window,
+	workspace,
+} from 'vscode';
+import { Case, CaseHash } from '../cases/types';
+import { Configuration } from '../configuration';
+import { Container } from '../container';
+import { Store } from '../data';
+import { actions } from '../data/slice';
+import { ExecutionError } from '../errors/types';
+import { getJobAffectedUris } from '../jobs/fileSnapshot';
+import { Job } from '../jobs/types';
+
+const POST_APPLY_HOOK_CODE = 'postApplyHook';
+
+// the end of the output usually holds the summary of the failures
+const MAX_OUTPUT_LENGTH = 4000;
+
+type HookResult = Readonly<{
+	command: string;
+	exitCode: number | null;
+	output: string;
+}>;
+
+// the hooks run in cmd on Windows, where the paths cannot contain double quotes
+const shellQuote = (value: string): string =>
+	process.platform === 'win32'
+		? `"${value}"`
+		: `'${value.replace(/'/g, `'\\''`)}'`;
+
+const runHook = (
+	command: string,
+	cwd: string,
+	paths: ReadonlyArray<string>,
+	outputChannel: OutputChannel,
+	token: CancellationToken,
+): Promise<HookResult> =>
+	new Promise((resolve) => {
+		const childProcess = spawn(
+			command.replace(/\$\{files\}/g, paths.map(shellQuote).join(' ')),
+			{
+				cwd,
+				shell: true,
+				env: {
+					...process.env,
+					INTUITA_APPLIED_FILES: paths.join('\n'),
+				},
+			},
+		);
+
+		let output = '';
+
+		const onData = (chunk: Buffer) => {
+			const text = chunk.toString('utf8');
+
+			outputChannel.append(text);
+			output = (output + text).slice(-MAX_OUTPUT_LENGTH);
+		};
+
+		childProcess.stdout.on('data', onData);
+		childProcess.stderr.on('data', onData);
+
+		const cancellationListener = token.onCancellationRequested(() =>
+			childProcess.kill(),
+		);
+
+		childProcess.once('error', (error) => {
+			cancellationListener.dispose();
+
+			resolve({ command, exitCode: null, output: error.message });
+		});
+
+		childProcess.once('close', (exitCode) => {
+			cancellationListener.dispose();
+
+			resolve({ command, exitCode, output });
+		});
+	});
+
+const buildHookError = ({
+	command,
+	exitCode,
+	output,
+}: HookResult): ExecutionError => ({
+	message:
+		exitCode === 0
+			? `The "${command}" hook passed`
+			: exitCode === null
+			? `The "${command}" hook could not be run`
+			: `The "${command}" hook exited with code ${exitCode}`,
+	path: undefined,
+	severity: exitCode === 0 ? 'info' : 'error',
+	code: POST_APPLY_HOOK_CODE,
+	line: null,
+	column: null,
+	stack: exitCode === 0 ? null : output.trim() || null,
+});
+
+/**
+ * Runs the configured shell commands, in order, after the jobs of a case are applied.
+ * The results are shown as the errors of the case, and a failing command offers to undo the apply.
+ */
+export class PostApplyHookRunner {
+	public constructor(
+		private readonly __store: Store,
+		private readonly __configurationContainer: Container<Configuration>,
+		private readonly __outputChannel: OutputChannel,
+	) {}
+
+	/**
+	 * Returns false if any of the hooks failed, was cancelled or could not be run.
+	 */
+	public async runHooks(jobs: ReadonlyArray<Job>): Promise<boolean> {
+		const { postApplyHooks } = this.__configurationContainer.get();
+
+		if (postApplyHooks.length === 0) {
+			return true;
+		}
+
+		// the settings of a cloned repository could run any command otherwise
+		if (!workspace.isTrusted) {
+			window.showWarningMessage(
+				'The post-apply hooks are not run in untrusted workspaces.',
+			);
+
+			return false;
+		}
+
+		const state = this.__store.getState();
+
+		const caseHashes = new Set(jobs.map((job) => job.caseHashDigest));
+
+		let passed = true;
+
+		for (const caseHash of caseHashes) {
+			const kase =
+				state.case.entities[caseHash] ??
+				state.appliedCases[caseHash]?.kase ??
+				null;
+
+			// the worktrees are committed and removed right after applying
+			if (kase === null || kase.worktree !== null) {
+				continue;
+			}
+
+			// the deleted files cannot be passed to the formatters or the linters
+			const paths = Array.from(
+				new Set(
+					jobs
+						.filter((job) => job.caseHashDigest === caseHash)
+						.flatMap(getJobAffectedUris)
+						.map(({ fsPath }) => fsPath),
+				),
+			).filter((path) => existsSync(path));
+
+			passed =
+				(await this.__runCaseHooks(kase, paths, postApplyHooks)) &&
+				passed;
+		}
+
+		return passed;
+	}
+
+	private async __runCaseHooks(
+		kase: Case,
+		paths: ReadonlyArray<string>,
+		postApplyHooks: ReadonlyArray<string>,
+	): Promise<boolean> {
+		const cwd = kase.rootPath ?? dirname(kase.path);
+
+		const results = await window.withProgress(
+			{
+				location: ProgressLocation.Notification,
+				title: 'Running the post-apply hooks',
+				cancellable: true,
+			},
+			async (progress, token) => {
+				const results: HookResult[] = [];
+
+				// the later hooks usually depend on the earlier ones, e.g. the type-check on the linter fixes
+				for (const command of postApplyHooks) {
+					if (token.isCancellationRequested) {
+						break;
+					}
+
+					progress.report({ message: command });
+
+					this.__outputChannel.appendLine(
+						`[post-apply] ${command} (${paths.length} file(s))`,
+					);
+
+					const result = await runHook(
+						command,
+						cwd,
+						paths,
+						this.__outputChannel,
+						token,
+					);
+
+					results.push(result);
+
+					if (result.exitCode !== 0) {
+						break;
+					}
+				}
+
+				return results;
+			},
+		);
+
+		this.__setHookErrors(kase.hash, results.map(buildHookError));
+
+		const failedResult =
+			results.find(({ exitCode }) => exitCode !== 0) ?? null;
+
+		if (failedResult === null) {
+			return results.length === postApplyHooks.length;
+		}
+
+		// the errors panel shows the errors of the selected case
+		this.__store.dispatch(actions.setSelectedCaseHash(kase.hash));
+
+		// the worktree cases cannot be undone
+		const items =
+			kase.worktree === null
+				? ['Undo This Apply', 'Show Output']
+				: ['Show Output'];
+
+		window
+			.showErrorMessage(
+				`The "${failedResult.command}" post-apply hook failed.`,
+				...items,
+			)
+			.then((item) => {
+				if (item === 'Undo This Apply') {
+					commands.executeCommand(
+						'intuita.undoAppliedCase',
+						kase.hash,
+					);
+				}
+
+				if (item === 'Show Output') {
+					this.__outputChannel.show();
+				}
+			});
+
+		return false;
+	}
+
+	// the results of the previous applies of the case are replaced
+	private __setHookErrors(
+		caseHash: CaseHash,
+		hookErrors: ReadonlyArray<ExecutionError>,
+	) {
+		const executionErrors = (
+			this.__store.getState().executionErrors[caseHash] ?? []
+		).filter(({ code }) => code !== POST_APPLY_HOOK_CODE);
+
+		this.__store.dispatch(
+			actions.setExecutionErrors({
+				caseHash,
+				errors: [...executionErrors, ...hookErrors],
+			}),
+		);
+	}
+}
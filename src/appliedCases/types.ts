@@ -0,0 +1,24 @@
+import * as t from 'io-ts';
+import { buildTypeCodec } from '../utilities';
+import { caseCodec } from '../cases/types';
+import { persistedJobCodec } from '../jobs/types';
+
+export const snapshotEntryCodec = buildTypeCodec({
+	uri: t.string,
+	// null means that the file did not exist before applying the jobs
+	snapshotUri: t.union([t.string, t.null]),
+	// null means that the file did not exist after applying the jobs,
+	// undefined that the entry was recorded before the digests were introduced
+	appliedContentHashDigest: t.union([t.string, t.null, t.undefined]),
+});
+
+export type SnapshotEntry = t.TypeOf<typeof snapshotEntryCodec>;
+
+export const appliedCaseCodec = buildTypeCodec({
+	kase: caseCodec,
+	jobs: t.readonlyArray(persistedJobCodec),
+	snapshotEntries: t.readonlyArray(snapshotEntryCodec),
+	appliedAt: t.number,
+});
+
+export type AppliedCase = t.TypeOf<typeof appliedCaseCodec>;
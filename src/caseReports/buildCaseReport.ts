@@ -0,0 +1,137 @@
+import { isAbsolute, relative } from 'node:path';
+import { CaseArgument, CaseHash } from '../cases/types';
+import { ExecutionError } from '../errors/types';
+import { JobKind, mapPersistedJobToJob } from '../jobs/types';
+import { RootState } from '../persistedState/codecs';
+import { isNeitherNullNorUndefined } from '../utilities';
+import { getCaseRootPath } from '../workspaceFolders';
+import { countJobLines } from './jobOutcomes';
+import { JobOutcomeStatus, LineCounts } from './types';
+
+export const JOB_KIND_NAMES: Readonly<Record<JobKind, string>> = {
+	[JobKind.rewriteFile]: 'modified',
+	[JobKind.createFile]: 'created',
+	[JobKind.deleteFile]: 'deleted',
+	[JobKind.moveFile]: 'moved',
+	[JobKind.moveAndRewriteFile]: 'moved and modified',
+	[JobKind.copyFile]: 'copied',
+};
+
+export type ReportedFileStatus = JobOutcomeStatus | 'pending';
+
+export type ReportedFile = Readonly<{
+	status: ReportedFileStatus;
+	kind: string;
+	oldPath: string | null;
+	newPath: string | null;
+	lineCounts: LineCounts | null;
+}>;
+
+export type CaseReport = Readonly<{
+	codemodName: string;
+	codemodArguments: ReadonlyArray<CaseArgument>;
+	engineVersion: string | null;
+	targetPath: string;
+	// the workspace folder the file paths are relative to
+	rootPath: string | null;
+	executedAt: string;
+	appliedAt: string | null;
+	generatedAt: string;
+	// the number of files by the kind of their change
+	fileCounts: Readonly<Record<string, number>>;
+	// the lines of the accepted and the pending changes
+	lineCounts: LineCounts;
+	files: ReadonlyArray<ReportedFile>;
+	executionErrors: ReadonlyArray<ExecutionError>;
+}>;
+
+/**
+ * Collects the report of the case, including its applied and rejected changes.
+ * Reads the outputs of the pending changes to count their lines.
+ */
+export const buildCaseReport = async (
+	state: RootState,
+	caseHash: CaseHash,
+	rootPaths: ReadonlyArray<string>,
+): Promise<CaseReport> => {
+	const appliedCase = state.appliedCases[caseHash] ?? null;
+	const kase = state.case.entities[caseHash] ?? appliedCase?.kase ?? null;
+
+	if (kase === null) {
+		throw new Error('The case does not exist anymore.');
+	}
+
+	const rootPath = getCaseRootPath(kase, rootPaths);
+
+	const toReportPath = (path: string | null): string | null =>
+		path !== null && rootPath !== null && isAbsolute(path)
+			? relative(rootPath, path)
+			: path;
+
+	const resolvedFiles: ReadonlyArray<ReportedFile> = state.jobOutcomes
+		.filter((jobOutcome) => jobOutcome.caseHash === caseHash)
+		.map(({ status, kind, oldPath, newPath, lineCounts }) => ({
+			status,
+			kind: JOB_KIND_NAMES[kind],
+			oldPath: toReportPath(oldPath),
+			newPath: toReportPath(newPath),
+			lineCounts,
+		}));
+
+	const pendingJobs = Object.values(state.job.entities)
+		.filter(isNeitherNullNorUndefined)
+		.filter((job) => job.caseHashDigest === caseHash)
+		.map(mapPersistedJobToJob);
+
+	const pendingFiles: ReportedFile[] = [];
+
+	for (const job of pendingJobs) {
+		pendingFiles.push({
+			status: 'pending',
+			kind: JOB_KIND_NAMES[job.kind],
+			oldPath: toReportPath(job.oldUri?.fsPath ?? null),
+			newPath: toReportPath(job.newUri?.fsPath ?? null),
+			lineCounts: await countJobLines(job),
+		});
+	}
+
+	const files = [...resolvedFiles, ...pendingFiles];
+
+	const fileCounts: Record<string, number> = {};
+
+	for (const { kind } of files) {
+		fileCounts[kind] = (fileCounts[kind] ?? 0) + 1;
+	}
+
+	const lineCounts = files
+		.filter(({ status }) => status !== 'rejected')
+		.reduce<LineCounts>(
+			(counts, file) => ({
+				addedLineCount:
+					counts.addedLineCount +
+					(file.lineCounts?.addedLineCount ?? 0),
+				removedLineCount:
+					counts.removedLineCount +
+					(file.lineCounts?.removedLineCount ?? 0),
+			}),
+			{ addedLineCount: 0, removedLineCount: 0 },
+		);
+
+	return {
+		codemodName: kase.codemodName,
+		codemodArguments: kase.codemodArguments,
+		engineVersion: kase.engineVersion,
+		targetPath: kase.path,
+		rootPath,
+		executedAt: new Date(kase.createdAt).toISOString(),
+		appliedAt:
+			appliedCase !== null
+				? new Date(appliedCase.appliedAt).toISOString()
+				: null,
+		generatedAt: new Date().toISOString(),
+		fileCounts,
+		lineCounts,
+		files,
+		executionErrors: state.executionErrors[caseHash] ?? [],
+	};
+};
@@ -0,0 +1,282 @@
+import { ExecutionError } from '../errors/types';
+import { CaseReport, ReportedFile } from './buildCaseReport';
+
+export type CaseReportFormat = 'markdown' | 'html' | 'json';
+
+export const CASE_REPORT_FILE_EXTENSIONS: Readonly<
+	Record<CaseReportFormat, string>
+> = {
+	markdown: 'md',
+	html: 'html',
+	json: 'json',
+};
+
+const STATUSES = ['accepted', 'rejected', 'pending'] as const;
+
+const formatPath = ({ oldPath, newPath }: ReportedFile): string =>
+	oldPath !== null && newPath !== null && oldPath !== newPath
+		? `${oldPath} → ${newPath}`
+		: newPath ?? oldPath ?? '';
+
+const formatLineCount = (lineCount: number | undefined): string =>
+	lineCount !== undefined ? String(lineCount) : '?';
+
+const formatStatusSummary = ({ files }: CaseReport): string =>
+	STATUSES.map(
+		(status) =>
+			`${
+				files.filter((file) => file.status === status).length
+			} ${status}`,
+	).join(', ');
+
+// e.g. "warning src/index.ts:12:5: E001 The message"
+const formatExecutionError = ({
+	severity,
+	code,
+	message,
+	path,
+	line,
+	column,
+}: ExecutionError): string => {
+	const location =
+		path !== undefined
+			? [path, line, line !== null ? column : null]
+					.filter((part) => part !== null)
+					.join(':')
+			: null;
+
+	return [severity, location !== null ? `${location}:` : null, code, message]
+		.filter((part) => part !== null)
+		.join(' ');
+};
+
+const escapeMarkdown = (text: string): string =>
+	text.replace(/([\\`*_[\]|<>])/g, '\\$1').replace(/\r?\n/g, ' ');
+
+const formatMarkdownTable = (
+	headers: ReadonlyArray<string>,
+	rows: ReadonlyArray<ReadonlyArray<string>>,
+): ReadonlyArray<string> => [
+	`| ${headers.join(' | ')} |`,
+	`| ${headers.map(() => '---').join(' | ')} |`,
+	...rows.map((row) => `| ${row.map(escapeMarkdown).join(' | ')} |`),
+];
+
+const formatAsMarkdown = (report: CaseReport): string => {
+	const lines = [
+		`# Codemod report: ${escapeMarkdown(report.codemodName)}`,
+		'',
+		`- Target: ${escapeMarkdown(report.targetPath)}`,
+		...(report.engineVersion !== null
+			? [`- Engine version: ${escapeMarkdown(report.engineVersion)}`]
+			: []),
+		`- Executed at: ${report.executedAt}`,
+		...(report.appliedAt !== null
+			? [`- Applied at: ${report.appliedAt}`]
+			: []),
+		`- Generated at: ${report.generatedAt}`,
+		'',
+		'## Arguments',
+		'',
+		...(report.codemodArguments.length !== 0
+			? formatMarkdownTable(
+					['Name', 'Value'],
+					report.codemodArguments.map(({ name, value }) => [
+						name,
+						String(value),
+					]),
+			  )
+			: ['No arguments.']),
+		'',
+		'## Summary',
+		'',
+		`- Files: ${formatStatusSummary(report)}`,
+		`- Lines: +${report.lineCounts.addedLineCount} −${report.lineCounts.removedLineCount} (the accepted and pending changes)`,
+		'',
+		...formatMarkdownTable(
+			['Change', 'Files'],
+			Object.entries(report.fileCounts).map(([kind, count]) => [
+				kind,
+				String(count),
+			]),
+		),
+		'',
+		'## Files',
+		'',
+		...(report.files.length !== 0
+			? formatMarkdownTable(
+					[
+						'Status',
+						'Change',
+						'File',
+						'Added lines',
+						'Removed lines',
+					],
+					report.files.map((file) => [
+						file.status,
+						file.kind,
+						formatPath(file),
+						formatLineCount(file.lineCounts?.addedLineCount),
+						formatLineCount(file.lineCounts?.removedLineCount),
+					]),
+			  )
+			: ['No files were changed.']),
+		'',
+		'## Execution errors',
+		'',
+		...(report.executionErrors.length !== 0
+			? report.executionErrors.map(
+					(executionError) =>
+						`- ${escapeMarkdown(
+							formatExecutionError(executionError),
+						)}`,
+			  )
+			: ['No execution errors.']),
+	];
+
+	return lines.join('\n') + '\n';
+};
+
+const escapeHtml = (text: string): string =>
+	text
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+		.replace(/'/g, '&#39;');
+
+const formatHtmlTable = (
+	headers: ReadonlyArray<string>,
+	rows: ReadonlyArray<ReadonlyArray<string>>,
+): string =>
+	[
+		'<table>',
+		`<thead><tr>${headers
+			.map((header) => `<th>${escapeHtml(header)}</th>`)
+			.join('')}</tr></thead>`,
+		'<tbody>',
+		...rows.map(
+			(row) =>
+				`<tr>${row
+					.map((cell) => `<td>${escapeHtml(cell)}</td>`)
+					.join('')}</tr>`,
+		),
+		'</tbody>',
+		'</table>',
+	].join('\n');
+
+// the report is meant to be shared, so the styles are inlined
+const HTML_STYLE = `body { font-family: system-ui, sans-serif; margin: 2rem; color: #1f2328; }
+table { border-collapse: collapse; margin: 1rem 0; }
+th, td { border: 1px solid #d0d7de; padding: 0.25rem 0.75rem; text-align: left; }
+th { background: #f6f8fa; }
+.added { color: #1a7f37; }
+.removed { color: #cf222e; }`;
+
+const formatAsHtml = (report: CaseReport): string => {
+	const title = `Codemod report: ${escapeHtml(report.codemodName)}`;
+
+	const details = [
+		['Target', report.targetPath],
+		...(report.engineVersion !== null
+			? [['Engine version', report.engineVersion]]
+			: []),
+		['Executed at', report.executedAt],
+		...(report.appliedAt !== null
+			? [['Applied at', report.appliedAt]]
+			: []),
+		['Generated at', report.generatedAt],
+	];
+
+	return [
+		'<!DOCTYPE html>',
+		'<html lang="en">',
+		'<head>',
+		'<meta charset="utf-8">',
+		`<title>${title}</title>`,
+		`<style>\n${HTML_STYLE}\n</style>`,
+		'</head>',
+		'<body>',
+		`<h1>${title}</h1>`,
+		'<ul>',
+		...details.map(
+			([label, value]) =>
+				`<li>${escapeHtml(label ?? '')}: ${escapeHtml(
+					value ?? '',
+				)}</li>`,
+		),
+		'</ul>',
+		'<h2>Arguments</h2>',
+		report.codemodArguments.length !== 0
+			? formatHtmlTable(
+					['Name', 'Value'],
+					report.codemodArguments.map(({ name, value }) => [
+						name,
+						String(value),
+					]),
+			  )
+			: '<p>No arguments.</p>',
+		'<h2>Summary</h2>',
+		'<ul>',
+		`<li>Files: ${escapeHtml(formatStatusSummary(report))}</li>`,
+		`<li>Lines: <span class="added">+${report.lineCounts.addedLineCount}</span> <span class="removed">&minus;${report.lineCounts.removedLineCount}</span> (the accepted and pending changes)</li>`,
+		'</ul>',
+		formatHtmlTable(
+			['Change', 'Files'],
+			Object.entries(report.fileCounts).map(([kind, count]) => [
+				kind,
+				String(count),
+			]),
+		),
+		'<h2>Files</h2>',
+		report.files.length !== 0
+			? formatHtmlTable(
+					[
+						'Status',
+						'Change',
+						'File',
+						'Added lines',
+						'Removed lines',
+					],
+					report.files.map((file) => [
+						file.status,
+						file.kind,
+						formatPath(file),
+						formatLineCount(file.lineCounts?.addedLineCount),
+						formatLineCount(file.lineCounts?.removedLineCount),
+					]),
+			  )
+			: '<p>No files were changed.</p>',
+		'<h2>Execution errors</h2>',
+		report.executionErrors.length !== 0
+			? [
+					'<ul>',
+					...report.executionErrors.map(
+						(executionError) =>
+							`<li>${escapeHtml(
+								formatExecutionError(executionError),
+							)}</li>`,
+					),
+					'</ul>',
+			  ].join('\n')
+			: '<p>No execution errors.</p>',
+		'</body>',
+		'</html>',
+		'',
+	].join('\n');
+};
+
+export const formatCaseReport = (
+	report: CaseReport,
+	format: CaseReportFormat,
+): string => {
+	if (format === 'markdown') {
+		return formatAsMarkdown(report);
+	}
+
+	if (format === 'html') {
+		return formatAsHtml(report);
+	}
+
+	return JSON.stringify(report, null, 2) + '\n';
+};
@@ -0,0 +1,58 @@
+import { diffLines } from 'diff';
+import { readJobContents } from '../jobs/buildUnifiedDiff';
+import { Job } from '../jobs/types';
+import { JobOutcome, JobOutcomeStatus, LineCounts } from './types';
+
+export const countChangedLines = (
+	oldContent: string,
+	newContent: string,
+): LineCounts =>
+	diffLines(oldContent, newContent).reduce(
+		(lineCounts, { added, removed, count }) => ({
+			addedLineCount:
+				lineCounts.addedLineCount + (added ? count ?? 0 : 0),
+			removedLineCount:
+				lineCounts.removedLineCount + (removed ? count ?? 0 : 0),
+		}),
+		{ addedLineCount: 0, removedLineCount: 0 },
+	);
+
+export const countJobLines = async (job: Job): Promise<LineCounts | null> => {
+	try {
+		const { oldContent, newContent } = await readJobContents(job);
+
+		return countChangedLines(oldContent, newContent);
+	} catch (error) {
+		console.error(error);
+
+		return null;
+	}
+};
+
+/**
+ * Builds the outcomes of the jobs about to be accepted or rejected.
+ * The line counts are based on the current input files,
+ * so they need to be built before applying the jobs.
+ */
+export const buildJobOutcomes = async (
+	jobs: ReadonlyArray<Job>,
+	status: JobOutcomeStatus,
+): Promise<ReadonlyArray<JobOutcome>> => {
+	const resolvedAt = Date.now();
+	const jobOutcomes: JobOutcome[] = [];
+
+	for (const job of jobs) {
+		jobOutcomes.push({
+			jobHash: job.hash,
+			caseHash: job.caseHashDigest,
+			kind: job.kind,
+			oldPath: job.oldUri?.fsPath ?? null,
+			newPath: job.newUri?.fsPath ?? null,
+			lineCounts: await countJobLines(job),
+			status,
+			resolvedAt,
+		});
+	}
+
+	return jobOutcomes;
+};
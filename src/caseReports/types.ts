@@ -0,0 +1,33 @@
+import * as t from 'io-ts';
+import { buildTypeCodec } from '../utilities';
+import { caseHashCodec } from '../cases/types';
+import { jobHashCodec, jobKindCodec } from '../jobs/types';
+
+export const lineCountsCodec = buildTypeCodec({
+	addedLineCount: t.number,
+	removedLineCount: t.number,
+});
+
+export type LineCounts = t.TypeOf<typeof lineCountsCodec>;
+
+export const jobOutcomeStatusCodec = t.union([
+	t.literal('accepted'),
+	t.literal('rejected'),
+]);
+
+export type JobOutcomeStatus = t.TypeOf<typeof jobOutcomeStatusCodec>;
+
+// the jobs are removed from the state once resolved, so the outcome keeps what the reports need
+export const jobOutcomeCodec = buildTypeCodec({
+	jobHash: jobHashCodec,
+	caseHash: caseHashCodec,
+	kind: jobKindCodec,
+	oldPath: t.union([t.string, t.null]),
+	newPath: t.union([t.string, t.null]),
+	// null if the contents could not be read anymore
+	lineCounts: t.union([lineCountsCodec, t.null]),
+	status: jobOutcomeStatusCodec,
+	resolvedAt: t.number,
+});
+
+export type JobOutcome = t.TypeOf<typeof jobOutcomeCodec>;
@@ -0,0 +1,88 @@
+import { Uri } from 'vscode';
+import type { Command } from '../components/messageBus';
+import type { Configuration } from '../configuration';
+import { parsePiranhaLanguage } from '../data/codemodConfigSchema';
+import type { CodemodHash } from '../packageJsonAnalyzer/types';
+import type { CodemodArgumentWithValue } from '../selectors/selectCodemodTree';
+import type { CaseArgument, CaseCommand, ExecutionSettings } from './types';
+
+const toCaseArguments = (
+	codemodArguments: ReadonlyArray<CodemodArgumentWithValue> | undefined,
+): CaseArgument[] =>
+	(codemodArguments ?? []).map(({ name, value }) => ({ name, value }));
+
+// the executions need the names and the values of the arguments only
+const toCodemodArguments = (
+	caseArguments: ReadonlyArray<CaseArgument>,
+): ReadonlyArray<CodemodArgumentWithValue> =>
+	caseArguments.map(({ name, value }) => {
+		const common = { name, description: '', required: false };
+
+		return typeof value === 'number'
+			? { ...common, kind: 'number', value }
+			: typeof value === 'boolean'
+			? { ...common, kind: 'boolean', value }
+			: { ...common, kind: 'string', value };
+	});
+
+export const toCaseCommand = (command: Command): CaseCommand => {
+	if (command.kind === 'executeCodemod') {
+		return {
+			...command,
+			arguments: toCaseArguments(command.arguments),
+		};
+	}
+
+	if (command.kind === 'executeLocalCodemod') {
+		return {
+			...command,
+			codemodUri: command.codemodUri.toString(),
+		};
+	}
+
+	return {
+		...command,
+		configurationUri: command.configurationUri.toString(),
+		arguments: toCaseArguments(command.arguments),
+	};
+};
+
+/**
+ * Rebuilds the command out of the persisted one.
+ * Throws if the persisted command is not valid anymore.
+ */
+export const toCommand = (caseCommand: CaseCommand): Command => {
+	if (caseCommand.kind === 'executeCodemod') {
+		return {
+			...caseCommand,
+			codemodHash: caseCommand.codemodHash as CodemodHash,
+			arguments: toCodemodArguments(caseCommand.arguments),
+		};
+	}
+
+	if (caseCommand.kind === 'executeLocalCodemod') {
+		return {
+			...caseCommand,
+			codemodUri: Uri.parse(caseCommand.codemodUri),
+			codemodHash: caseCommand.codemodHash as CodemodHash | null,
+		};
+	}
+
+	return {
+		...caseCommand,
+		configurationUri: Uri.parse(caseCommand.configurationUri),
+		language: parsePiranhaLanguage(caseCommand.language),
+		arguments: toCodemodArguments(caseCommand.arguments),
+	};
+};
+
+export const buildExecutionSettings = (
+	configuration: Configuration,
+): ExecutionSettings => ({
+	includePatterns: [...configuration.includePatterns],
+	excludePatterns: [...configuration.excludePatterns],
+	workerThreadCount: configuration.workerThreadCount,
+	fileLimit: configuration.fileLimit,
+	fileTimeout: configuration.fileTimeout,
+	formatWithPrettier: configuration.formatWithPrettier,
+});
@@ -0,0 +1,55 @@
+import { dirname, join } from 'node:path';
+import { Uri, workspace } from 'vscode';
+import { listFilesChangedSince } from '../git/gitCommands';
+import { listTargetUris } from '../targetFiles';
+import type { Case, ExecutionSettings } from './types';
+
+export type IncrementalBaseline =
+	| Readonly<{ kind: 'case' }>
+	| Readonly<{ kind: 'gitRef'; ref: string }>;
+
+const wasModifiedSince = async (uri: Uri, time: number): Promise<boolean> => {
+	try {
+		return (await workspace.fs.stat(uri)).mtime > time;
+	} catch (error) {
+		// the removed files cannot be processed again
+		return false;
+	}
+};
+
+/**
+ * Lists the files of the case target whose content changed since the case was created
+ * or versus the git ref, honoring the include and exclude patterns of the case.
+ * Throws GitCommandError if the git ref cannot be compared against
+ * and InvalidGitRevisionError if it could be taken for an option.
+ */
+export const listChangedTargetUris = async (
+	kase: Case,
+	targetUriIsDirectory: boolean,
+	executionSettings: ExecutionSettings,
+	baseline: IncrementalBaseline,
+): Promise<ReadonlyArray<Uri>> => {
+	const targetUris = await listTargetUris(
+		Uri.file(kase.path),
+		targetUriIsDirectory,
+		executionSettings,
+	);
+
+	if (baseline.kind === 'case') {
+		const modified = await Promise.all(
+			targetUris.map((uri) => wasModifiedSince(uri, kase.createdAt)),
+		);
+
+		return targetUris.filter((_, index) => modified[index]);
+	}
+
+	const directoryPath = targetUriIsDirectory ? kase.path : dirname(kase.path);
+
+	const changedPaths = new Set(
+		(await listFilesChangedSince(directoryPath, baseline.ref)).map(
+			(path) => Uri.file(join(directoryPath, path)).fsPath,
+		),
+	);
+
+	return targetUris.filter(({ fsPath }) => changedPaths.has(fsPath));
+};
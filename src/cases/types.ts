@@ -15,6 +15,60 @@ export const caseHashCodec = t.brand(
 
 export type CaseHash = t.TypeOf<typeof caseHashCodec>;
 
+export const caseArgumentCodec = buildTypeCodec({
+	name: t.string,
+	value: t.union([t.string, t.number, t.boolean]),
+});
+
+export type CaseArgument = t.TypeOf<typeof caseArgumentCodec>;
+
+// the URIs are stored as strings so the commands can be persisted
+// the arrays are mutable so the slice can store the commands
+export const caseCommandCodec = t.union([
+	buildTypeCodec({
+		kind: t.literal('executeCodemod'),
+		codemodHash: t.string,
+		name: t.string,
+		engine: t.string,
+		arguments: withFallback(t.array(caseArgumentCodec), []),
+	}),
+	buildTypeCodec({
+		kind: t.literal('executeLocalCodemod'),
+		codemodUri: t.string,
+		codemodHash: t.union([t.string, t.null]),
+		name: t.string,
+	}),
+	buildTypeCodec({
+		kind: t.literal('executePiranhaRule'),
+		name: t.string,
+		configurationUri: t.string,
+		language: t.string,
+		arguments: withFallback(t.array(caseArgumentCodec), []),
+	}),
+]);
+
+export type CaseCommand = t.TypeOf<typeof caseCommandCodec>;
+
+// the settings of the extension that the engines are executed with
+export const executionSettingsCodec = buildTypeCodec({
+	includePatterns: t.array(t.string),
+	excludePatterns: t.array(t.string),
+	workerThreadCount: t.number,
+	fileLimit: t.number,
+	fileTimeout: t.number,
+	formatWithPrettier: t.boolean,
+});
+
+export type ExecutionSettings = t.TypeOf<typeof executionSettingsCodec>;
+
+// the temporary worktree of the repository the case was executed in
+export const worktreeCodec = buildTypeCodec({
+	repositoryPath: t.string,
+	path: t.string,
+});
+
+export type Worktree = t.TypeOf<typeof worktreeCodec>;
+
 export const caseCodec = buildTypeCodec({
 	hash: caseHashCodec,
 	codemodName: t.string, // deprecated
@@ -24,6 +78,21 @@ export const caseCodec = buildTypeCodec({
 	),
 	createdAt: t.number,
 	path: t.string,
+	// the workspace folder the case was created in
+	rootPath: withFallback(t.union([t.string, t.null]), null),
+	// the arguments the codemod was executed with
+	codemodArguments: withFallback(t.readonlyArray(caseArgumentCodec), []),
+	// the version of the engine binary the codemod was executed with, if known
+	engineVersion: withFallback(t.union([t.string, t.null]), null),
+	// the command and the settings to re-run the case with, null for the cases created before
+	command: withFallback(t.union([caseCommandCodec, t.null]), null),
+	executionSettings: withFallback(
+		t.union([executionSettingsCodec, t.null]),
+		null,
+	),
+	targetUriIsDirectory: withFallback(t.union([t.boolean, t.null]), null),
+	// the paths of the case and of its jobs point into the worktree, if any
+	worktree: withFallback(t.union([worktreeCodec, t.null]), null),
 });
 
 export type Case = t.TypeOf<typeof caseCodec>;
@@ -36,13 +36,8 @@ export const codemodEntryCodec = t.union([
 		kind: t.literal('codemod'),
 		hashDigest: t.string,
 		name: t.string,
-		engine: t.union([
-			t.literal('jscodeshift'),
-			t.literal('ts-morph'),
-			t.literal('repomod-engine'),
-			t.literal('filemod'),
-			t.literal('recipe'),
-		]),
+		// the name of the engine adapter, not only the built-in ones
+		engine: t.string,
 		arguments: argumentsCodec,
 	}),
 	buildTypeCodec({
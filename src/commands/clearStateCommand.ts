@@ -3,16 +3,25 @@ import { actions } from '../data/slice';
 import { doesJobAddNewFile } from '../selectors/comparePersistedJobs';
 import { Store } from '../data';
 import { FileService } from '../components/fileService';
+import { AppliedCaseManager } from '../appliedCases/appliedCaseManager';
+import { WorktreeManager } from '../git/worktreeManager';
 import { homedir } from 'node:os';
 import { join } from 'node:path';
 
 type Dependencies = Readonly<{
 	store: Store;
 	fileService: FileService;
+	appliedCaseManager: AppliedCaseManager;
+	worktreeManager: WorktreeManager;
 }>;
 
 export const createClearStateCommand =
-	({ fileService, store }: Dependencies) =>
+	({
+		fileService,
+		store,
+		appliedCaseManager,
+		worktreeManager,
+	}: Dependencies) =>
 	async () => {
 		const state = store.getState();
 
@@ -22,6 +31,11 @@ export const createClearStateCommand =
 			const uris: Uri[] = [];
 
 			for (const job of Object.values(state.job.entities)) {
+				// the codemod inputs kept for merging
+				if (job?.oldContentUri) {
+					uris.push(Uri.parse(job.oldContentUri));
+				}
+
 				if (
 					!job ||
 					!doesJobAddNewFile(job.kind) ||
@@ -55,5 +69,9 @@ export const createClearStateCommand =
 			console.error(error);
 		}
 
+		await appliedCaseManager.deleteAllSnapshots();
+
+		await worktreeManager.removeAllWorktrees();
+
 		store.dispatch(actions.onStateCleared());
 	};
@@ -0,0 +1,203 @@
+import { join } from 'node:path';
+import { Uri, window } from 'vscode';
+import { CodemodEntry } from '../codemods/types';
+import { buildExecutionSettings } from '../cases/caseCommands';
+import { MessageBus, MessageKind } from '../components/messageBus';
+import { Configuration } from '../configuration';
+import { Container } from '../container';
+import { Store } from '../data';
+import {
+	GitScope,
+	listGitScopeFiles,
+	validateGitRevision,
+} from '../git/gitCommands';
+import { CodemodHash } from '../packageJsonAnalyzer/types';
+import {
+	CodemodNodeHashDigest,
+	selectCodemodArguments,
+} from '../selectors/selectCodemodTree';
+import { listTargetUris } from '../targetFiles';
+import { buildCaseHash } from '../telemetry/hashes';
+import { VscodeTelemetry } from '../telemetry/vscodeTelemetry';
+import { isNeitherNullNorUndefined } from '../utilities';
+import { pickWorkspaceFolderUri } from '../workspaceFolders';
+
+type Dependencies = Readonly<{
+	store: Store;
+	messageBus: MessageBus;
+	storageUri: Uri | undefined;
+	configurationContainer: Container<Configuration>;
+	vscodeTelemetry: VscodeTelemetry;
+}>;
+
+const pickGitScope = async (): Promise<GitScope | null> => {
+	const item = await window.showQuickPick(
+		[
+			{
+				label: 'Files changed in the working tree',
+				description: 'the uncommitted and the untracked files',
+				scopeKind: 'workingTree' as const,
+			},
+			{
+				label: 'Files changed on this branch',
+				description: 'versus the branch it forked from',
+				scopeKind: 'branch' as const,
+			},
+			{
+				label: 'Files touched by a commit range',
+				description: 'e.g. A..B',
+				scopeKind: 'commitRange' as const,
+			},
+		],
+		{ placeHolder: 'Select the files to run the codemod on' },
+	);
+
+	if (item === undefined) {
+		return null;
+	}
+
+	if (item.scopeKind === 'workingTree') {
+		return { kind: 'workingTree' };
+	}
+
+	const value = await window.showInputBox(
+		item.scopeKind === 'branch'
+			? {
+					title: 'Compare the branch against the base ref',
+					value: 'main',
+					placeHolder: 'a branch, a tag or a commit',
+					validateInput: validateGitRevision,
+			  }
+			: {
+					title: 'Select the commit range',
+					placeHolder: 'A..B',
+					validateInput: validateGitRevision,
+			  },
+	);
+
+	if (value === undefined || value.trim() === '') {
+		return null;
+	}
+
+	return item.scopeKind === 'branch'
+		? { kind: 'branch', baseRef: value.trim() }
+		: { kind: 'commitRange', range: value.trim() };
+};
+
+/**
+ * Executes a codemod on the files of the workspace folder selected with git:
+ * the changes in the working tree, on the branch or in a commit range.
+ * The files are passed to the engine as explicit includes.
+ */
+export const createExecuteCodemodOnGitScopeCommand =
+	({
+		store,
+		messageBus,
+		storageUri,
+		configurationContainer,
+		vscodeTelemetry,
+	}: Dependencies) =>
+	async () => {
+		try {
+			if (!storageUri) {
+				throw new Error('No storage URI, aborting the command.');
+			}
+
+			const rootUri = await pickWorkspaceFolderUri();
+
+			if (rootUri === null) {
+				return;
+			}
+
+			// the piranha rules take a single target, so they cannot be limited to the files
+			const codemods = Object.values(store.getState().codemod.entities)
+				.filter(isNeitherNullNorUndefined)
+				.filter(
+					(
+						codemod,
+					): codemod is CodemodEntry & {
+						kind: 'codemod';
+					} => codemod.kind === 'codemod',
+				)
+				.sort((a, b) => a.name.localeCompare(b.name));
+
+			const codemodItem = await window.showQuickPick(
+				codemods.map((codemod) => ({
+					label: codemod.name,
+					description: codemod.engine,
+					codemod,
+				})),
+				{ placeHolder: 'Select the codemod to run' },
+			);
+
+			if (codemodItem === undefined) {
+				return;
+			}
+
+			const scope = await pickGitScope();
+
+			if (scope === null) {
+				return;
+			}
+
+			const configuration = configurationContainer.get();
+
+			const [scopePaths, targetUris] = await Promise.all([
+				listGitScopeFiles(rootUri.fsPath, scope),
+				listTargetUris(rootUri, true, configuration),
+			]);
+
+			const scopeFsPaths = new Set(
+				scopePaths.map(
+					(path) => Uri.file(join(rootUri.fsPath, path)).fsPath,
+				),
+			);
+
+			// the removed files and the ones the include and exclude patterns skip are left out
+			const includedUris = targetUris.filter(({ fsPath }) =>
+				scopeFsPaths.has(fsPath),
+			);
+
+			if (includedUris.length === 0) {
+				window.showInformationMessage(
+					'No file matching the include and exclude patterns was found in the selected git changes.',
+				);
+				return;
+			}
+
+			const { codemod } = codemodItem;
+			const codemodHash = codemod.hashDigest as CodemodHash;
+
+			messageBus.publish({
+				kind: MessageKind.executeCodemodSet,
+				command: {
+					kind: 'executeCodemod',
+					codemodHash,
+					name: codemod.name,
+					engine: codemod.engine,
+					arguments: selectCodemodArguments(
+						store.getState(),
+						codemod.hashDigest as CodemodNodeHashDigest,
+					),
+				},
+				happenedAt: String(Date.now()),
+				caseHashDigest: buildCaseHash(),
+				storageUri,
+				targetUri: rootUri,
+				targetUriIsDirectory: true,
+				executionSettings: buildExecutionSettings(configuration),
+				includedUris,
+			});
+		} catch (error) {
+			console.error(error);
+
+			window.showErrorMessage(
+				error instanceof Error ? error.message : String(error),
+			);
+
+			vscodeTelemetry.sendError({
+				kind: 'failedToExecuteCommand',
+				commandName: 'intuita.executeCodemodOnGitScope',
+			});
+		}
+	};
@@ -0,0 +1,201 @@
+import {
+	ConfigurationTarget,
+	FileSystem,
+	Uri,
+	window,
+	workspace,
+} from 'vscode';
+import { Configuration, setConfigurationProperty } from '../configuration';
+import { Container } from '../container';
+import { DownloadService } from '../components/downloadService';
+import { EngineService } from '../components/engineService';
+import {
+	buildEngineBinaries,
+	buildEngineVersion,
+	EngineBinary,
+	listInstalledEngineVersions,
+} from '../engines/engineVersions';
+import { VscodeTelemetry } from '../telemetry/vscodeTelemetry';
+
+type Dependencies = Readonly<{
+	fileSystem: FileSystem;
+	globalStorageUri: Uri;
+	configurationContainer: Container<Configuration>;
+	downloadService: DownloadService;
+	engineService: EngineService;
+	vscodeTelemetry: VscodeTelemetry;
+}>;
+
+type VersionItem = Readonly<{
+	label: string;
+	description?: string;
+	// null unpins the version
+	version: string | null;
+}>;
+
+const fetchLatestVersion = async (
+	{ configurationContainer, downloadService }: Dependencies,
+	{ url }: EngineBinary,
+): Promise<string | null> => {
+	if (configurationContainer.get().offlineMode) {
+		return null;
+	}
+
+	try {
+		return buildEngineVersion(
+			await downloadService.getRemoteModificationTime(url),
+		);
+	} catch (error) {
+		console.error(error);
+
+		return null;
+	}
+};
+
+const buildVersionItems = (
+	installedVersions: ReadonlyArray<string>,
+	latestVersion: string | null,
+	pinnedVersion: string | null,
+	usedVersion: string | null,
+): ReadonlyArray<VersionItem> => {
+	const versions = Array.from(
+		new Set(
+			latestVersion !== null
+				? [latestVersion, ...installedVersions]
+				: installedVersions,
+		),
+	)
+		.sort()
+		.reverse();
+
+	// the newest installed version older than the one in use
+	const previousVersion =
+		usedVersion !== null
+			? installedVersions.find((version) => version < usedVersion) ?? null
+			: null;
+
+	const versionItems = versions.map((version) => ({
+		label: version,
+		description: [
+			version === usedVersion ? 'in use' : null,
+			version === pinnedVersion ? 'pinned' : null,
+			installedVersions.includes(version) ? 'installed' : 'available',
+			version === latestVersion ? 'latest' : null,
+		]
+			.filter((part) => part !== null)
+			.join(', '),
+		version,
+	}));
+
+	return [
+		...(previousVersion !== null
+			? [
+					{
+						label: `$(history) Roll back to ${previousVersion}`,
+						version: previousVersion,
+					},
+			  ]
+			: []),
+		...(pinnedVersion !== null
+			? [
+					{
+						label: '$(pinned) Unpin the version',
+						description: 'use the latest version',
+						version: null,
+					},
+			  ]
+			: []),
+		...versionItems,
+	];
+};
+
+/**
+ * Shows the installed and the available versions of an engine binary
+ * and pins the picked one in the workspace settings.
+ * The engines are bootstrapped again once the setting changes.
+ */
+export const createManageEngineVersionsCommand =
+	(dependencies: Dependencies) => async () => {
+		const {
+			fileSystem,
+			globalStorageUri,
+			configurationContainer,
+			engineService,
+			vscodeTelemetry,
+		} = dependencies;
+
+		try {
+			const engineBinaryItem = await window.showQuickPick(
+				buildEngineBinaries().map((engineBinary) => ({
+					label: engineBinary.label,
+					description:
+						engineService.getBootstrappedEngine(engineBinary.kind)
+							?.version ?? undefined,
+					engineBinary,
+				})),
+				{ placeHolder: 'Select the engine' },
+			);
+
+			if (engineBinaryItem === undefined) {
+				return;
+			}
+
+			const { engineBinary } = engineBinaryItem;
+			const configuration = configurationContainer.get();
+
+			if (configuration[engineBinary.pathSettingName] !== null) {
+				window.showInformationMessage(
+					`${engineBinary.label} is provided locally with the intuita.${engineBinary.pathSettingName} setting.`,
+				);
+				return;
+			}
+
+			const installedVersions = await listInstalledEngineVersions(
+				fileSystem,
+				globalStorageUri,
+				engineBinary,
+			);
+
+			const versionItems = buildVersionItems(
+				installedVersions,
+				await fetchLatestVersion(dependencies, engineBinary),
+				configuration[engineBinary.versionSettingName],
+				engineService.getBootstrappedEngine(engineBinary.kind)
+					?.version ?? null,
+			);
+
+			if (versionItems.length === 0) {
+				window.showInformationMessage(
+					`No version of ${engineBinary.label} is installed or available.`,
+				);
+				return;
+			}
+
+			const versionItem = await window.showQuickPick(versionItems, {
+				placeHolder: `Select the version of ${engineBinary.label} to pin in the workspace`,
+			});
+
+			if (versionItem === undefined) {
+				return;
+			}
+
+			await setConfigurationProperty(
+				engineBinary.versionSettingName,
+				versionItem.version,
+				workspace.workspaceFolders !== undefined
+					? ConfigurationTarget.Workspace
+					: ConfigurationTarget.Global,
+			);
+		} catch (error) {
+			console.error(error);
+
+			window.showErrorMessage(
+				error instanceof Error ? error.message : String(error),
+			);
+
+			vscodeTelemetry.sendError({
+				kind: 'failedToExecuteCommand',
+				commandName: 'intuita.manageEngineVersions',
+			});
+		}
+	};
@@ -0,0 +1,239 @@
+import { FileType, Uri, window, workspace } from 'vscode';
+import { toCommand } from '../cases/caseCommands';
+import { listChangedTargetUris } from '../cases/incrementalExecution';
+import { CaseHash, caseHashCodec } from '../cases/types';
+import { MessageBus, MessageKind } from '../components/messageBus';
+import { validateGitRevision } from '../git/gitCommands';
+import { mapPathFromWorktree } from '../git/worktrees';
+import { Store } from '../data';
+import { JobHash } from '../jobs/types';
+import { buildCaseHash } from '../telemetry/hashes';
+import { VscodeTelemetry } from '../telemetry/vscodeTelemetry';
+import { isNeitherNullNorUndefined } from '../utilities';
+
+type Dependencies = Readonly<{
+	store: Store;
+	messageBus: MessageBus;
+	storageUri: Uri | undefined;
+	vscodeTelemetry: VscodeTelemetry;
+}>;
+
+// the files the codemod changed, deleted, moved or copied in the case
+const getAffectedUris = (
+	store: Store,
+	caseHash: CaseHash,
+): ReadonlyArray<Uri> => {
+	const oldUris = Object.values(store.getState().job.entities)
+		.filter(isNeitherNullNorUndefined)
+		.filter(({ caseHashDigest }) => caseHashDigest === caseHash)
+		.map(({ oldUri }) => oldUri)
+		.filter(isNeitherNullNorUndefined);
+
+	return Array.from(new Set(oldUris)).map((oldUri) => Uri.parse(oldUri));
+};
+
+// the jobs of the case built out of any of the files
+const getJobHashes = (
+	store: Store,
+	caseHash: CaseHash,
+	uris: ReadonlyArray<Uri>,
+): ReadonlySet<JobHash> => {
+	const uriStrings = new Set(uris.map((uri) => uri.toString()));
+
+	return new Set(
+		Object.values(store.getState().job.entities)
+			.filter(isNeitherNullNorUndefined)
+			.filter(
+				({ caseHashDigest, oldUri, newUri }) =>
+					caseHashDigest === caseHash &&
+					((oldUri !== null && uriStrings.has(oldUri)) ||
+						(newUri !== null && uriStrings.has(newUri))),
+			)
+			.map(({ hash }) => hash),
+	);
+};
+
+const isDirectory = async (uri: Uri): Promise<boolean> => {
+	const fileStat = await workspace.fs.stat(uri);
+
+	return Boolean(fileStat.type & FileType.Directory);
+};
+
+type RerunMode = 'full' | 'affectedFiles' | 'incremental' | 'incrementalGitRef';
+
+/**
+ * Executes the codemod of the case again with the same arguments, settings and target,
+ * optionally limited to the files affected by the case.
+ * The incremental re-runs process only the changed files and merge the new jobs into the case.
+ */
+export const createRerunCaseCommand =
+	({ store, messageBus, storageUri, vscodeTelemetry }: Dependencies) =>
+	async (arg0: unknown) => {
+		try {
+			if (!storageUri) {
+				throw new Error('No storage URI, aborting the command.');
+			}
+
+			if (!caseHashCodec.is(arg0)) {
+				throw new Error('Did not pass the caseHash into the command.');
+			}
+
+			const state = store.getState();
+
+			const kase =
+				state.case.entities[arg0] ??
+				state.appliedCases[arg0]?.kase ??
+				null;
+
+			if (kase === null) {
+				throw new Error('No case was found with the provided hash.');
+			}
+
+			if (kase.command === null) {
+				throw new Error(
+					`The "${kase.codemodName}" case was created before the commands were recorded and cannot be re-run.`,
+				);
+			}
+
+			// the files of the worktree cases do not exist in the working copy
+			const affectedUris =
+				kase.worktree === null ? getAffectedUris(store, kase.hash) : [];
+
+			// the jobs can be merged only into the finished cases that have not been applied yet
+			const canMergeJobs =
+				(state.case.entities[kase.hash] ?? null) !== null &&
+				!state.caseHashesInProgress.includes(kase.hash) &&
+				kase.executionSettings !== null &&
+				kase.worktree === null;
+
+			const item = await window.showQuickPick(
+				[
+					{
+						label: 'Re-run on the same target',
+						description: kase.path,
+						mode: 'full' as RerunMode,
+					},
+					...(affectedUris.length !== 0
+						? [
+								{
+									label: 'Re-run on the affected files only',
+									description: `${affectedUris.length} file(s)`,
+									mode: 'affectedFiles' as RerunMode,
+								},
+						  ]
+						: []),
+					...(canMergeJobs
+						? [
+								{
+									label: 'Re-run incrementally',
+									description:
+										'the files changed since the case, merged into it',
+									mode: 'incremental' as RerunMode,
+								},
+								{
+									label: 'Re-run incrementally against a git ref',
+									description:
+										'the files changed versus the ref, merged into the case',
+									mode: 'incrementalGitRef' as RerunMode,
+								},
+						  ]
+						: []),
+				],
+				{ placeHolder: `Re-run "${kase.codemodName}"` },
+			);
+
+			if (item === undefined) {
+				return;
+			}
+
+			// the worktree cases run again on the target in the working copy
+			const targetUri = Uri.file(
+				kase.worktree !== null
+					? mapPathFromWorktree(kase.path, kase.worktree)
+					: kase.path,
+			);
+			const targetUriIsDirectory =
+				kase.targetUriIsDirectory ?? (await isDirectory(targetUri));
+
+			const message = {
+				kind: MessageKind.executeCodemodSet,
+				command: toCommand(kase.command),
+				happenedAt: String(Date.now()),
+				caseHashDigest: buildCaseHash(),
+				storageUri,
+				targetUri,
+				targetUriIsDirectory,
+				executionSettings: kase.executionSettings,
+			} as const;
+
+			if (item.mode === 'full' || item.mode === 'affectedFiles') {
+				messageBus.publish({
+					...message,
+					includedUris:
+						item.mode === 'affectedFiles' ? affectedUris : null,
+				});
+				return;
+			}
+
+			if (kase.executionSettings === null) {
+				return;
+			}
+
+			let ref: string | null = null;
+
+			if (item.mode === 'incrementalGitRef') {
+				ref =
+					(await window.showInputBox({
+						title: 'Compare the target against the git ref',
+						value: 'HEAD',
+						placeHolder: 'a branch, a tag or a commit',
+						validateInput: validateGitRevision,
+					})) ?? null;
+
+				if (ref === null || ref.trim() === '') {
+					return;
+				}
+			}
+
+			const changedUris = await listChangedTargetUris(
+				kase,
+				targetUriIsDirectory,
+				kase.executionSettings,
+				ref !== null
+					? { kind: 'gitRef', ref: ref.trim() }
+					: { kind: 'case' },
+			);
+
+			if (changedUris.length === 0) {
+				window.showInformationMessage(
+					ref !== null
+						? `No file of the target differs from ${ref.trim()}.`
+						: 'No file of the target changed since the case was created.',
+				);
+				return;
+			}
+
+			messageBus.publish({
+				...message,
+				// the engine builds the jobs of the case anew, so they merge into it
+				caseHashDigest: kase.hash,
+				includedUris: changedUris,
+				// the jobs built out of the previous contents of the changed files are replaced once the re-run finishes,
+				// so the case and its metadata outlive the re-run
+				supersededJobHashes: Array.from(
+					getJobHashes(store, kase.hash, changedUris),
+				),
+			});
+		} catch (error) {
+			console.error(error);
+
+			window.showErrorMessage(
+				error instanceof Error ? error.message : String(error),
+			);
+
+			vscodeTelemetry.sendError({
+				kind: 'failedToExecuteCommand',
+				commandName: 'intuita.rerunCase',
+			});
+		}
+	};
@@ -1,7 +1,26 @@
-import { FileSystem, Uri } from 'vscode';
-import { DownloadService, ForbiddenRequestError } from './downloadService';
+import { FileSystem, Uri, window } from 'vscode';
+import { Configuration } from '../configuration';
+import { Container } from '../container';
+import {
+	buildEngineBinaries,
+	buildEngineVersion,
+	EngineBinary,
+	getLegacyExecutableUri,
+	getVersionDownloadUri,
+	getVersionedExecutableUri,
+	listInstalledEngineVersions,
+} from '../engines/engineVersions';
+import { BootstrappedEngine } from '../engines/types';
+import {
+	DownloadService,
+	ForbiddenRequestError,
+	RequestError,
+} from './downloadService';
+import { DownloadVerificationError } from './downloadVerifier';
 import { MessageBus, MessageKind } from './messageBus';
 
+export class ExecutableNotFoundError extends Error {}
+
 // aka bootstrap engines
 export class BootstrapExecutablesService {
 	constructor(
@@ -9,6 +28,7 @@ export class BootstrapExecutablesService {
 		private readonly __globalStorageUri: Uri,
 		private readonly __fileSystem: FileSystem,
 		private readonly __messageBus: MessageBus,
+		private readonly __configurationContainer: Container<Configuration>,
 	) {
 		__messageBus.subscribe(MessageKind.bootstrapEngine, () =>
 			this.__onBootstrapEngines(),
@@ -16,84 +36,218 @@ export class BootstrapExecutablesService {
 	}
 
 	private async __onBootstrapEngines() {
-		await this.__fileSystem.createDirectory(this.__globalStorageUri);
+		try {
+			await this.__fileSystem.createDirectory(this.__globalStorageUri);
+
+			const [codemodEngineNodeBinary, codemodEngineRustBinary] =
+				buildEngineBinaries();
+
+			if (
+				codemodEngineNodeBinary === undefined ||
+				codemodEngineRustBinary === undefined
+			) {
+				throw new Error('The engine binaries are not defined.');
+			}
+
+			// Uri.file('/intuita/nora-node-engine/package/intuita-linux')
+			const codemodEngineNode = await this.__bootstrapEngine(
+				codemodEngineNodeBinary,
+			);
 
-		// Uri.file('/intuita/nora-node-engine/package/intuita-linux')
-		const codemodEngineNodeExecutableUri =
-			await this.__bootstrapCodemodEngineNodeExecutableUri();
+			// Uri.file('/intuita/codemod-engine-rust/target/release/codemod-engine-rust');
+			const codemodEngineRust = await this.__bootstrapEngine(
+				codemodEngineRustBinary,
+			);
 
-		// Uri.file('/intuita/codemod-engine-rust/target/release/codemod-engine-rust');
-		const codemodEngineRustExecutableUri =
-			await this.__bootstrapCodemodEngineRustExecutableUri();
+			this.__messageBus.publish({
+				kind: MessageKind.engineBootstrapped,
+				codemodEngineNodeExecutableUri: codemodEngineNode.executableUri,
+				codemodEngineNodeVersion: codemodEngineNode.version,
+				codemodEngineRustExecutableUri: codemodEngineRust.executableUri,
+				codemodEngineRustVersion: codemodEngineRust.version,
+			});
+		} catch (error) {
+			console.error(error);
 
-		this.__messageBus.publish({
-			kind: MessageKind.engineBootstrapped,
-			codemodEngineNodeExecutableUri,
-			codemodEngineRustExecutableUri,
-		});
+			window.showErrorMessage(
+				error instanceof Error ? error.message : String(error),
+			);
+		}
 	}
 
-	private async __bootstrapCodemodEngineNodeExecutableUri(): Promise<Uri> {
-		const platform =
-			process.platform === 'darwin'
-				? 'macos'
-				: encodeURIComponent(process.platform);
+	/**
+	 * Resolves the locally provided executable, the pinned version or the latest version,
+	 * downloading the last one if needed.
+	 */
+	private async __bootstrapEngine(
+		engineBinary: EngineBinary,
+	): Promise<BootstrappedEngine> {
+		const configuration = this.__configurationContainer.get();
+
+		const executablePath = configuration[engineBinary.pathSettingName];
+
+		if (executablePath !== null) {
+			return {
+				executableUri: await this.__getLocalExecutableUri(
+					executablePath,
+				),
+				version: null,
+			};
+		}
+
+		const pinnedVersion = configuration[engineBinary.versionSettingName];
+
+		// the offline mode uses the executables downloaded before without checking for updates
+		if (configuration.offlineMode) {
+			return pinnedVersion !== null
+				? this.__getInstalledEngine(engineBinary, pinnedVersion)
+				: this.__getLatestInstalledEngine(
+						engineBinary,
+						`The offline mode is on and no engine has been downloaded yet. Set intuita.${engineBinary.pathSettingName} to the path of a local engine executable.`,
+				  );
+		}
 
-		const executableBaseName = `intuita-${platform}`;
+		let latestVersion: string;
 
-		const executableUri = Uri.joinPath(
+		try {
+			latestVersion = buildEngineVersion(
+				await this.__downloadService.getRemoteModificationTime(
+					engineBinary.url,
+				),
+			);
+		} catch (error) {
+			if (error instanceof ForbiddenRequestError) {
+				throw new Error(
+					`Your platform (${process.platform}) is not supported.`,
+				);
+			}
+
+			if (!(error instanceof RequestError)) {
+				throw error;
+			}
+
+			return pinnedVersion !== null
+				? this.__getInstalledEngine(engineBinary, pinnedVersion)
+				: this.__getLatestInstalledEngine(engineBinary, error.message);
+		}
+
+		// only the latest version can be downloaded
+		if (pinnedVersion !== null && pinnedVersion !== latestVersion) {
+			return this.__getInstalledEngine(engineBinary, pinnedVersion);
+		}
+
+		const executableUri = getVersionedExecutableUri(
 			this.__globalStorageUri,
-			executableBaseName,
+			engineBinary,
+			latestVersion,
 		);
 
+		if (await this.__exists(executableUri)) {
+			return { executableUri, version: latestVersion };
+		}
+
 		try {
-			await this.__downloadService.downloadFileIfNeeded(
-				`https://intuita-public.s3.us-west-1.amazonaws.com/intuita/${executableBaseName}`,
+			await this.__downloadService.downloadFile(
+				engineBinary.url,
 				executableUri,
+				getVersionDownloadUri(
+					this.__globalStorageUri,
+					engineBinary,
+					latestVersion,
+				),
 				'755',
 			);
 		} catch (error) {
-			if (!(error instanceof ForbiddenRequestError)) {
+			if (
+				!(error instanceof DownloadVerificationError) &&
+				!(error instanceof RequestError)
+			) {
 				throw error;
 			}
 
-			throw new Error(
-				`Your platform (${process.platform}) is not supported.`,
+			// the failed downloads are never written, so the installed versions stay intact
+			const engine = await this.__getLatestInstalledEngine(
+				engineBinary,
+				error instanceof DownloadVerificationError
+					? `${error.message} The engine cannot be used until a verified version is downloaded.`
+					: error.message,
+			);
+
+			window.showWarningMessage(
+				`${error.message} The previously downloaded engine is used instead.`,
 			);
+
+			return engine;
 		}
 
-		return executableUri;
+		return { executableUri, version: latestVersion };
 	}
 
-	private async __bootstrapCodemodEngineRustExecutableUri(): Promise<Uri> {
-		const platform =
-			process.platform === 'darwin'
-				? 'macos'
-				: encodeURIComponent(process.platform);
+	private async __getInstalledEngine(
+		engineBinary: EngineBinary,
+		version: string,
+	): Promise<BootstrappedEngine> {
+		const executableUri = getVersionedExecutableUri(
+			this.__globalStorageUri,
+			engineBinary,
+			version,
+		);
+
+		if (!(await this.__exists(executableUri))) {
+			throw new ExecutableNotFoundError(
+				`The pinned version ${version} of ${engineBinary.label} is not installed. Pick another version with the "Intuita: Manage Engine Versions" command.`,
+			);
+		}
 
-		const executableBaseName = `codemod-engine-rust-${platform}`;
+		return { executableUri, version };
+	}
 
-		const executableUri = Uri.joinPath(
+	// throws the error with the message if no version has been downloaded yet
+	private async __getLatestInstalledEngine(
+		engineBinary: EngineBinary,
+		message: string,
+	): Promise<BootstrappedEngine> {
+		const [version] = await listInstalledEngineVersions(
+			this.__fileSystem,
 			this.__globalStorageUri,
-			executableBaseName,
+			engineBinary,
 		);
 
-		try {
-			await this.__downloadService.downloadFileIfNeeded(
-				`https://intuita-public.s3.us-west-1.amazonaws.com/codemod-engine-rust/${executableBaseName}`,
-				executableUri,
-				'755',
-			);
-		} catch (error) {
-			if (!(error instanceof ForbiddenRequestError)) {
-				throw error;
-			}
+		if (version !== undefined) {
+			return this.__getInstalledEngine(engineBinary, version);
+		}
+
+		const legacyExecutableUri = getLegacyExecutableUri(
+			this.__globalStorageUri,
+			engineBinary,
+		);
+
+		if (await this.__exists(legacyExecutableUri)) {
+			return { executableUri: legacyExecutableUri, version: null };
+		}
+
+		throw new ExecutableNotFoundError(message);
+	}
 
-			throw new Error(
-				`Your platform (${process.platform}) is not supported.`,
+	private async __getLocalExecutableUri(path: string): Promise<Uri> {
+		const executableUri = Uri.file(path);
+
+		if (!(await this.__exists(executableUri))) {
+			throw new ExecutableNotFoundError(
+				`The engine executable ${path} does not exist.`,
 			);
 		}
 
 		return executableUri;
 	}
+
+	private async __exists(uri: Uri): Promise<boolean> {
+		try {
+			await this.__fileSystem.stat(uri);
+
+			return true;
+		} catch (error) {
+			return false;
+		}
+	}
 }
@@ -1,17 +1,15 @@
 import { Uri } from 'vscode';
-import type { Configuration } from '../configuration';
-import type { Message, MessageKind } from './messageBus';
+import type { EngineExecution } from '../engines/types';
 import { singleQuotify } from '../utilities';
 
-export const buildArguments = (
-	configuration: Configuration,
-	message: Omit<
-		Message & { kind: MessageKind.executeCodemodSet },
-		'storageUri'
-	>,
-	storageUri: Uri,
-) => {
-	const { command } = message;
+export const buildArguments = ({
+	command,
+	targetUri,
+	targetUriIsDirectory,
+	includedUris,
+	outputUri,
+	configuration,
+}: EngineExecution) => {
 	const args: string[] = [];
 
 	const codemodArguments =
@@ -23,9 +21,9 @@ export const buildArguments = (
 			: [];
 
 	if (command.kind === 'executePiranhaRule') {
-		args.push('-i', singleQuotify(message.targetUri.fsPath));
+		args.push('-i', singleQuotify(targetUri.fsPath));
 		args.push('-c', singleQuotify(command.configurationUri.fsPath));
-		args.push('-o', singleQuotify(storageUri.fsPath));
+		args.push('-o', singleQuotify(outputUri.fsPath));
 		args.push('-l', command.language);
 		args.push(...codemodArguments);
 		return args;
@@ -38,27 +36,36 @@ export const buildArguments = (
 		args.push('--codemodEngine', 'jscodeshift');
 	}
 
-	args.push('--targetPath', singleQuotify(message.targetUri.fsPath));
+	args.push('--targetPath', singleQuotify(targetUri.fsPath));
 
-	if (message.targetUriIsDirectory) {
+	if (includedUris !== null) {
+		includedUris.forEach(({ fsPath }) => {
+			args.push('--include', singleQuotify(fsPath));
+		});
+	} else if (targetUriIsDirectory) {
 		configuration.includePatterns.forEach((includePattern) => {
-			const { fsPath } = Uri.joinPath(message.targetUri, includePattern);
+			const { fsPath } = Uri.joinPath(targetUri, includePattern);
 
 			args.push('--include', singleQuotify(fsPath));
 		});
 
 		configuration.excludePatterns.forEach((excludePattern) => {
-			const { fsPath } = Uri.joinPath(message.targetUri, excludePattern);
+			const { fsPath } = Uri.joinPath(targetUri, excludePattern);
 
 			args.push('--exclude', singleQuotify(fsPath));
 		});
 	} else {
-		args.push('--include', singleQuotify(message.targetUri.fsPath));
+		args.push('--include', singleQuotify(targetUri.fsPath));
 	}
 
 	args.push('--threadCount', String(configuration.workerThreadCount));
 	args.push('--fileLimit', String(configuration.fileLimit));
 
+	// the engine skips the files taking longer and reports them as execution errors
+	if (configuration.fileTimeout > 0) {
+		args.push('--fileTimeout', String(configuration.fileTimeout));
+	}
+
 	if (configuration.formatWithPrettier) {
 		args.push('--usePrettier');
 	}
@@ -67,7 +74,7 @@ export const buildArguments = (
 	args.push('--useCache');
 
 	args.push('--dryRun');
-	args.push('--outputDirectoryPath', singleQuotify(storageUri.fsPath));
+	args.push('--outputDirectoryPath', singleQuotify(outputUri.fsPath));
 	args.push(...codemodArguments);
 	return args;
 };
@@ -1,40 +1,96 @@
-import axios from 'axios';
-import { Mode } from 'node:fs';
-import { FileSystem, Uri } from 'vscode';
+import axios, { AxiosRequestConfig } from 'axios';
+import { createWriteStream, Mode } from 'node:fs';
+import { mkdir, readFile, rename, rm, stat, writeFile } from 'node:fs/promises';
+import { basename, dirname } from 'node:path';
+import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import { Progress, ProgressLocation, Uri, window } from 'vscode';
+import { Configuration } from '../configuration';
+import { Container } from '../container';
+import { computeFileDigest, DownloadVerifier } from './downloadVerifier';
 import { FileSystemUtilities } from './fileSystemUtilities';
+import { getRequestConfig } from './proxyAgent';
 
 export class RequestError extends Error {}
 export class ForbiddenRequestError extends Error {}
 
+const MAX_ATTEMPT_COUNT = 5;
+const INITIAL_RETRY_DELAY = 1000;
+// the connection counts as stalled if no data arrives within the time
+const STALL_TIMEOUT = 30000;
+
+// the statuses that the same request can succeed after
+const isTransientStatus = (status: number): boolean =>
+	status === 408 || status === 429 || status >= 500;
+
+const sleep = (milliseconds: number) =>
+	new Promise<void>((resolve) => setTimeout(resolve, milliseconds));
+
+const getFileSize = async (path: string): Promise<number> => {
+	try {
+		return (await stat(path)).size;
+	} catch (error) {
+		return 0;
+	}
+};
+
+// the validator of the remote file the partial content was received from
+const getValidatorPath = (temporaryPath: string): string =>
+	`${temporaryPath}.validator`;
+
+const readValidator = async (temporaryPath: string): Promise<string | null> => {
+	try {
+		return await readFile(getValidatorPath(temporaryPath), 'utf8');
+	} catch (error) {
+		return null;
+	}
+};
+
+// the weak entity tags cannot be used in the If-Range header
+const getResponseValidator = (
+	headers: Readonly<Record<string, unknown>>,
+): string | null => {
+	const etag = headers['etag'];
+	const lastModified = headers['last-modified'];
+
+	if (typeof etag === 'string' && !etag.startsWith('W/')) {
+		return etag;
+	}
+
+	return typeof lastModified === 'string' ? lastModified : null;
+};
+
 export class DownloadService {
-	#fileSystem: FileSystem;
 	#fileSystemUtilities: FileSystemUtilities;
+	#downloadVerifier: DownloadVerifier;
+	#configurationContainer: Container<Configuration>;
 
 	constructor(
-		fileSystem: FileSystem,
 		fileSystemUtilities: FileSystemUtilities,
+		downloadVerifier: DownloadVerifier,
+		configurationContainer: Container<Configuration>,
 	) {
-		this.#fileSystem = fileSystem;
 		this.#fileSystemUtilities = fileSystemUtilities;
+		this.#downloadVerifier = downloadVerifier;
+		this.#configurationContainer = configurationContainer;
 	}
 
-	async downloadFileIfNeeded(
-		url: string,
-		uri: Uri,
-		chmod: Mode | null,
-	): Promise<boolean> {
-		const localModificationTime =
-			await this.#fileSystemUtilities.getModificationTime(uri);
+	/**
+	 * Returns the last modification time of the file published at the URL.
+	 * Throws RequestError if the URL cannot be reached
+	 * and CertificateError if a certificate authority of the settings cannot be used.
+	 */
+	async getRemoteModificationTime(url: string): Promise<number> {
+		const requestConfig = this.#getRequestConfig();
 
 		let response;
 
 		try {
-			response = await axios.head(url, { timeout: 5000 });
+			response = await axios.head(url, {
+				...requestConfig,
+				timeout: 5000,
+			});
 		} catch (error) {
-			if (localModificationTime > 0) {
-				return false;
-			}
-
 			if (!axios.isAxiosError(error)) {
 				throw error;
 			}
@@ -53,29 +109,229 @@ export class DownloadService {
 		const lastModified = response?.headers['last-modified'] ?? null;
 		const remoteModificationTime = lastModified
 			? Date.parse(lastModified)
-			: localModificationTime;
+			: NaN;
 
-		if (localModificationTime < remoteModificationTime) {
-			await this.#downloadFile(url, uri, chmod);
-
-			return true;
+		if (Number.isNaN(remoteModificationTime)) {
+			throw new RequestError(
+				`Could not read the modification time of ${url}`,
+			);
 		}
 
-		return false;
+		return remoteModificationTime;
 	}
 
-	async #downloadFile(
+	/**
+	 * Streams the file into the temporary URI, showing the progress in a notification.
+	 * The interrupted transfers resume with range requests, as long as the remote file stays the same,
+	 * and retry with exponentially growing delays.
+	 * The file is moved to the URI, creating its directory, only once it passes the verification.
+	 */
+	async downloadFile(
 		url: string,
 		uri: Uri,
+		temporaryUri: Uri,
 		chmod: Mode | null,
 	): Promise<void> {
-		const response = await axios.get(url, { responseType: 'arraybuffer' });
-		const content = new Uint8Array(response.data);
+		const temporaryPath = temporaryUri.fsPath;
+		// the invalid settings fail the download before any request is made
+		const requestConfig = this.#getRequestConfig();
+
+		await mkdir(dirname(temporaryPath), { recursive: true });
 
-		await this.#fileSystem.writeFile(uri, content);
+		await window.withProgress(
+			{
+				location: ProgressLocation.Notification,
+				title: `Downloading ${basename(uri.fsPath)}`,
+			},
+			(progress) =>
+				this.#downloadWithRetries(
+					url,
+					temporaryPath,
+					requestConfig,
+					progress,
+				),
+		);
+
+		try {
+			await this.#downloadVerifier.verify(
+				url,
+				await computeFileDigest(temporaryPath),
+				requestConfig,
+			);
+		} catch (error) {
+			// the next attempt starts from scratch instead of resuming the rejected content
+			await rm(temporaryPath, { force: true });
+			await rm(getValidatorPath(temporaryPath), { force: true });
+
+			throw error;
+		}
+
+		await mkdir(dirname(uri.fsPath), { recursive: true });
+		await rename(temporaryPath, uri.fsPath);
+		await rm(getValidatorPath(temporaryPath), { force: true });
 
 		if (chmod !== null) {
 			await this.#fileSystemUtilities.setChmod(uri, chmod);
 		}
 	}
+
+	async #downloadWithRetries(
+		url: string,
+		temporaryPath: string,
+		requestConfig: AxiosRequestConfig,
+		progress: Progress<{ message?: string; increment?: number }>,
+	): Promise<void> {
+		// the notification takes the increments only, so the resumed attempts report the difference
+		let reportedPercentage = 0;
+
+		const reportProgress = (receivedSize: number, totalSize: number) => {
+			const percentage = Math.floor((receivedSize / totalSize) * 100);
+
+			if (percentage > reportedPercentage) {
+				progress.report({ increment: percentage - reportedPercentage });
+				reportedPercentage = percentage;
+			}
+		};
+
+		for (let attempt = 1; ; attempt += 1) {
+			try {
+				await this.#downloadRange(
+					url,
+					temporaryPath,
+					requestConfig,
+					reportProgress,
+				);
+
+				return;
+			} catch (error) {
+				const status = axios.isAxiosError(error)
+					? error.response?.status
+					: undefined;
+
+				if (status === 403) {
+					throw new ForbiddenRequestError(
+						`Could not make a request to ${url}: request forbidden`,
+					);
+				}
+
+				const transient =
+					status === undefined || isTransientStatus(status);
+
+				if (!transient || attempt === MAX_ATTEMPT_COUNT) {
+					console.error(error);
+
+					throw new RequestError(
+						`Could not download ${url} after ${attempt} attempt(s)`,
+					);
+				}
+
+				const delay = INITIAL_RETRY_DELAY * 2 ** (attempt - 1);
+
+				progress.report({
+					message: `The download was interrupted, retrying in ${
+						delay / 1000
+					}s (attempt ${attempt + 1} of ${MAX_ATTEMPT_COUNT})`,
+				});
+
+				await sleep(delay);
+			}
+		}
+	}
+
+	// continues the download from the size of the temporary file
+	async #downloadRange(
+		url: string,
+		temporaryPath: string,
+		requestConfig: AxiosRequestConfig,
+		reportProgress: (receivedSize: number, totalSize: number) => void,
+	): Promise<void> {
+		const offset = await getFileSize(temporaryPath);
+		// the partial content without the validator is discarded, as it cannot be told apart from another version
+		const validator =
+			offset !== 0 ? await readValidator(temporaryPath) : null;
+
+		const response = await axios.get<Readable>(url, {
+			...requestConfig,
+			responseType: 'stream',
+			timeout: STALL_TIMEOUT,
+			// the server sends the whole file instead of the range if it changed since
+			headers:
+				validator !== null
+					? { range: `bytes=${offset}-`, 'if-range': validator }
+					: {},
+			// the range past the end means the previous attempt received the whole file
+			validateStatus: (status) =>
+				status === 200 || status === 206 || status === 416,
+		});
+
+		if (response.status === 416) {
+			response.data.destroy();
+			return;
+		}
+
+		// the servers without range support send the whole file again
+		const resumed = response.status === 206;
+		let receivedSize = resumed ? offset : 0;
+
+		if (!resumed) {
+			const responseValidator = getResponseValidator(response.headers);
+
+			if (responseValidator !== null) {
+				await writeFile(
+					getValidatorPath(temporaryPath),
+					responseValidator,
+				);
+			} else {
+				await rm(getValidatorPath(temporaryPath), { force: true });
+			}
+		}
+		const contentLength = Number(response.headers['content-length']);
+		const totalSize = receivedSize + contentLength;
+
+		let timer: NodeJS.Timeout | null = null;
+
+		const resetStallTimer = () => {
+			if (timer !== null) {
+				clearTimeout(timer);
+			}
+
+			timer = setTimeout(() => {
+				response.data.destroy(
+					new Error(`The download of ${url} stalled`),
+				);
+			}, STALL_TIMEOUT);
+		};
+
+		resetStallTimer();
+
+		response.data.on('data', (chunk: Buffer) => {
+			resetStallTimer();
+
+			receivedSize += chunk.length;
+
+			// the servers can omit the length of the content
+			if (totalSize > 0) {
+				reportProgress(receivedSize, totalSize);
+			}
+		});
+
+		try {
+			await pipeline(
+				response.data,
+				createWriteStream(temporaryPath, {
+					flags: resumed ? 'a' : 'w',
+				}),
+			);
+		} finally {
+			if (timer !== null) {
+				clearTimeout(timer);
+			}
+		}
+	}
+
+	#getRequestConfig(): AxiosRequestConfig {
+		return getRequestConfig(
+			this.#configurationContainer.get().caCertificatePaths,
+		);
+	}
 }
@@ -0,0 +1,163 @@
+import axios, { AxiosRequestConfig } from 'axios';
+import { createHash, createPublicKey, KeyObject, verify } from 'node:crypto';
+import { createReadStream } from 'node:fs';
+import { pipeline } from 'node:stream/promises';
+import { FileSystem, FileSystemError, Uri } from 'vscode';
+import { parseDigestManifest } from './parseDigestManifest';
+
+export class DownloadVerificationError extends Error {}
+
+// published next to the downloadable files, with a detached signature at SHA256SUMS.sig
+// that is required whenever the signing key is bundled
+const DIGEST_MANIFEST_NAME = 'SHA256SUMS';
+
+const SIGNING_KEY_PATH = 'resources/engineSigningKey.pem';
+
+// streams the file so the large binaries are never held in memory
+export const computeFileDigest = async (path: string): Promise<string> => {
+	const hash = createHash('sha256');
+
+	await pipeline(createReadStream(path), hash);
+
+	return hash.digest('hex');
+};
+
+/**
+ * Reads the public key bundled with the extension, if any.
+ * Throws if the bundled key cannot be parsed, so a broken package never skips the signature checks.
+ */
+export const readSigningKey = async (
+	fileSystem: FileSystem,
+	extensionUri: Uri,
+): Promise<KeyObject | null> => {
+	let content: Uint8Array;
+
+	try {
+		content = await fileSystem.readFile(
+			Uri.joinPath(extensionUri, SIGNING_KEY_PATH),
+		);
+	} catch (error) {
+		if (error instanceof FileSystemError && error.code === 'FileNotFound') {
+			return null;
+		}
+
+		throw error;
+	}
+
+	return createPublicKey(Buffer.from(content));
+};
+
+export class DownloadVerifier {
+	readonly #signingKey: KeyObject | null;
+
+	constructor(signingKey: KeyObject | null) {
+		this.#signingKey = signingKey;
+	}
+
+	/**
+	 * Checks the SHA-256 digest of the content downloaded from the URL
+	 * against the digest manifest published in the same directory.
+	 * Throws DownloadVerificationError if the content cannot be verified.
+	 */
+	async verify(
+		url: string,
+		digest: string,
+		requestConfig: AxiosRequestConfig,
+	): Promise<void> {
+		const separatorIndex = url.lastIndexOf('/');
+		const manifestUrl = `${url.slice(
+			0,
+			separatorIndex,
+		)}/${DIGEST_MANIFEST_NAME}`;
+		const fileName = decodeURIComponent(url.slice(separatorIndex + 1));
+
+		const manifest = await this.#fetch(manifestUrl, requestConfig);
+
+		if (manifest === null) {
+			throw new DownloadVerificationError(
+				`The digest manifest ${manifestUrl} is not published.`,
+			);
+		}
+
+		await this.#verifySignature(manifestUrl, manifest, requestConfig);
+
+		const expectedDigest = parseDigestManifest(
+			manifest.toString('utf8'),
+		).get(fileName);
+
+		if (expectedDigest === undefined) {
+			throw new DownloadVerificationError(
+				`The digest manifest ${manifestUrl} does not list ${fileName}.`,
+			);
+		}
+
+		if (digest !== expectedDigest) {
+			throw new DownloadVerificationError(
+				`The SHA-256 digest of ${fileName} (${digest}) does not match the published one (${expectedDigest}).`,
+			);
+		}
+	}
+
+	async #verifySignature(
+		manifestUrl: string,
+		manifest: Buffer,
+		requestConfig: AxiosRequestConfig,
+	): Promise<void> {
+		const signatureUrl = `${manifestUrl}.sig`;
+
+		// the builds without the bundled key only check the digests
+		if (this.#signingKey === null) {
+			console.warn(
+				`Cannot check ${signatureUrl} without the bundled signing key.`,
+			);
+
+			return;
+		}
+
+		const signature = await this.#fetch(signatureUrl, requestConfig);
+
+		// otherwise the manifest could be replaced together with the files
+		if (signature === null) {
+			throw new DownloadVerificationError(
+				`The digest manifest ${manifestUrl} is not signed.`,
+			);
+		}
+
+		// the Ed25519 keys take no separate digest algorithm
+		const valid = verify(null, manifest, this.#signingKey, signature);
+
+		if (!valid) {
+			throw new DownloadVerificationError(
+				`The signature ${signatureUrl} does not match the digest manifest.`,
+			);
+		}
+	}
+
+	async #fetch(
+		url: string,
+		requestConfig: AxiosRequestConfig,
+	): Promise<Buffer | null> {
+		try {
+			const response = await axios.get<ArrayBuffer>(url, {
+				...requestConfig,
+				responseType: 'arraybuffer',
+				timeout: 5000,
+			});
+
+			return Buffer.from(response.data);
+		} catch (error) {
+			const status = axios.isAxiosError(error)
+				? error.response?.status
+				: undefined;
+
+			// the bucket responds with 403 to the requests for missing objects
+			if (status === 403 || status === 404) {
+				return null;
+			}
+
+			throw new DownloadVerificationError(
+				`Could not make a request to ${url}`,
+			);
+		}
+	}
+}
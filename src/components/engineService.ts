@@ -1,23 +1,23 @@
-import * as t from 'io-ts';
-import * as E from 'fp-ts/Either';
 import prettyReporter from 'io-ts-reporters';
 import { ChildProcessWithoutNullStreams, spawn } from 'node:child_process';
 import * as readline from 'node:readline';
-import { commands, FileSystem, Uri, window, workspace } from 'vscode';
-import { Case } from '../cases/types';
+import {
+	commands,
+	FileSystem,
+	OutputChannel,
+	Uri,
+	window,
+	workspace,
+} from 'vscode';
+import { Case, ExecutionSettings, Worktree } from '../cases/types';
 import { Configuration } from '../configuration';
 import { Container } from '../container';
 import { buildJobHash } from '../jobs/buildJobHash';
-import { Job, JobKind } from '../jobs/types';
-import {
-	buildTypeCodec,
-	isNeitherNullNorUndefined,
-	singleQuotify,
-	streamToString,
-} from '../utilities';
+import { Job, JobHash, JobKind } from '../jobs/types';
+import { buildHash, singleQuotify, streamToString } from '../utilities';
 import { Message, MessageBus, MessageKind } from './messageBus';
 import { CodemodHash } from '../packageJsonAnalyzer/types';
-import { ExecutionError, executionErrorCodec } from '../errors/types';
+import { ExecutionError } from '../errors/types';
 import {
 	CodemodEntry,
 	codemodNamesCodec,
@@ -25,16 +25,37 @@ import {
 } from '../codemods/types';
 import { actions } from '../data/slice';
 import { Store } from '../data';
-import { buildArguments } from './buildArguments';
-import { join } from 'node:path';
+import {
+	EngineAdapterRegistry,
+	getCommandEngine,
+} from '../engines/engineAdapterRegistry';
+import { buildBuiltInEngineAdapters } from '../engines/builtInEngineAdapters';
+import { decodeExecutionError } from '../engines/engineMessages';
+import { EngineBinaryKind } from '../engines/engineVersions';
+import { BootstrappedEngine, EngineAdapter } from '../engines/types';
+import { join, sep } from 'node:path';
 import { homedir } from 'node:os';
 import { readFile } from 'node:fs/promises';
-import { existsSync, readFileSync } from 'node:fs';
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
 import { createHash } from 'node:crypto';
 import { parseCodemodConfigSchema } from '../data/codemodConfigSchema';
 import { parsePrivateCodemodsEnvelope } from '../data/privateCodemodsEnvelopeSchema';
 import { parseUrlParamsEnvelope } from '../data/urlParamsEnvelopeSchema';
 import { SEARCH_PARAMS_KEYS } from '../extension';
+import { buildExecutionSettings, toCaseCommand } from '../cases/caseCommands';
+import {
+	ExecuteCodemodSetMessage,
+	toExecuteCodemodSetMessage,
+	toQueuedExecution,
+} from '../executionQueue/queuedExecutions';
+import { ExecutionId } from '../executionQueue/types';
+import { buildExecutionId } from '../telemetry/hashes';
+import {
+	createWorktree,
+	getWorktreeDirectoryUri,
+	mapPathToWorktree,
+	removeWorktree,
+} from '../git/worktrees';
 
 export class EngineNotFoundError extends Error {}
 export class UnableToParseEngineResponseError extends Error {}
@@ -46,144 +67,35 @@ export const Messages = {
 	noImportedMod: 'No imported codemod was found' as const,
 };
 
-const TERMINATE_IDLE_PROCESS_TIMEOUT = 30 * 1000;
-
-export const enum EngineMessageKind {
-	finish = 2,
-	rewrite = 3,
-	progress = 6,
-	delete = 7,
-	move = 8,
-	create = 9,
-	copy = 10,
-}
-
-export const messageCodec = t.union([
-	buildTypeCodec({
-		k: t.literal(EngineMessageKind.rewrite),
-		i: t.string,
-		o: t.string,
-	}),
-	buildTypeCodec({
-		k: t.literal(EngineMessageKind.finish),
-	}),
-	buildTypeCodec({
-		k: t.literal(EngineMessageKind.progress),
-		p: t.number,
-		t: t.number,
-	}),
-	buildTypeCodec({
-		k: t.literal(EngineMessageKind.delete),
-		oldFilePath: t.string,
-	}),
-	buildTypeCodec({
-		k: t.literal(EngineMessageKind.move),
-		oldFilePath: t.string,
-		newFilePath: t.string,
-	}),
-	buildTypeCodec({
-		k: t.literal(EngineMessageKind.create),
-		newFilePath: t.string,
-		newContentPath: t.string,
-	}),
-	buildTypeCodec({
-		k: t.literal(EngineMessageKind.copy),
-		oldFilePath: t.string,
-		newFilePath: t.string,
-	}),
-	buildTypeCodec({
-		kind: t.literal('rewrite'),
-		oldPath: t.string,
-		newDataPath: t.string,
-	}),
-	buildTypeCodec({
-		kind: t.literal('finish'),
-	}),
-	buildTypeCodec({
-		kind: t.literal('progress'),
-		processedFileNumber: t.number,
-		totalFileNumber: t.number,
-	}),
-	buildTypeCodec({
-		kind: t.literal('delete'),
-		oldFilePath: t.string,
-	}),
-	buildTypeCodec({
-		kind: t.literal('move'),
-		oldFilePath: t.string,
-		newFilePath: t.string,
-	}),
-	buildTypeCodec({
-		kind: t.literal('create'),
-		newFilePath: t.string,
-		newContentPath: t.string,
-	}),
-	buildTypeCodec({
-		kind: t.literal('copy'),
-		oldFilePath: t.string,
-		newFilePath: t.string,
-	}),
-]);
-
-type EngineMessage = t.TypeOf<typeof messageCodec>;
-
-export const verboseEngineMessage = (message: EngineMessage): EngineMessage => {
-	if (!('k' in message)) {
-		return message;
-	}
-
-	if (message.k === EngineMessageKind.rewrite) {
-		return {
-			kind: 'rewrite',
-			oldPath: message.i,
-			newDataPath: message.o,
-		};
-	}
-
-	if (message.k === EngineMessageKind.finish) {
-		return {
-			kind: 'finish',
-		};
-	}
-
-	if (message.k === EngineMessageKind.progress) {
-		return {
-			kind: 'progress',
-			processedFileNumber: message.p,
-			totalFileNumber: message.t,
-		};
-	}
-
-	if (message.k === EngineMessageKind.delete) {
-		return {
-			kind: 'delete',
-			oldFilePath: message.oldFilePath,
-		};
-	}
-
-	if (message.k === EngineMessageKind.move) {
-		return {
-			kind: 'move',
-			oldFilePath: message.oldFilePath,
-			newFilePath: message.newFilePath,
-		};
-	}
-
-	if (message.k === EngineMessageKind.create) {
-		return {
-			kind: 'create',
-			newFilePath: message.newFilePath,
-			newContentPath: message.newContentPath,
-		};
-	}
+// the executions of the same files cannot run at the same time
+const doTargetsOverlap = (left: Uri, right: Uri): boolean => {
+	const isWithin = (path: string, directoryPath: string) =>
+		path === directoryPath ||
+		path.startsWith(
+			directoryPath.endsWith(sep) ? directoryPath : directoryPath + sep,
+		);
 
-	return {
-		kind: 'copy',
-		oldFilePath: message.oldFilePath,
-		newFilePath: message.newFilePath,
-	};
+	return (
+		isWithin(left.fsPath, right.fsPath) ||
+		isWithin(right.fsPath, left.fsPath)
+	);
 };
 
+type TimeoutErrorCode = 'idleTimeout' | 'executionTimeout';
+
+const buildTimeoutError = (
+	code: TimeoutErrorCode,
+	message: string,
+): ExecutionError => ({
+	message,
+	path: undefined,
+	severity: 'error',
+	code,
+	line: null,
+	column: null,
+	stack: null,
+});
+
 type Execution = {
 	readonly childProcess: ChildProcessWithoutNullStreams;
 	readonly codemodHash: CodemodHash | null;
@@ -196,31 +108,41 @@ type Execution = {
 	affectedAnyFile: boolean;
 };
 
-type ExecuteCodemodMessage = Message &
-	Readonly<{
-		kind: MessageKind.executeCodemodSet;
-	}>;
-
 export class EngineService {
 	readonly #configurationContainer: Container<Configuration>;
 	readonly #fileSystem: FileSystem;
 	readonly #messageBus: MessageBus;
+	readonly #outputChannel: OutputChannel;
 
-	#execution: Execution | null = null;
+	readonly #executions = new Map<ExecutionId, Execution>();
+	// the executions resolve the engine before they are spawned
+	readonly #startingExecutionTargetUris = new Map<ExecutionId, Uri>();
+	// the warnings about the unsupported per-file timeout are shown once per engine
+	readonly #fileTimeoutWarnedEngines = new Set<string>();
 	private __codemodEngineNodeExecutableUri: Uri | null = null;
 	private __codemodEngineRustExecutableUri: Uri | null = null;
-	private __executionMessageQueue: ExecuteCodemodMessage[] = [];
+	private __codemodEngineNodeVersion: string | null = null;
+	private __codemodEngineRustVersion: string | null = null;
 
 	public constructor(
 		configurationContainer: Container<Configuration>,
 		messageBus: MessageBus,
 		fileSystem: FileSystem,
 		private readonly __store: Store,
+		private readonly __engineAdapterRegistry: EngineAdapterRegistry,
+		outputChannel: OutputChannel,
 	) {
+		this.#outputChannel = outputChannel;
 		this.#configurationContainer = configurationContainer;
 		this.#messageBus = messageBus;
 		this.#fileSystem = fileSystem;
 
+		__engineAdapterRegistry.setBuiltInAdapters(
+			buildBuiltInEngineAdapters((kind) =>
+				this.getBootstrappedEngine(kind),
+			),
+		);
+
 		messageBus.subscribe(MessageKind.engineBootstrapped, (message) =>
 			this.#onEnginesBootstrappedMessage(message),
 		);
@@ -237,11 +159,33 @@ export class EngineService {
 			message.codemodEngineNodeExecutableUri;
 		this.__codemodEngineRustExecutableUri =
 			message.codemodEngineRustExecutableUri;
+		this.__codemodEngineNodeVersion = message.codemodEngineNodeVersion;
+		this.__codemodEngineRustVersion = message.codemodEngineRustVersion;
 
 		await this.syncRegistry();
 
 		await this.__fetchCodemods();
 		await this.fetchPrivateCodemods();
+
+		// the executions queued before the reload of the window
+		this.executeNextQueuedExecution();
+	}
+
+	public getBootstrappedEngine(
+		kind: EngineBinaryKind,
+	): BootstrappedEngine | null {
+		const [executableUri, version] =
+			kind === 'codemodEngineNode'
+				? [
+						this.__codemodEngineNodeExecutableUri,
+						this.__codemodEngineNodeVersion,
+				  ]
+				: [
+						this.__codemodEngineRustExecutableUri,
+						this.__codemodEngineRustVersion,
+				  ];
+
+		return executableUri !== null ? { executableUri, version } : null;
 	}
 
 	public isEngineBootstrapped() {
@@ -253,6 +197,11 @@ export class EngineService {
 			throw new Error('The engines are not bootstrapped.');
 		}
 
+		// the codemods are listed from the registry cache instead
+		if (this.#configurationContainer.get().offlineMode) {
+			return;
+		}
+
 		const childProcess = spawn(
 			singleQuotify(this.__codemodEngineNodeExecutableUri.fsPath),
 			['syncRegistry'],
@@ -338,7 +287,7 @@ export class EngineService {
 
 				const config = parseCodemodConfigSchema(JSON.parse(data));
 
-				if (config.engine === 'piranha') {
+				if ('language' in config) {
 					codemodEntries.push({
 						kind: 'piranhaRule',
 						hashDigest,
@@ -350,21 +299,13 @@ export class EngineService {
 					continue;
 				}
 
-				if (
-					config.engine === 'jscodeshift' ||
-					config.engine === 'ts-morph' ||
-					config.engine === 'filemod' ||
-					config.engine === 'repomod-engine' ||
-					config.engine === 'recipe'
-				) {
-					codemodEntries.push({
-						kind: 'codemod',
-						hashDigest,
-						name,
-						engine: config.engine,
-						arguments: config.arguments,
-					});
-				}
+				codemodEntries.push({
+					kind: 'codemod',
+					hashDigest,
+					name,
+					engine: config.engine,
+					arguments: config.arguments,
+				});
 			}
 
 			this.__store.dispatch(actions.setCodemods(codemodEntries));
@@ -488,74 +429,278 @@ export class EngineService {
 	}
 
 	public isExecutionInProgress(): boolean {
-		return this.#execution !== null;
+		return this.#executions.size !== 0;
 	}
 
-	shutdownEngines() {
-		if (!this.#execution) {
+	haltExecution(executionId: ExecutionId) {
+		const execution = this.#executions.get(executionId) ?? null;
+
+		if (execution === null) {
 			return;
 		}
 
-		this.#execution.halted = true;
-		this.#execution.childProcess.stdin.write('shutdown\n');
+		execution.halted = true;
+		execution.childProcess.stdin.write('shutdown\n');
 	}
 
-	private __getQueuedCodemodHashes(): ReadonlyArray<CodemodHash> {
-		return this.__executionMessageQueue
-			.map(({ command }) =>
-				'codemodHash' in command ? command.codemodHash : null,
+	#getBusyTargetUris(): ReadonlyArray<Uri> {
+		return [
+			...Array.from(this.#executions.values()).map(
+				({ targetUri }) => targetUri,
+			),
+			...this.#startingExecutionTargetUris.values(),
+		];
+	}
+
+	#canStartExecution(targetUri: Uri): boolean {
+		const { maxConcurrentExecutions } = this.#configurationContainer.get();
+		const busyTargetUris = this.#getBusyTargetUris();
+
+		return (
+			busyTargetUris.length < maxConcurrentExecutions &&
+			!busyTargetUris.some((busyTargetUri) =>
+				doTargetsOverlap(targetUri, busyTargetUri),
 			)
-			.filter(isNeitherNullNorUndefined);
+		);
 	}
 
-	async #onExecuteCodemodSetMessage(
-		message: Message & { kind: MessageKind.executeCodemodSet },
-	) {
-		if (this.#execution) {
-			if (message.command.kind === 'executeCodemod') {
-				this.__executionMessageQueue.push(
-					message as ExecuteCodemodMessage,
-				);
+	/**
+	 * Starts the queued executions, in order, as long as there are free execution slots.
+	 * The executions with targets overlapping the ones in progress or the ones queued before them wait.
+	 */
+	public executeNextQueuedExecution(): void {
+		const { executionQueue, executionQueuePaused } =
+			this.__store.getState();
 
-				this.#messageBus.publish({
-					kind: MessageKind.executionQueueChange,
-					queuedCodemodHashes: this.__getQueuedCodemodHashes(),
-				});
+		if (executionQueuePaused || !this.isEngineBootstrapped()) {
+			return;
+		}
 
-				return;
+		// the later executions cannot overtake the waiting ones on the same files
+		const waitingTargetUris: Uri[] = [];
+
+		for (const queuedExecution of executionQueue) {
+			const targetUri = Uri.parse(queuedExecution.targetUri);
+
+			if (
+				!this.#canStartExecution(targetUri) ||
+				waitingTargetUris.some((waitingTargetUri) =>
+					doTargetsOverlap(targetUri, waitingTargetUri),
+				)
+			) {
+				waitingTargetUris.push(targetUri);
+				continue;
 			}
 
-			await window.showErrorMessage(
-				'Wait until the previous codemod set execution has finished',
+			this.__store.dispatch(
+				actions.removeQueuedExecution(queuedExecution.executionId),
 			);
+
+			let message: ExecuteCodemodSetMessage;
+
+			try {
+				message = toExecuteCodemodSetMessage(queuedExecution);
+			} catch (error) {
+				console.error(error);
+
+				window.showErrorMessage(
+					`Could not execute the queued "${
+						queuedExecution.command.name
+					}" codemod: ${
+						error instanceof Error ? error.message : String(error)
+					}`,
+				);
+
+				continue;
+			}
+
+			// the target counts as busy as soon as the execution starts, and the failures are reported
+			this.#startExecution(queuedExecution.executionId, message);
+		}
+	}
+
+	async #onExecuteCodemodSetMessage(message: ExecuteCodemodSetMessage) {
+		const { executionQueue, executionQueuePaused } =
+			this.__store.getState();
+
+		const executionId = buildExecutionId();
+
+		// the queued executions run in order, as the execution slots free up
+		if (
+			executionQueuePaused ||
+			executionQueue.length !== 0 ||
+			!this.#canStartExecution(message.targetUri)
+		) {
+			this.__store.dispatch(
+				actions.enqueueExecution(
+					toQueuedExecution(executionId, message),
+				),
+			);
+
+			if (executionQueuePaused) {
+				window.showInformationMessage(
+					`The execution queue is paused. The "${message.command.name}" codemod will run once it is resumed.`,
+				);
+			} else if (
+				this.#getBusyTargetUris().some((busyTargetUri) =>
+					doTargetsOverlap(message.targetUri, busyTargetUri),
+				)
+			) {
+				window.showInformationMessage(
+					`The target of the "${message.command.name}" codemod overlaps with a running codemod. The codemod will run once the other one finishes.`,
+				);
+			}
+
+			this.executeNextQueuedExecution();
 			return;
 		}
 
+		await this.#startExecution(executionId, message);
+	}
+
+	async #startExecution(
+		executionId: ExecutionId,
+		message: ExecuteCodemodSetMessage,
+	) {
+		this.#startingExecutionTargetUris.set(executionId, message.targetUri);
+
+		try {
+			await this.#executeCodemodSet(executionId, message);
+		} catch (error) {
+			console.error(error);
+
+			window.showErrorMessage(
+				`Could not execute the "${message.command.name}" codemod: ${
+					error instanceof Error ? error.message : String(error)
+				}`,
+			);
+		} finally {
+			this.#startingExecutionTargetUris.delete(executionId);
+		}
+
+		// the slot is free again if the execution could not be started
+		if (!this.#executions.has(executionId)) {
+			this.executeNextQueuedExecution();
+		}
+	}
+
+	async #limitToEngineSupport(
+		engine: string,
+		engineAdapter: EngineAdapter,
+		executionSettings: ExecutionSettings,
+	): Promise<ExecutionSettings> {
 		if (
-			!this.__codemodEngineNodeExecutableUri ||
-			!this.__codemodEngineRustExecutableUri
+			executionSettings.fileTimeout === 0 ||
+			((await engineAdapter.supportsFileTimeout?.()) ?? true)
 		) {
-			await window.showErrorMessage(
+			return executionSettings;
+		}
+
+		if (!this.#fileTimeoutWarnedEngines.has(engine)) {
+			this.#fileTimeoutWarnedEngines.add(engine);
+
+			window.showWarningMessage(
+				`The "${engine}" engine does not support the per-file timeout, so the files are processed without it. Update the engine to use the intuita.fileTimeout setting.`,
+			);
+		}
+
+		return { ...executionSettings, fileTimeout: 0 };
+	}
+
+	async #executeCodemodSet(
+		executionId: ExecutionId,
+		message: ExecuteCodemodSetMessage,
+	) {
+		const engine = getCommandEngine(message.command);
+		const engineAdapter = this.__engineAdapterRegistry.get(engine);
+
+		if (engineAdapter === null) {
+			window.showErrorMessage(
+				workspace.isTrusted
+					? `No engine adapter has been registered for the "${engine}" engine`
+					: `No engine adapter has been registered for the "${engine}" engine. The engine adapters of the settings are not used in untrusted workspaces.`,
+			);
+
+			return;
+		}
+
+		const executableUri = await engineAdapter.resolveExecutableUri();
+
+		if (executableUri === null) {
+			window.showErrorMessage(
 				'Wait until the engines has been bootstrapped to execute the operation',
 			);
 
 			return;
 		}
 
+		const engineVersion = (await engineAdapter.resolveVersion?.()) ?? null;
+
+		const configuration = this.#configurationContainer.get();
+
+		// the merged jobs keep the target and the metadata of the case
+		const mergedCase =
+			this.__store.getState().case.entities[message.caseHashDigest] ??
+			null;
+
+		if (
+			(message.supersededJobHashes ?? null) !== null &&
+			mergedCase === null
+		) {
+			window.showInformationMessage(
+				`The "${message.command.name}" codemod was not re-run because its case was accepted or rejected in the meantime.`,
+			);
+
+			return;
+		}
+
+		// the jobs merged into an existing case are built where the case was executed
+		const executeInGitWorktree =
+			configuration.executeInGitWorktree && mergedCase === null;
+
+		let worktree: Worktree | null = null;
+
+		if (executeInGitWorktree) {
+			try {
+				worktree = await createWorktree(
+					message.targetUri.fsPath,
+					message.targetUriIsDirectory,
+					getWorktreeDirectoryUri(
+						message.storageUri,
+						message.caseHashDigest,
+					),
+				);
+			} catch (error) {
+				console.error(error);
+
+				window.showErrorMessage(
+					`Could not create the worktree to run the "${
+						message.command.name
+					}" codemod in: ${
+						error instanceof Error ? error.message : String(error)
+					}`,
+				);
+
+				return;
+			}
+		}
+
+		const mapUri = (uri: Uri): Uri =>
+			worktree !== null
+				? Uri.file(mapPathToWorktree(uri.fsPath, worktree))
+				: uri;
+
+		const targetUri = mapUri(message.targetUri);
+
+		const workspaceFolderUri =
+			workspace.getWorkspaceFolder(message.targetUri)?.uri ?? null;
+
 		const codemodHash =
 			message.command.kind === 'executeCodemod' ||
 			message.command.kind === 'executeLocalCodemod'
 				? message.command.codemodHash
 				: null;
 
-		this.#messageBus.publish({
-			kind: MessageKind.showProgress,
-			codemodHash,
-			progressKind: 'infinite',
-			totalFileNumber: 0,
-			processedFileNumber: 0,
-		});
-
 		const storageUri = Uri.joinPath(
 			message.storageUri,
 			'codemod-engine-node',
@@ -564,67 +709,81 @@ export class EngineService {
 		await this.#fileSystem.createDirectory(message.storageUri);
 		await this.#fileSystem.createDirectory(storageUri);
 
-		const args = buildArguments(
-			this.#configurationContainer.get(),
-			message,
-			storageUri,
+		// the re-runs use the settings of the original run
+		const executionSettings = await this.#limitToEngineSupport(
+			engine,
+			engineAdapter,
+			message.executionSettings ?? buildExecutionSettings(configuration),
 		);
 
-		const childProcess = spawn(
-			singleQuotify(
-				message.command.kind === 'executePiranhaRule'
-					? this.__codemodEngineRustExecutableUri.fsPath
-					: this.__codemodEngineNodeExecutableUri.fsPath,
-			),
-			args,
-			{
-				stdio: 'pipe',
-				shell: true,
-			},
-		);
+		const args = engineAdapter.buildArguments({
+			command: message.command,
+			targetUri,
+			targetUriIsDirectory: message.targetUriIsDirectory,
+			includedUris: message.includedUris?.map(mapUri) ?? null,
+			outputUri: storageUri,
+			configuration: { ...configuration, ...executionSettings },
+		});
+
+		// the progress is shown once nothing can fail before the engine starts
+		this.#messageBus.publish({
+			kind: MessageKind.showProgress,
+			executionId,
+			codemodHash,
+			codemodName: message.command.name,
+			caseHashDigest: message.caseHashDigest,
+			progressKind: 'infinite',
+			totalFileNumber: 0,
+			processedFileNumber: 0,
+		});
+
+		const childProcess = spawn(singleQuotify(executableUri.fsPath), args, {
+			stdio: 'pipe',
+			shell: true,
+		});
 
 		this.__store.dispatch(
-			actions.setCaseHashInProgress(message.caseHashDigest),
+			actions.addCaseHashInProgress(message.caseHashDigest),
 		);
 
 		const executionErrors: ExecutionError[] = [];
 
-		childProcess.stderr.on('data', function (chunk: unknown) {
-			if (!(chunk instanceof Buffer)) {
-				return;
-			}
-
-			try {
-				const stringifiedChunk = chunk.toString();
+		// the chunks of the standard error can split the lines or hold several of them
+		const errorInterface = readline.createInterface(childProcess.stderr);
 
-				const json = JSON.parse(stringifiedChunk);
+		const errorInterfaceClosed = new Promise<void>((resolve) => {
+			errorInterface.once('close', resolve);
+		});
 
-				const validation = executionErrorCodec.decode(json);
+		errorInterface.on('line', (line) => {
+			const executionError = decodeExecutionError(line);
 
-				if (E.isLeft(validation)) {
-					throw new Error(
-						`Could not validate the message error: ${stringifiedChunk}`,
+			if (executionError === null) {
+				if (line.trim() !== '') {
+					this.#outputChannel.appendLine(
+						`[${message.command.name}] ${line}`,
 					);
 				}
 
-				executionErrors.push(validation.right);
-			} catch (error) {
-				console.error(error);
+				return;
 			}
+
+			executionErrors.push(executionError);
 		});
 
 		const caseHashDigest = message.caseHashDigest;
 		const codemodName = message.command.name;
 
-		this.#execution = {
+		const execution: Execution = {
 			childProcess,
 			halted: false,
 			totalFileCount: 0, // that is the lower bound,
 			affectedAnyFile: false,
 			jobs: [],
+			// the overlaps are checked against the targets within the workspace
 			targetUri: message.targetUri,
 			happenedAt: message.happenedAt,
-			case: {
+			case: mergedCase ?? {
 				hash: caseHashDigest,
 				codemodName: message.command.name,
 				codemodHashDigest:
@@ -632,7 +791,22 @@ export class EngineService {
 						? message.command.codemodHash ?? undefined
 						: undefined,
 				createdAt: Number(message.happenedAt),
-				path: message.targetUri.fsPath,
+				path: targetUri.fsPath,
+				rootPath:
+					workspaceFolderUri !== null
+						? mapUri(workspaceFolderUri).fsPath
+						: null,
+				codemodArguments:
+					'arguments' in message.command
+						? (message.command.arguments ?? []).map(
+								({ name, value }) => ({ name, value }),
+						  )
+						: [],
+				engineVersion,
+				command: toCaseCommand(message.command),
+				executionSettings,
+				targetUriIsDirectory: message.targetUriIsDirectory,
+				worktree,
 			},
 			codemodHash:
 				'codemodHash' in message.command
@@ -640,51 +814,77 @@ export class EngineService {
 					: null,
 		};
 
+		this.#executions.set(executionId, execution);
+
 		const interfase = readline.createInterface(childProcess.stdout);
 
-		let timer: NodeJS.Timeout | null = null;
+		// the timeouts are in seconds, with 0 turning them off
+		const { idleTimeout, executionTimeout } =
+			this.#configurationContainer.get();
 
-		interfase.on('line', async (line) => {
-			if (timer !== null) {
-				clearTimeout(timer);
-			}
+		const terminate = (code: TimeoutErrorCode, message: string) => {
+			executionErrors.push(buildTimeoutError(code, message));
 
-			timer = setTimeout(() => {
-				childProcess.kill();
-			}, TERMINATE_IDLE_PROCESS_TIMEOUT);
+			window.showWarningMessage(message);
 
-			if (!this.#execution) {
-				return;
-			}
+			childProcess.kill();
+		};
 
-			const either = messageCodec.decode(JSON.parse(line));
+		let idleTimer: NodeJS.Timeout | null = null;
 
-			if (either._tag === 'Left') {
-				const report = prettyReporter.report(either);
+		const resetIdleTimer = () => {
+			if (idleTimer !== null) {
+				clearTimeout(idleTimer);
+			}
 
-				console.error(report);
+			if (idleTimeout <= 0) {
 				return;
 			}
 
-			const message = verboseEngineMessage(either.right);
+			idleTimer = setTimeout(() => {
+				terminate(
+					'idleTimeout',
+					`The engine was terminated after ${idleTimeout}s without any output. Increase the intuita.idleTimeout setting for the codemods that process large files.`,
+				);
+			}, idleTimeout * 1000);
+		};
 
-			if ('k' in message) {
+		const executionTimer =
+			executionTimeout > 0
+				? setTimeout(() => {
+						terminate(
+							'executionTimeout',
+							`The engine was terminated after running for ${executionTimeout}s. Increase the intuita.executionTimeout setting for the longer codemod runs.`,
+						);
+				  }, executionTimeout * 1000)
+				: null;
+
+		resetIdleTimer();
+
+		interfase.on('line', async (line) => {
+			resetIdleTimer();
+
+			const message = engineAdapter.decodeMessage(line);
+
+			if (message === null) {
 				return;
 			}
 
 			if (message.kind === 'progress') {
 				this.#messageBus.publish({
 					kind: MessageKind.showProgress,
-					codemodHash: this.#execution.codemodHash ?? null,
+					executionId,
+					codemodHash: execution.codemodHash,
+					codemodName,
+					caseHashDigest,
 					progressKind:
-						this.#execution.codemodHash ===
-						'QKEdp-pofR9UnglrKAGDm1Oj6W0' // app router boilerplate
+						execution.codemodHash === 'QKEdp-pofR9UnglrKAGDm1Oj6W0' // app router boilerplate
 							? 'infinite'
 							: 'finite',
 					totalFileNumber: message.totalFileNumber,
 					processedFileNumber: message.processedFileNumber,
 				});
-				this.#execution.totalFileCount = message.totalFileNumber;
+				execution.totalFileCount = message.totalFileNumber;
 				return;
 			}
 
@@ -706,6 +906,8 @@ export class EngineService {
 					originalNewContent: readFileSync(
 						newContentUri.fsPath,
 					).toString('utf8'),
+					oldContentHashDigest: null,
+					oldContentUri: null,
 					codemodName,
 					createdAt: Date.now(),
 					caseHashDigest,
@@ -718,6 +920,11 @@ export class EngineService {
 			} else if (message.kind === 'rewrite') {
 				const oldUri = Uri.file(message.oldPath);
 				const newContentUri = Uri.file(message.newDataPath);
+				const oldContentUri = Uri.file(`${message.newDataPath}.base`);
+
+				const oldContent = readFileSync(oldUri.fsPath);
+
+				writeFileSync(oldContentUri.fsPath, oldContent);
 
 				const hashlessJob: Omit<Job, 'hash'> = {
 					kind: JobKind.rewriteFile,
@@ -727,6 +934,8 @@ export class EngineService {
 					originalNewContent: readFileSync(
 						newContentUri.fsPath,
 					).toString('utf8'),
+					oldContentHashDigest: buildHash(oldContent),
+					oldContentUri,
 					codemodName,
 					createdAt: Date.now(),
 					caseHashDigest,
@@ -745,6 +954,10 @@ export class EngineService {
 					newUri: null,
 					newContentUri: null,
 					originalNewContent: null,
+					oldContentHashDigest: buildHash(
+						readFileSync(oldUri.fsPath),
+					),
+					oldContentUri: null,
 					codemodName,
 					createdAt: Date.now(),
 					caseHashDigest,
@@ -766,6 +979,10 @@ export class EngineService {
 					originalNewContent: readFileSync(oldUri.fsPath).toString(
 						'utf8',
 					),
+					oldContentHashDigest: buildHash(
+						readFileSync(oldUri.fsPath),
+					),
+					oldContentUri: null,
 					codemodName,
 					createdAt: Date.now(),
 					caseHashDigest,
@@ -787,6 +1004,10 @@ export class EngineService {
 					originalNewContent: readFileSync(oldUri.fsPath).toString(
 						'utf8',
 					),
+					oldContentHashDigest: buildHash(
+						readFileSync(oldUri.fsPath),
+					),
+					oldContentUri: null,
 					codemodName,
 					createdAt: Date.now(),
 					caseHashDigest,
@@ -800,67 +1021,102 @@ export class EngineService {
 				throw new Error(`Unrecognized message`);
 			}
 
-			if (job && !this.#execution.affectedAnyFile) {
-				this.#execution.affectedAnyFile = true;
+			if (job && !execution.affectedAnyFile) {
+				execution.affectedAnyFile = true;
 			}
 
-			this.#execution.jobs.push(job);
+			execution.jobs.push(job);
 
 			this.#messageBus.publish({
 				kind: MessageKind.upsertCase,
-				kase: this.#execution.case,
+				kase: execution.case,
 				jobs: [job],
 			});
 		});
 
 		interfase.on('close', async () => {
-			if (this.#execution) {
-				this.#messageBus.publish({
-					kind: MessageKind.codemodSetExecuted,
-					halted: this.#execution.halted,
-					fileCount: this.#execution.totalFileCount,
-					jobs: this.#execution.jobs,
-					case: this.#execution.case,
-					executionErrors,
-				});
+			if (idleTimer !== null) {
+				clearTimeout(idleTimer);
+			}
 
-				this.__store.dispatch(
-					actions.setSelectedCaseHash(this.#execution.case.hash),
-				);
+			if (executionTimer !== null) {
+				clearTimeout(executionTimer);
+			}
 
-				this.__store.dispatch(actions.setCaseHashInProgress(null));
+			// the diagnostics printed right before the exit can still be buffered
+			await errorInterfaceClosed;
 
-				this.__store.dispatch(
-					actions.setExplorerNodes([
-						this.#execution.case.hash,
-						workspace.workspaceFolders?.[0]?.uri.fsPath ?? '',
-					]),
-				);
+			this.#executions.delete(executionId);
 
-				commands.executeCommand('intuitaMainView.focus');
+			this.#rejectSupersededJobs(
+				message.supersededJobHashes ?? [],
+				execution,
+			);
 
-				if (
-					!this.#execution.halted &&
-					!this.#execution.affectedAnyFile
-				) {
-					window.showWarningMessage(Messages.noAffectedFiles);
-				}
-			}
+			this.#messageBus.publish({
+				kind: MessageKind.codemodSetExecuted,
+				executionId,
+				halted: execution.halted,
+				fileCount: execution.totalFileCount,
+				jobs: execution.jobs,
+				case: execution.case,
+				executionErrors,
+			});
 
-			this.#execution = null;
+			this.__store.dispatch(actions.setSelectedCaseHash(caseHashDigest));
 
-			const nextMessage = this.__executionMessageQueue.shift() ?? null;
+			this.__store.dispatch(
+				actions.removeCaseHashInProgress(caseHashDigest),
+			);
 
-			if (nextMessage === null) {
-				return;
+			this.__store.dispatch(actions.setExplorerNodes(caseHashDigest));
+
+			commands.executeCommand('intuitaMainView.focus');
+
+			if (!execution.halted && !execution.affectedAnyFile) {
+				window.showWarningMessage(Messages.noAffectedFiles);
 			}
 
-			this.#onExecuteCodemodSetMessage(nextMessage);
+			// no case holds the worktree without any jobs
+			if (worktree !== null && execution.jobs.length === 0) {
+				removeWorktree(
+					getWorktreeDirectoryUri(message.storageUri, caseHashDigest),
+				).catch((error) => console.error(error));
+			}
 
-			this.#messageBus.publish({
-				kind: MessageKind.executionQueueChange,
-				queuedCodemodHashes: this.__getQueuedCodemodHashes(),
-			});
+			this.executeNextQueuedExecution();
+		});
+	}
+
+	// the halted re-runs replace only the jobs of the files they processed
+	#rejectSupersededJobs(
+		supersededJobHashes: ReadonlyArray<JobHash>,
+		execution: Execution,
+	) {
+		const jobEntities = this.__store.getState().job.entities;
+
+		const newJobHashes = new Set(execution.jobs.map(({ hash }) => hash));
+		const newOldUris = new Set(
+			execution.jobs.map(({ oldUri }) => oldUri?.toString()),
+		);
+
+		const jobHashes = supersededJobHashes.filter((jobHash) => {
+			const job = jobEntities[jobHash] ?? null;
+
+			return (
+				job !== null &&
+				!newJobHashes.has(jobHash) &&
+				(!execution.halted || newOldUris.has(job.oldUri ?? undefined))
+			);
+		});
+
+		if (jobHashes.length === 0) {
+			return;
+		}
+
+		this.#messageBus.publish({
+			kind: MessageKind.rejectJobs,
+			jobHashes: new Set(jobHashes),
 		});
 	}
 
@@ -1,5 +1,4 @@
-import { dirname } from 'node:path';
-import { Uri, workspace } from 'vscode';
+import { FileSystemError, Uri, workspace } from 'vscode';
 import { Message, MessageBus, MessageKind } from './messageBus';
 
 export class FileService {
@@ -57,9 +56,8 @@ export class FileService {
 	}): Promise<void> {
 		const content = await workspace.fs.readFile(params.newContentUri);
 
-		const directory = dirname(params.newUri.fsPath);
-
-		await workspace.fs.createDirectory(Uri.file(directory));
+		// the parent keeps the scheme of the file, unlike the path
+		await workspace.fs.createDirectory(Uri.joinPath(params.newUri, '..'));
 
 		await workspace.fs.writeFile(params.newUri, content);
 	}
@@ -83,13 +81,11 @@ export class FileService {
 	}): Promise<void> {
 		const content = await workspace.fs.readFile(params.newContentUri);
 
-		const directory = dirname(params.newUri.fsPath);
-
-		await workspace.fs.createDirectory(Uri.file(directory));
+		await workspace.fs.createDirectory(Uri.joinPath(params.newUri, '..'));
 
 		await workspace.fs.writeFile(params.newUri, content);
 
-		await this.deleteFiles({ uris: [params.oldUri] });
+		await this.deleteFile({ uri: params.oldUri });
 	}
 
 	public async deleteDirectories(params: {
@@ -107,15 +103,31 @@ export class FileService {
 		}
 	}
 
+	// the files deleted in the meantime count as deleted
+	public async deleteFile(params: { uri: Uri }): Promise<void> {
+		try {
+			await workspace.fs.delete(params.uri, {
+				recursive: false,
+				useTrash: false,
+			});
+		} catch (error) {
+			if (
+				error instanceof FileSystemError &&
+				error.code === 'FileNotFound'
+			) {
+				return;
+			}
+
+			throw error;
+		}
+	}
+
 	public async deleteFiles(params: {
 		uris: ReadonlyArray<Uri>;
 	}): Promise<void> {
 		for (const uri of params.uris) {
 			try {
-				await workspace.fs.delete(uri, {
-					recursive: false,
-					useTrash: false,
-				});
+				await this.deleteFile({ uri });
 			} catch (error) {
 				console.error(error);
 			}
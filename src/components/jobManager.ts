@@ -1,5 +1,5 @@
 import * as vscode from 'vscode';
-import { isNeitherNullNorUndefined } from '../utilities';
+import { buildHash, isNeitherNullNorUndefined } from '../utilities';
 import { Message, MessageBus, MessageKind } from './messageBus';
 import {
 	JobHash,
@@ -8,15 +8,33 @@ import {
 	mapPersistedJobToJob,
 } from '../jobs/types';
 import { FileService } from './fileService';
-import { acceptJobs } from '../jobs/acceptJobs';
+import { acceptJobs, JobsRolledBackError } from '../jobs/acceptJobs';
+import { findStaleJobs, StaleJobsError } from '../jobs/staleJobs';
+import { threeWayMerge } from '../jobs/threeWayMerge';
+import {
+	ApplicationCancelledError,
+	applyJobsAsWorkspaceEdit,
+	saveDirtyDocuments,
+} from '../jobs/applyJobsAsWorkspaceEdit';
+import { Container } from '../container';
+import { Configuration } from '../configuration';
 import { Store } from '../data';
 import { actions } from '../data/slice';
+import { AppliedCaseManager } from '../appliedCases/appliedCaseManager';
+import { PostApplyHookRunner } from '../appliedCases/postApplyHookRunner';
+import { buildJobOutcomes } from '../caseReports/jobOutcomes';
+import { buildPartialJob, deletePartialContent } from '../jobs/hunks';
+import { FileSnapshot } from '../jobs/fileSnapshot';
+import { JobOutcome } from '../caseReports/types';
 
 export class JobManager {
 	public constructor(
 		private readonly __fileService: FileService,
 		private readonly __messageBus: MessageBus,
 		private readonly __store: Store,
+		private readonly __appliedCaseManager: AppliedCaseManager,
+		private readonly __postApplyHookRunner: PostApplyHookRunner,
+		private readonly __configurationContainer: Container<Configuration>,
 	) {
 		this.__messageBus.subscribe(MessageKind.upsertJobs, (message) =>
 			this.__onUpsertJobsMessage(message),
@@ -37,13 +55,52 @@ export class JobManager {
 		this.__store.dispatch(actions.upsertJobs(persistedJobs));
 	}
 
+	// the cases accepted from the webviews report the failures like the commands do
 	private async __onAcceptJobsMessage(
 		message: Message & { kind: MessageKind.acceptJobs },
 	) {
-		this.acceptJobs(message.jobHashes);
+		try {
+			await this.acceptJobs(message.jobHashes);
+		} catch (error) {
+			if (error instanceof ApplicationCancelledError) {
+				return;
+			}
+
+			console.error(error);
+
+			const errorMessage =
+				error instanceof Error ? error.message : String(error);
+
+			if (
+				error instanceof JobsRolledBackError ||
+				error instanceof StaleJobsError
+			) {
+				const showMessage =
+					error instanceof StaleJobsError
+						? vscode.window.showWarningMessage
+						: vscode.window.showErrorMessage;
+
+				showMessage(errorMessage, {
+					modal: true,
+					detail: error.detail,
+				});
+				return;
+			}
+
+			vscode.window.showErrorMessage(errorMessage);
+		}
 	}
 
-	public async acceptJobs(jobHashes: ReadonlySet<JobHash>): Promise<void> {
+	/**
+	 * Throws StaleJobsError without applying anything if any of the input files changed
+	 * since the dry run, unless the application is forced.
+	 * Throws ApplicationCancelledError if the user refuses to save the affected dirty documents.
+	 * Returns false if any of the post-apply hooks failed.
+	 */
+	public async acceptJobs(
+		jobHashes: ReadonlySet<JobHash>,
+		force = false,
+	): Promise<boolean> {
 		const state = this.__store.getState();
 
 		const deletedJobs = Array.from(jobHashes)
@@ -51,18 +108,110 @@ export class JobManager {
 			.filter(isNeitherNullNorUndefined)
 			.map(mapPersistedJobToJob);
 
-		await acceptJobs(this.__fileService, deletedJobs);
+		const { applyMode } = this.__configurationContainer.get();
+
+		// the unsaved changes have to reach the disk before the staleness check
+		if (applyMode === 'workspaceEdit') {
+			await saveDirtyDocuments(deletedJobs);
+		}
+
+		if (!force) {
+			const staleJobs = await findStaleJobs(deletedJobs);
+
+			const staleJobHashes = staleJobs.map(({ hash }) => hash);
+
+			this.__store.dispatch(
+				actions.setStaleJobHashes([
+					...this.__store
+						.getState()
+						.staleJobHashes.filter(
+							(jobHash) => !jobHashes.has(jobHash),
+						),
+					...staleJobHashes,
+				]),
+			);
+
+			if (staleJobs.length !== 0) {
+				throw new StaleJobsError(staleJobs);
+			}
+		}
+
+		const { rejectedHunks } = this.__store.getState();
+
+		// the applied case keeps the original jobs, so undoing brings back all of their hunks
+		const appliedJobs = await Promise.all(
+			deletedJobs.map((job) =>
+				buildPartialJob(job, rejectedHunks[job.hash] ?? []),
+			),
+		);
+
+		let jobOutcomes: ReadonlyArray<JobOutcome>;
+		let snapshot: FileSnapshot;
 
-		this.deleteJobs(Array.from(jobHashes));
+		// the partial contents are only read while applying the jobs
+		try {
+			jobOutcomes = await buildJobOutcomes(appliedJobs, 'accepted');
+
+			snapshot =
+				applyMode === 'workspaceEdit'
+					? await applyJobsAsWorkspaceEdit(appliedJobs)
+					: await acceptJobs(this.__fileService, appliedJobs);
+		} finally {
+			for (const job of deletedJobs) {
+				await deletePartialContent(job);
+			}
+		}
+
+		try {
+			await this.__appliedCaseManager.recordAppliedJobs(
+				deletedJobs,
+				snapshot,
+			);
+		} catch (error) {
+			console.error(error);
+
+			vscode.window.showWarningMessage(
+				`The changes were applied, but they cannot be undone because the files could not be recorded: ${
+					error instanceof Error ? error.message : String(error)
+				}`,
+			);
+		}
+
+		this.__store.dispatch(actions.addJobOutcomes(jobOutcomes));
+		this.__store.dispatch(actions.deleteJobs(Array.from(jobHashes)));
 
 		this.__messageBus.publish({
 			kind: MessageKind.jobsAccepted,
 			deletedJobs: new Set(deletedJobs),
 		});
+
+		// undoing re-creates the codemod inputs out of the snapshots
+		const oldContentUris = deletedJobs
+			.map(({ oldContentUri }) => oldContentUri)
+			.filter(isNeitherNullNorUndefined);
+
+		if (oldContentUris.length !== 0) {
+			this.__messageBus.publish({
+				kind: MessageKind.deleteFiles,
+				uris: oldContentUris,
+			});
+		}
+
+		const hooksPassed = await this.__postApplyHookRunner.runHooks(
+			appliedJobs,
+		);
+
+		// the hooks like the formatters change the applied files too
+		try {
+			await this.__appliedCaseManager.recordAppliedContents(deletedJobs);
+		} catch (error) {
+			console.error(error);
+		}
+
+		return hooksPassed;
 	}
 
-	public deleteJobs(jobHashes: ReadonlyArray<JobHash>) {
-		this.__store.dispatch(actions.deleteJobs(jobHashes));
+	public async deleteJobs(jobHashes: ReadonlyArray<JobHash>) {
 		const state = this.__store.getState();
 
 		const deletedJobs = Array.from(jobHashes)
@@ -70,13 +219,18 @@ export class JobManager {
 			.filter(isNeitherNullNorUndefined)
 			.map(mapPersistedJobToJob);
 
+		const jobOutcomes = await buildJobOutcomes(deletedJobs, 'rejected');
+
+		this.__store.dispatch(actions.addJobOutcomes(jobOutcomes));
+		this.__store.dispatch(actions.deleteJobs(jobHashes));
+
 		this.__messageBus.publish({
 			kind: MessageKind.jobsRejected,
 			deletedJobs: new Set(deletedJobs),
 		});
 	}
 
-	private __onRejectJobsMessage(
+	private async __onRejectJobsMessage(
 		message: Message & { kind: MessageKind.rejectJobs },
 	) {
 		const state = this.__store.getState();
@@ -88,11 +242,6 @@ export class JobManager {
 
 		const messages: Message[] = [];
 
-		messages.push({
-			kind: MessageKind.jobsRejected,
-			deletedJobs: new Set(deletedJobs),
-		});
-
 		for (const job of deletedJobs) {
 			if (
 				(job.kind === JobKind.rewriteFile ||
@@ -106,15 +255,93 @@ export class JobManager {
 					uris: [job.newContentUri],
 				});
 			}
+
+			if (job.oldContentUri) {
+				messages.push({
+					kind: MessageKind.deleteFiles,
+					uris: [job.oldContentUri],
+				});
+			}
 		}
 
-		this.deleteJobs(deletedJobs.map(({ hash }) => hash));
+		// the outcomes need the output files, so they are deleted afterwards
+		await this.deleteJobs(deletedJobs.map(({ hash }) => hash));
 
 		for (const message of messages) {
 			this.__messageBus.publish(message);
 		}
 	}
 
+	/**
+	 * Merges the changes made to the input file since the dry run into the job output.
+	 * The merged output is based on the current input file, so the job is not stale anymore.
+	 * Returns the number of conflicts left in the output.
+	 */
+	public async mergeJob(jobHash: JobHash): Promise<number> {
+		const persistedJob = this.__store.getState().job.entities[jobHash];
+
+		if (persistedJob === undefined) {
+			throw new Error('The change does not exist anymore.');
+		}
+
+		const job = mapPersistedJobToJob(persistedJob);
+
+		if (
+			job.oldUri === null ||
+			job.newContentUri === null ||
+			job.oldContentUri === null
+		) {
+			throw new Error(
+				'The codemod input was not kept for this change, re-run the codemod instead.',
+			);
+		}
+
+		const baseContent = await vscode.workspace.fs.readFile(
+			job.oldContentUri,
+		);
+		const currentContent = await vscode.workspace.fs.readFile(job.oldUri);
+		const codemodContent = await vscode.workspace.fs.readFile(
+			job.newContentUri,
+		);
+
+		const { content, conflictCount } = threeWayMerge(
+			Buffer.from(baseContent).toString('utf8'),
+			Buffer.from(currentContent).toString('utf8'),
+			Buffer.from(codemodContent).toString('utf8'),
+		);
+
+		await this.__fileService.updateFileContent({
+			uri: job.newContentUri,
+			content,
+		});
+
+		await vscode.workspace.fs.writeFile(job.oldContentUri, currentContent);
+
+		// the hunks of the merged output differ from the reviewed ones
+		this.__store.dispatch(
+			actions.setRejectedHunks({ jobHash, hunkIndices: [] }),
+		);
+
+		this.__store.dispatch(
+			actions.upsertJobs([
+				{
+					...persistedJob,
+					oldContentHashDigest: buildHash(currentContent),
+				},
+			]),
+		);
+
+		this.__store.dispatch(
+			actions.setStaleJobHashes(
+				this.__store
+					.getState()
+					.staleJobHashes.filter((hash) => hash !== jobHash),
+			),
+		);
+
+		return conflictCount;
+	}
+
 	public async changeJobContent(jobHash: JobHash, newJobContent: string) {
 		const job = this.__store.getState().job.entities[jobHash];
 
@@ -129,6 +356,9 @@ export class JobManager {
 			content: newJobContent,
 		});
 
+		this.__store.dispatch(
+			actions.setRejectedHunks({ jobHash, hunkIndices: [] }),
+		);
 		this.__store.dispatch(actions.upsertJobs([{ ...job }]));
 	}
 }
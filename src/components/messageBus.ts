@@ -1,6 +1,7 @@
 import { Disposable, EventEmitter, Uri } from 'vscode';
-import type { Case, CaseHash } from '../cases/types';
+import type { Case, CaseHash, ExecutionSettings } from '../cases/types';
 import type { Job, JobHash } from '../jobs/types';
+import type { ExecutionId } from '../executionQueue/types';
 import { CodemodHash } from '../packageJsonAnalyzer/types';
 import { ExecutionError } from '../errors/types';
 import { PiranhaLanguage } from '../data/codemodConfigSchema';
@@ -45,7 +46,6 @@ export const enum MessageKind {
 	focusFile = 37,
 
 	mainWebviewViewVisibilityChange = 38,
-	executionQueueChange = 39,
 
 	loadHomeDirectoryData = 40,
 	loadHomeDirectoryCase = 41,
@@ -56,6 +56,8 @@ export type Command =
 			kind: 'executeCodemod';
 			codemodHash: CodemodHash;
 			name: string;
+			// the engine adapter executing the codemod
+			engine: string;
 			arguments?: ReadonlyArray<CodemodArgumentWithValue>;
 	  }>
 	| Readonly<{
@@ -112,7 +114,9 @@ export type Message =
 	| Readonly<{
 			kind: MessageKind.engineBootstrapped;
 			codemodEngineNodeExecutableUri: Uri;
+			codemodEngineNodeVersion: string | null;
 			codemodEngineRustExecutableUri: Uri;
+			codemodEngineRustVersion: string | null;
 	  }>
 	| Readonly<{
 			kind: MessageKind.executeCodemodSet;
@@ -122,9 +126,17 @@ export type Message =
 			storageUri: Uri;
 			targetUri: Uri;
 			targetUriIsDirectory: boolean;
+			// the settings of the re-runs, the current ones are used otherwise
+			executionSettings?: ExecutionSettings | null;
+			// the files the re-runs are limited to
+			includedUris?: ReadonlyArray<Uri> | null;
+			// the jobs of the case the re-run merges into, replaced once it finishes,
+			// null for the executions that create their cases
+			supersededJobHashes?: ReadonlyArray<JobHash> | null;
 	  }>
 	| Readonly<{
 			kind: MessageKind.codemodSetExecuted;
+			executionId: ExecutionId;
 			halted: boolean;
 			fileCount: number;
 			jobs: Job[];
@@ -158,7 +170,10 @@ export type Message =
 	  }>
 	| Readonly<{
 			kind: MessageKind.showProgress;
+			executionId: ExecutionId;
 			codemodHash: CodemodHash | null;
+			codemodName: string;
+			caseHashDigest: CaseHash;
 			progressKind: 'finite' | 'infinite';
 			totalFileNumber: number;
 			processedFileNumber: number;
@@ -166,10 +181,6 @@ export type Message =
 	| Readonly<{
 			kind: MessageKind.mainWebviewViewVisibilityChange;
 	  }>
-	| Readonly<{
-			kind: MessageKind.executionQueueChange;
-			queuedCodemodHashes: ReadonlyArray<CodemodHash>;
-	  }>
 	| Readonly<{
 			kind: MessageKind.loadHomeDirectoryData;
 	  }>
@@ -0,0 +1,19 @@
+/**
+ * Parses the lines in the `sha256sum` format ("<hex digest>  <file name>")
+ * into the digests keyed by the file names.
+ */
+export const parseDigestManifest = (
+	manifest: string,
+): ReadonlyMap<string, string> => {
+	const digests = new Map<string, string>();
+
+	for (const line of manifest.split('\n')) {
+		const match = /^([0-9a-fA-F]{64}) [ *](.+)$/.exec(line.trim());
+
+		if (match?.[1] !== undefined && match[2] !== undefined) {
+			digests.set(match[2], match[1].toLowerCase());
+		}
+	}
+
+	return digests;
+};
@@ -0,0 +1,191 @@
+import type { AxiosRequestConfig } from 'axios';
+import { X509Certificate } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import * as http from 'node:http';
+import * as https from 'node:https';
+import type { Socket } from 'node:net';
+import * as tls from 'node:tls';
+import { workspace } from 'vscode';
+
+export class CertificateError extends Error {}
+
+type ConnectionCallback = (error: Error | null, socket?: Socket) => void;
+
+type RequestConfig = Pick<AxiosRequestConfig, 'httpsAgent' | 'proxy'>;
+
+/**
+ * Tunnels the HTTPS connections through the HTTP CONNECT method of the proxy.
+ */
+class ProxyTunnelAgent extends https.Agent {
+	readonly #proxyUrl: URL;
+
+	constructor(proxyUrl: URL, options: https.AgentOptions) {
+		super(options);
+
+		this.#proxyUrl = proxyUrl;
+	}
+
+	// the agent waits for the callback if no socket is returned
+	createConnection(
+		options: tls.ConnectionOptions & { host: string; port: number },
+		callback: ConnectionCallback,
+	): void {
+		const { protocol, hostname, port, username, password } = this.#proxyUrl;
+		const authority = `${options.host}:${options.port}`;
+
+		const request = (protocol === 'https:' ? https : http).request({
+			host: hostname,
+			port: port !== '' ? Number(port) : protocol === 'https:' ? 443 : 80,
+			method: 'CONNECT',
+			path: authority,
+			headers: {
+				host: authority,
+				...(username !== ''
+					? {
+							'proxy-authorization': `Basic ${Buffer.from(
+								`${decodeURIComponent(
+									username,
+								)}:${decodeURIComponent(password)}`,
+							).toString('base64')}`,
+					  }
+					: {}),
+			},
+		});
+
+		request.once('connect', (response, socket) => {
+			if (response.statusCode !== 200) {
+				socket.destroy();
+
+				callback(
+					new Error(
+						`The proxy ${hostname} responded with ${response.statusCode} to the tunnel request`,
+					),
+				);
+				return;
+			}
+
+			callback(
+				null,
+				tls.connect({
+					...options,
+					socket,
+					servername: options.servername ?? options.host,
+				}),
+			);
+		});
+
+		request.once('error', (error) => callback(error));
+		request.end();
+	}
+}
+
+const isCertificate = (content: string): boolean => {
+	try {
+		return new X509Certificate(content).raw.length !== 0;
+	} catch (error) {
+		return false;
+	}
+};
+
+const readCertificates = (
+	caCertificatePaths: ReadonlyArray<string>,
+): ReadonlyArray<string> =>
+	caCertificatePaths.map((path) => {
+		let content: string;
+
+		try {
+			content = readFileSync(path, 'utf8');
+		} catch (error) {
+			throw new CertificateError(
+				`Could not read the certificate authority ${path} of the intuita.caCertificatePaths setting: ${
+					error instanceof Error ? error.message : String(error)
+				}`,
+			);
+		}
+
+		if (!isCertificate(content)) {
+			throw new CertificateError(
+				`The certificate authority ${path} of the intuita.caCertificatePaths setting is not a PEM certificate.`,
+			);
+		}
+
+		return content;
+	});
+
+// the agents keep the connections alive between the requests made with the same settings
+let cachedRequestConfig: Readonly<{
+	key: string;
+	requestConfig: RequestConfig;
+}> | null = null;
+
+// the environment variables apply if the editor setting is empty
+const getProxyUrl = (): URL | null => {
+	const proxy =
+		workspace.getConfiguration('http').get<string>('proxy') ||
+		process.env['HTTPS_PROXY'] ||
+		process.env['https_proxy'] ||
+		'';
+
+	if (proxy === '') {
+		return null;
+	}
+
+	try {
+		return new URL(proxy.includes('://') ? proxy : `http://${proxy}`);
+	} catch (error) {
+		console.error(error);
+
+		return null;
+	}
+};
+
+/**
+ * Returns the request configuration honoring the `http.proxy` and `http.proxyStrictSSL`
+ * settings of the editor and the additional certificate authorities.
+ * The configuration is built anew only once the settings change.
+ * Throws CertificateError naming the certificate authority that cannot be read or parsed.
+ */
+export const getRequestConfig = (
+	caCertificatePaths: ReadonlyArray<string>,
+): RequestConfig => {
+	const proxyUrl = getProxyUrl();
+
+	const strictSSL =
+		workspace.getConfiguration('http').get<boolean>('proxyStrictSSL') ??
+		true;
+
+	const key = JSON.stringify([
+		proxyUrl?.href ?? null,
+		strictSSL,
+		caCertificatePaths,
+	]);
+
+	if (cachedRequestConfig !== null && cachedRequestConfig.key === key) {
+		return cachedRequestConfig.requestConfig;
+	}
+
+	const certificates = readCertificates(caCertificatePaths);
+
+	const agentOptions: https.AgentOptions = {
+		keepAlive: true,
+		// the custom authorities replace the default ones unless both are passed
+		ca:
+			certificates.length !== 0
+				? [...tls.rootCertificates, ...certificates]
+				: undefined,
+		rejectUnauthorized: proxyUrl === null || strictSSL,
+	};
+
+	const requestConfig: RequestConfig = {
+		httpsAgent:
+			proxyUrl !== null
+				? new ProxyTunnelAgent(proxyUrl, agentOptions)
+				: new https.Agent(agentOptions),
+		// the tunnel replaces the built-in proxy support of axios
+		proxy: false,
+	};
+
+	cachedRequestConfig = { key, requestConfig };
+
+	return requestConfig;
+};
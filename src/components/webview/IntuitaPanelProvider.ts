@@ -3,6 +3,8 @@ import { diffTrimmedLines } from 'diff';
 import { commands, Uri, ViewColumn, WebviewPanel, window } from 'vscode';
 import type { RootState, Store } from '../../data';
 import { JobKind, mapPersistedJobToJob } from '../../jobs/types';
+import { buildHunks } from '../../jobs/buildHunks';
+import { isHunkReviewable } from '../../jobs/hunks';
 import { WebviewResolver } from './WebviewResolver';
 import areEqual from 'fast-deep-equal';
 import { PanelViewProps } from './panelViewProps';
@@ -21,6 +23,10 @@ import {
 } from '../../utilities';
 import { encode } from 'universal-base64url';
 import { SEARCH_PARAMS_KEYS } from '../../extension';
+import {
+	getCaseRootPath,
+	getWorkspaceFolderPaths,
+} from '../../workspaceFolders';
 
 const TYPE = 'intuitaPanel';
 const WEBVIEW_NAME = 'jobDiffView';
@@ -105,7 +111,7 @@ const selectPanelViewProps = (
 	mainWebviewViewProvider: MainViewProvider,
 	codemodDescriptionProvider: CodemodDescriptionProvider,
 	state: RootState,
-	rootPath: string | null,
+	rootPaths: ReadonlyArray<string>,
 ): PanelViewProps | null => {
 	if (!state.jobDiffView.visible) {
 		return null;
@@ -144,7 +150,7 @@ const selectPanelViewProps = (
 		};
 	}
 
-	if (rootPath === null || activeTabId === 'community') {
+	if (rootPaths.length === 0 || activeTabId === 'community') {
 		return null;
 	}
 
@@ -161,7 +167,7 @@ const selectPanelViewProps = (
 		return null;
 	}
 
-	const tree = selectExplorerTree(state, rootPath);
+	const tree = selectExplorerTree(state, rootPaths);
 
 	if (tree === null) {
 		return null;
@@ -189,6 +195,10 @@ const selectPanelViewProps = (
 
 	const job = mapPersistedJobToJob(persistedJob);
 
+	const kase = state.case.entities[selectedCaseHash] ?? null;
+	const rootPath =
+		(kase !== null ? getCaseRootPath(kase, rootPaths) : null) ?? '';
+
 	const newFileTitle = job.newUri?.fsPath.replace(rootPath, '') ?? null;
 	const oldFileTitle =
 		[
@@ -219,18 +229,28 @@ const selectPanelViewProps = (
 		state.reviewedExplorerNodes[selectedCaseHash] ?? []
 	).includes(focusedExplorerNodeHashDigest);
 
+	const hunks =
+		isHunkReviewable(job.kind) &&
+		oldFileContent !== null &&
+		newFileContent !== null
+			? buildHunks(oldFileContent, newFileContent)
+			: [];
+
 	return {
 		kind: 'JOB',
 		title: newFileTitle ?? oldFileTitle ?? '',
 		caseHash: selectedCaseHash,
 		jobHash: job.hash,
 		jobKind: job.kind,
+		oldContentHashDigest: job.oldContentHashDigest,
 		oldFileTitle,
 		newFileTitle,
 		oldFileContent,
 		newFileContent,
 		originalNewFileContent: job.originalNewContent,
 		reviewed,
+		hunks,
+		rejectedHunkIndices: state.rejectedHunks[job.hash] ?? [],
 	};
 };
 
@@ -243,14 +263,13 @@ export class IntuitaPanelProvider {
 		private readonly __mainWebviewViewProvider: MainViewProvider,
 		messageBus: MessageBus,
 		private readonly __codemodDescriptionProvider: CodemodDescriptionProvider,
-		private readonly __rootPath: string | null,
 		private readonly __jobManager: JobManager,
 	) {
 		let prevViewProps = selectPanelViewProps(
 			__mainWebviewViewProvider,
 			__codemodDescriptionProvider,
 			__store.getState(),
-			__rootPath,
+			getWorkspaceFolderPaths(),
 		);
 
 		const listener = async () => {
@@ -258,7 +277,7 @@ export class IntuitaPanelProvider {
 				__mainWebviewViewProvider,
 				__codemodDescriptionProvider,
 				__store.getState(),
-				__rootPath,
+				getWorkspaceFolderPaths(),
 			);
 
 			if (areEqual(prevViewProps, nextViewProps)) {
@@ -403,6 +422,17 @@ export class IntuitaPanelProvider {
 						);
 					}
 
+					if (
+						message.kind === 'webview.jobDiffView.setRejectedHunks'
+					) {
+						this.__store.dispatch(
+							actions.setRejectedHunks({
+								jobHash: message.jobHash,
+								hunkIndices: message.hunkIndices,
+							}),
+						);
+					}
+
 					if (
 						message.kind === 'webview.global.showInformationMessage'
 					) {
@@ -414,7 +444,7 @@ export class IntuitaPanelProvider {
 							this.__mainWebviewViewProvider,
 							this.__codemodDescriptionProvider,
 							this.__store.getState(),
-							this.__rootPath,
+							getWorkspaceFolderPaths(),
 						);
 
 						if (
@@ -446,7 +476,7 @@ export class IntuitaPanelProvider {
 							this.__mainWebviewViewProvider,
 							this.__codemodDescriptionProvider,
 							this.__store.getState(),
-							this.__rootPath,
+							getWorkspaceFolderPaths(),
 						);
 
 						this.__webviewPanel.webview.postMessage({
@@ -30,6 +30,9 @@ import {
 	selectCodemodArguments,
 } from '../../selectors/selectCodemodTree';
 import { isNeitherNullNorUndefined } from '../../utilities';
+import { getWorkspaceFolderPaths } from '../../workspaceFolders';
+import { Configuration } from '../../configuration';
+import { Container } from '../../container';
 
 const X_INTUITA_ACCESS_TOKEN = 'X-Intuita-Access-Token'.toLocaleLowerCase();
 
@@ -157,54 +160,55 @@ export class MainViewProvider implements WebviewViewProvider {
 	private __view: WebviewView | null = null;
 	private __webviewResolver: WebviewResolver;
 	private __autocompleteItems: string[] = [];
-	private __executionQueue: ReadonlyArray<CodemodHash> = [];
 
 	constructor(
 		context: ExtensionContext,
 		private readonly __userService: UserService,
 		private readonly __engineService: EngineService,
 		private readonly __messageBus: MessageBus,
-		private readonly __rootUri: Uri | null,
 		private readonly __store: Store,
+		private readonly __configurationContainer: Container<Configuration>,
 	) {
 		this.__webviewResolver = new WebviewResolver(context.extensionUri);
 
 		this.__messageBus.subscribe(MessageKind.showProgress, (message) => {
-			if (message.codemodHash === null) {
-				return;
-			}
-
 			this.__postMessage({
 				kind: 'webview.global.setCodemodExecutionProgress',
+				executionId: message.executionId,
 				codemodHash: message.codemodHash,
+				codemodName: message.codemodName,
+				caseHashDigest: message.caseHashDigest,
 				progressKind: message.progressKind,
 				totalFileNumber: message.totalFileNumber,
 				processedFileNumber: message.processedFileNumber,
 			});
 		});
 
-		this.__messageBus.subscribe(MessageKind.codemodSetExecuted, () => {
-			this.__postMessage({
-				kind: 'webview.global.codemodExecutionHalted',
-			});
-		});
+		this.__messageBus.subscribe(
+			MessageKind.codemodSetExecuted,
+			(message) => {
+				this.__postMessage({
+					kind: 'webview.global.codemodExecutionHalted',
+					executionId: message.executionId,
+				});
+			},
+		);
 
 		this.__messageBus.subscribe(MessageKind.executeCodemodSet, () => {
 			this.__store.dispatch(actions.collapseResultsPanel(false));
 			this.__store.dispatch(actions.collapseChangeExplorerPanel(false));
 		});
 
-		this.__messageBus.subscribe(
-			MessageKind.executionQueueChange,
-			(message) => {
-				this.__executionQueue = message.queuedCodemodHashes;
-				const props = this.__buildProps();
-
+		// the workspace folders can be added or removed without reloading the extension
+		workspace.onDidChangeWorkspaceFolders(
+			() => {
 				this.__postMessage({
 					kind: 'webview.main.setProps',
-					props: props,
+					props: this.__buildProps(),
 				});
 			},
+			null,
+			context.subscriptions,
 		);
 
 		let prevProps = this.__buildProps();
@@ -277,9 +281,8 @@ export class MainViewProvider implements WebviewViewProvider {
 	private __buildProps() {
 		return selectMainWebviewViewProps(
 			this.__store.getState(),
-			this.__rootUri,
+			getWorkspaceFolderPaths(),
 			this.__autocompleteItems,
-			this.__executionQueue,
 		);
 	}
 
@@ -297,6 +300,46 @@ export class MainViewProvider implements WebviewViewProvider {
 			);
 		}
 
+		if (message.kind === 'webview.campaignManager.undoAppliedCase') {
+			commands.executeCommand(
+				'intuita.undoAppliedCase',
+				message.caseHash,
+			);
+		}
+
+		if (message.kind === 'webview.campaignManager.exportCaseAsPatch') {
+			commands.executeCommand(
+				'intuita.exportCaseAsPatch',
+				message.caseHash,
+			);
+		}
+
+		if (message.kind === 'webview.campaignManager.exportCaseReport') {
+			commands.executeCommand(
+				'intuita.exportCaseReport',
+				message.caseHash,
+			);
+		}
+
+		if (message.kind === 'webview.campaignManager.rerunCase') {
+			commands.executeCommand('intuita.rerunCase', message.caseHash);
+		}
+
+		if (message.kind === 'webview.global.forceApplyJob') {
+			commands.executeCommand('intuita.forceApplyJob', message.jobHash);
+		}
+
+		if (message.kind === 'webview.global.rerunCodemodOnJobFile') {
+			commands.executeCommand(
+				'intuita.rerunCodemodOnJobFile',
+				message.jobHash,
+			);
+		}
+
+		if (message.kind === 'webview.global.mergeStaleJob') {
+			commands.executeCommand('intuita.mergeStaleJob', message.jobHash);
+		}
+
 		if (message.kind === 'webview.global.discardSelected') {
 			commands.executeCommand(
 				'intuita.discardJobs',
@@ -390,11 +433,14 @@ export class MainViewProvider implements WebviewViewProvider {
 		}
 
 		if (message.kind === 'webview.codemodList.haltCodemodExecution') {
-			this.__engineService.shutdownEngines();
+			this.__engineService.haltExecution(message.executionId);
 		}
 
 		if (message.kind === 'webview.codemodList.dryRunCodemod') {
-			if (this.__rootUri === null) {
+			// by default, the codemods run in the first workspace folder
+			const rootPath = getWorkspaceFolderPaths()[0] ?? null;
+
+			if (rootPath === null) {
 				window.showWarningMessage('No active workspace is found.');
 				return;
 			}
@@ -403,8 +449,7 @@ export class MainViewProvider implements WebviewViewProvider {
 			this.__store.dispatch(actions.setRecentCodemodHashes(hashDigest));
 
 			const state = this.__store.getState().codemodDiscoveryView;
-			const executionPath =
-				state.executionPaths[hashDigest] ?? this.__rootUri.fsPath;
+			const executionPath = state.executionPaths[hashDigest] ?? rootPath;
 
 			if (executionPath === null) {
 				return;
@@ -435,7 +480,10 @@ export class MainViewProvider implements WebviewViewProvider {
 		}
 
 		if (message.kind === 'webview.codemodList.dryRunPrivateCodemod') {
-			if (this.__rootUri === null) {
+			// by default, the codemods run in the first workspace folder
+			const rootPath = getWorkspaceFolderPaths()[0] ?? null;
+
+			if (rootPath === null) {
 				window.showWarningMessage('No active workspace is found.');
 				return;
 			}
@@ -444,8 +492,7 @@ export class MainViewProvider implements WebviewViewProvider {
 			this.__store.dispatch(actions.setRecentCodemodHashes(hashDigest));
 
 			const state = this.__store.getState().codemodDiscoveryView;
-			const executionPath =
-				state.executionPaths[hashDigest] ?? this.__rootUri.fsPath;
+			const executionPath = state.executionPaths[hashDigest] ?? rootPath;
 
 			if (executionPath === null) {
 				return;
@@ -534,6 +581,13 @@ export class MainViewProvider implements WebviewViewProvider {
 		}
 
 		if (message.kind === 'webview.sourceControl.createIssue') {
+			if (this.__configurationContainer.get().offlineMode) {
+				window.showWarningMessage(
+					'Issue creation is disabled in offline mode.',
+				);
+				return;
+			}
+
 			const accessToken = this.__userService.getLinkedToken();
 
 			const { title, body } = message.data;
@@ -614,7 +668,7 @@ export class MainViewProvider implements WebviewViewProvider {
 		revertToPrevExecutionIfInvalid: boolean;
 		fromVSCodeCommand?: boolean;
 	}) => {
-		if (this.__rootUri === null) {
+		if (getWorkspaceFolderPaths().length === 0) {
 			window.showWarningMessage('No active workspace is found.');
 			return;
 		}
@@ -1,4 +1,5 @@
 import type { CaseHash } from '../../cases/types';
+import type { JobHunk } from '../../jobs/buildHunks';
 import type { JobKind } from '../../jobs/types';
 import type { JobHash } from './webviewEvents';
 
@@ -9,12 +10,16 @@ export type PanelViewProps =
 			caseHash: CaseHash;
 			jobHash: JobHash;
 			jobKind: JobKind;
+			oldContentHashDigest: string | null;
 			oldFileContent: string | null;
 			newFileContent: string | null;
 			originalNewFileContent: string | null;
 			oldFileTitle: string | null;
 			newFileTitle: string | null;
 			reviewed: boolean;
+			// empty for the changes that cannot be reviewed hunk by hunk
+			hunks: ReadonlyArray<JobHunk>;
+			rejectedHunkIndices: ReadonlyArray<number>;
 	  }>
 	| Readonly<{
 			kind: 'CODEMOD';
@@ -3,6 +3,7 @@ import { JobHash } from '../../jobs/types';
 export type { Command } from 'vscode';
 import { CodemodHash } from '../../packageJsonAnalyzer/types';
 import { CaseHash } from '../../cases/types';
+import { ExecutionId } from '../../executionQueue/types';
 import { CodemodNodeHashDigest } from '../../selectors/selectCodemodTree';
 import { PanelViewProps } from './panelViewProps';
 import { _ExplorerNodeHashDigest } from '../../persistedState/explorerNodeCodec';
@@ -41,13 +42,17 @@ export type WebviewMessage =
 	  }>
 	| Readonly<{
 			kind: 'webview.global.setCodemodExecutionProgress';
-			codemodHash: CodemodHash;
+			executionId: ExecutionId;
+			codemodHash: CodemodHash | null;
+			codemodName: string;
+			caseHashDigest: CaseHash;
 			progressKind: 'finite' | 'infinite';
 			totalFileNumber: number;
 			processedFileNumber: number;
 	  }>
 	| Readonly<{
 			kind: 'webview.global.codemodExecutionHalted';
+			executionId: ExecutionId;
 	  }>;
 
 export type WebviewResponse =
@@ -166,13 +171,19 @@ export type WebviewResponse =
 	  }>
 	| Readonly<{
 			kind: 'webview.codemodList.haltCodemodExecution';
+			executionId: ExecutionId;
 	  }>
 	| Readonly<{
 			kind: 'webview.codemodList.codemodPathChange';
 			codemodPath: string;
 	  }>
 	| Readonly<{
-			kind: 'webview.campaignManager.setSelectedCaseHash';
+			kind:
+				| 'webview.campaignManager.setSelectedCaseHash'
+				| 'webview.campaignManager.undoAppliedCase'
+				| 'webview.campaignManager.exportCaseAsPatch'
+				| 'webview.campaignManager.exportCaseReport'
+				| 'webview.campaignManager.rerunCase';
 			caseHash: CaseHash;
 	  }>
 	| Readonly<{
@@ -183,11 +194,23 @@ export type WebviewResponse =
 			kind: 'webview.global.flipCodemodHashDigest';
 			codemodNodeHashDigest: CodemodNodeHashDigest;
 	  }>
+	| Readonly<{
+			kind:
+				| 'webview.global.forceApplyJob'
+				| 'webview.global.rerunCodemodOnJobFile'
+				| 'webview.global.mergeStaleJob';
+			jobHash: JobHash;
+	  }>
 	| Readonly<{
 			kind: 'webview.panel.contentModified';
 			jobHash: JobHash;
 			newContent: string;
 	  }>
+	| Readonly<{
+			kind: 'webview.jobDiffView.setRejectedHunks';
+			jobHash: JobHash;
+			hunkIndices: ReadonlyArray<number>;
+	  }>
 	| Readonly<{
 			kind:
 				| 'webview.global.collapseResultsPanel'
@@ -15,15 +15,90 @@ export const getConfiguration = () => {
 		'**/node_modules/**/*.*',
 	];
 
+	// in seconds, 0 turns the timeout off
+	const idleTimeout = configuration.get<number>('idleTimeout') ?? 30;
+
+	const executionTimeout = configuration.get<number>('executionTimeout') ?? 0;
+
+	const fileTimeout = configuration.get<number>('fileTimeout') ?? 0;
+
+	// at least one execution has to run for the queue to progress
+	const maxConcurrentExecutions = Math.max(
+		configuration.get<number>('maxConcurrentExecutions') ?? 1,
+		1,
+	);
+
 	const formatWithPrettier =
 		configuration.get<boolean>('formatWithPrettier') ?? false;
 
+	const applyMode =
+		configuration.get<'fileSystem' | 'workspaceEdit'>('applyMode') ??
+		'fileSystem';
+
+	// validated when building the engine adapters
+	const engineAdapters =
+		configuration.get<ReadonlyArray<unknown>>('engineAdapters') ?? [];
+
+	// no network requests at all, e.g. in air-gapped environments
+	const offlineMode = configuration.get<boolean>('offlineMode') ?? false;
+
+	const codemodEngineNodeExecutablePath =
+		configuration.get<string | null>('codemodEngineNodeExecutablePath') ??
+		null;
+
+	const codemodEngineRustExecutablePath =
+		configuration.get<string | null>('codemodEngineRustExecutablePath') ??
+		null;
+
+	// the certificate authorities trusted in addition to the default ones, e.g. of a corporate proxy
+	const caCertificatePaths =
+		configuration.get<ReadonlyArray<string>>('caCertificatePaths') ?? [];
+
+	// the versions pinned in the workspace, the latest ones are used otherwise
+	const codemodEngineNodeVersion =
+		configuration.get<string | null>('codemodEngineNodeVersion') ?? null;
+
+	const codemodEngineRustVersion =
+		configuration.get<string | null>('codemodEngineRustVersion') ?? null;
+
+	// the applied changes of a case are committed on a branch built out of the template
+	const postApplyGitWorkflow =
+		configuration.get<boolean>('postApplyGitWorkflow') ?? false;
+
+	const gitBranchNameTemplate =
+		configuration.get<string>('gitBranchNameTemplate') ||
+		'codemods/${codemodName}';
+
+	// the codemods run in a temporary worktree at HEAD instead of the working copy
+	const executeInGitWorktree =
+		configuration.get<boolean>('executeInGitWorktree') ?? false;
+
+	// the shell commands run in order after applying, e.g. the linters and the type-check
+	const postApplyHooks =
+		configuration.get<ReadonlyArray<string>>('postApplyHooks') ?? [];
+
 	return {
 		fileLimit,
 		workerThreadCount,
 		includePatterns,
 		excludePatterns,
 		formatWithPrettier,
+		applyMode,
+		idleTimeout,
+		executionTimeout,
+		fileTimeout,
+		maxConcurrentExecutions,
+		engineAdapters,
+		offlineMode,
+		codemodEngineNodeExecutablePath,
+		codemodEngineRustExecutablePath,
+		codemodEngineNodeVersion,
+		codemodEngineRustVersion,
+		caCertificatePaths,
+		postApplyGitWorkflow,
+		gitBranchNameTemplate,
+		executeInGitWorktree,
+		postApplyHooks,
 	};
 };
 
@@ -52,6 +52,16 @@ export type PiranhaLanguage = S.Schema.To<typeof piranhaLanguageSchema>;
 
 export const parsePiranhaLanguage = S.parseSync(piranhaLanguageSchema);
 
+// the invalid configurations of these engines must not pass as the ones of the other engines
+const BUILT_IN_ENGINES: ReadonlyArray<string> = [
+	'piranha',
+	'jscodeshift',
+	'ts-morph',
+	'filemod',
+	'repomod-engine',
+	'recipe',
+];
+
 export const codemodConfigSchema = S.union(
 	S.struct({
 		schemaVersion: S.literal('1.0.0'),
@@ -85,6 +95,14 @@ export const codemodConfigSchema = S.union(
 		names: S.array(S.string),
 		arguments: S.optional(argumentsSchema),
 	}),
+	// the engines of the adapters registered in the settings or by other extensions
+	S.struct({
+		schemaVersion: S.literal('1.0.0'),
+		engine: S.string.pipe(
+			S.filter((engine) => !BUILT_IN_ENGINES.includes(engine)),
+		),
+		arguments: S.optional(argumentsSchema),
+	}),
 );
 
 export const parseCodemodConfigSchema = S.parseSync(codemodConfigSchema);
@@ -8,6 +8,7 @@ import EventEmitter from 'events';
 import { MessageBus, MessageKind } from '../components/messageBus';
 import { Store } from '.';
 import { actions } from './slice';
+import { findRootPath, getWorkspaceFolderPaths } from '../workspaceFolders';
 import {
 	CaseReadingService,
 	JOB_KIND,
@@ -89,7 +90,7 @@ const buildPartialJob = (
 
 const readHomeDirectoryCase = async (
 	homeDirectoryEventEmitter: HomeDirectoryEventEmitter,
-	rootUri: Uri,
+	rootPaths: ReadonlyArray<string>,
 	codemodEntities: Record<string, CodemodEntry | undefined>,
 	caseDataPath: string,
 ) => {
@@ -98,9 +99,12 @@ const readHomeDirectoryCase = async (
 	let kase: Case | null = null;
 
 	caseReadingService.once('case', (surfaceAgnosticCase) => {
-		if (
-			!surfaceAgnosticCase.absoluteTargetPath.startsWith(rootUri.fsPath)
-		) {
+		const rootPath = findRootPath(
+			rootPaths,
+			surfaceAgnosticCase.absoluteTargetPath,
+		);
+
+		if (rootPath === null) {
 			console.info(
 				'The current case does not belong to the opened workspace',
 			);
@@ -124,6 +128,13 @@ const readHomeDirectoryCase = async (
 			codemodHashDigest: surfaceAgnosticCase.codemodHashDigest,
 			createdAt: Number(surfaceAgnosticCase.createdAt),
 			path: surfaceAgnosticCase.absoluteTargetPath,
+			rootPath,
+			codemodArguments: [],
+			engineVersion: null,
+			command: null,
+			executionSettings: null,
+			targetUriIsDirectory: null,
+			worktree: null,
 		};
 
 		homeDirectoryEventEmitter.emit('job', kase, []);
@@ -145,6 +156,9 @@ const readHomeDirectoryCase = async (
 		const job: Job = {
 			hash: surfaceAgnosticJob.jobHashDigest,
 			originalNewContent: null,
+			// the CLI does not record the input files
+			oldContentHashDigest: null,
+			oldContentUri: null,
 			codemodName: kase.codemodName,
 			createdAt: kase.createdAt,
 			caseHashDigest: kase.hash,
@@ -203,7 +217,7 @@ const readHomeDirectoryCase = async (
 };
 
 export const readSingleHomeDirectoryCase = async (
-	rootUri: Uri,
+	rootPaths: ReadonlyArray<string>,
 	codemodEntities: Record<string, CodemodEntry | undefined>,
 	caseHashDigest: CaseHash,
 ) => {
@@ -221,7 +235,7 @@ export const readSingleHomeDirectoryCase = async (
 		try {
 			await readHomeDirectoryCase(
 				eventEmitter,
-				rootUri,
+				rootPaths,
 				codemodEntities,
 				path,
 			);
@@ -236,10 +250,10 @@ export const readSingleHomeDirectoryCase = async (
 };
 
 export const readHomeDirectoryCases = async (
-	rootUri: Uri,
+	rootPaths: ReadonlyArray<string>,
 	codemodEntities: Record<string, CodemodEntry | undefined>,
 ): Promise<HomeDirectoryEventEmitter | null> => {
-	if (rootUri === null) {
+	if (rootPaths.length === 0) {
 		return null;
 	}
 
@@ -261,7 +275,7 @@ export const readHomeDirectoryCases = async (
 				caseDataPaths.map((path) =>
 					readHomeDirectoryCase(
 						eventEmitter,
-						rootUri,
+						rootPaths,
 						codemodEntities,
 						path,
 					),
@@ -287,15 +301,10 @@ export class HomeDirectoryService {
 	public constructor(
 		private readonly __messageBus: MessageBus,
 		private readonly __store: Store,
-		private readonly __rootUri: Uri | null,
 	) {
 		__messageBus.subscribe(MessageKind.loadHomeDirectoryData, async () => {
-			if (!this.__rootUri) {
-				return;
-			}
-
 			const eventEmitter = await readHomeDirectoryCases(
-				this.__rootUri,
+				getWorkspaceFolderPaths(),
 				this.__store.getState().codemod.entities,
 			);
 
@@ -325,12 +334,14 @@ export class HomeDirectoryService {
 	}
 
 	private async __handleLoadHomeDirectoryCase(caseHashDigest: CaseHash) {
-		if (!this.__rootUri) {
+		const rootPaths = getWorkspaceFolderPaths();
+
+		if (rootPaths.length === 0) {
 			return;
 		}
 
 		const eventEmitter = await readSingleHomeDirectoryCase(
-			this.__rootUri,
+			rootPaths,
 			this.__store.getState().codemod.entities,
 			caseHashDigest,
 		);
@@ -5,13 +5,14 @@ import {
 	PayloadAction,
 } from '@reduxjs/toolkit';
 
-import * as vscode from 'vscode';
-
 import { CodemodEntry, PrivateCodemodEntry } from '../codemods/types';
 import { ExecutionError } from '../errors/types';
 import { CodemodHash, JobHash } from '../components/webview/webviewEvents';
 import { Case, CaseHash } from '../cases/types';
 import { PersistedJob } from '../jobs/types';
+import { AppliedCase } from '../appliedCases/types';
+import { JobOutcome } from '../caseReports/types';
+import { ExecutionId, QueuedExecution } from '../executionQueue/types';
 import {
 	ActiveTabId,
 	panelGroupSettingsCodec,
@@ -24,6 +25,7 @@ import {
 import { CodemodNodeHashDigest } from '../selectors/selectCodemodTree';
 import { _ExplorerNodeHashDigest } from '../persistedState/explorerNodeCodec';
 import { buildHash, findParentExplorerNode } from '../utilities';
+import { getWorkspaceFolderPaths } from '../workspaceFolders';
 
 const SLICE_KEY = 'root';
 
@@ -53,6 +55,12 @@ export const getInitialState = (): RootState => {
 		lastCodemodHashDigests: [],
 		executionErrors: {},
 		caseHashJobHashes: [],
+		staleJobHashes: [],
+		rejectedHunks: {},
+		appliedCases: {},
+		jobOutcomes: [],
+		executionQueue: [],
+		executionQueuePaused: false,
 		codemodRunsTab: {
 			resultsCollapsed: false,
 			changeExplorerCollapsed: false,
@@ -80,7 +88,7 @@ export const getInitialState = (): RootState => {
 		sourceControl: {
 			kind: 'IDLENESS',
 		},
-		caseHashInProgress: null,
+		caseHashesInProgress: [],
 		applySelectedInProgress: false,
 		activeTabId: 'codemods',
 		explorerSearchPhrases: {},
@@ -124,6 +132,13 @@ const rootSlice = createSlice({
 					),
 			);
 
+			// the outcomes of the applied cases are kept for their reports
+			state.jobOutcomes = state.jobOutcomes.filter(
+				({ caseHash }) =>
+					!action.payload.includes(caseHash) ||
+					caseHash in state.appliedCases,
+			);
+
 			for (const caseHash of action.payload) {
 				state.executionErrors[caseHash] = [];
 
@@ -142,6 +157,35 @@ const rootSlice = createSlice({
 		upsertJobs(state, action: PayloadAction<ReadonlyArray<PersistedJob>>) {
 			jobAdapter.upsertMany(state.job, action.payload);
 		},
+		upsertAppliedCase(state, action: PayloadAction<AppliedCase>) {
+			const { kase, jobs, snapshotEntries, appliedAt } = action.payload;
+
+			state.appliedCases[kase.hash] = {
+				kase: {
+					...kase,
+					codemodArguments: [...kase.codemodArguments],
+				},
+				jobs: [...jobs],
+				snapshotEntries: [...snapshotEntries],
+				appliedAt,
+			};
+		},
+		removeAppliedCase(state, action: PayloadAction<CaseHash>) {
+			delete state.appliedCases[action.payload];
+
+			state.jobOutcomes = state.jobOutcomes.filter(
+				({ caseHash }) =>
+					caseHash !== action.payload ||
+					action.payload in state.case.entities,
+			);
+
+			if (
+				state.codemodRunsTab.selectedCaseHash === action.payload &&
+				(state.case.entities[action.payload] ?? null) === null
+			) {
+				state.codemodRunsTab.selectedCaseHash = null;
+			}
+		},
 		clearState(state) {
 			state.clearingInProgress = true;
 
@@ -150,8 +194,12 @@ const rootSlice = createSlice({
 
 			state.executionErrors = {};
 			state.caseHashJobHashes = [];
+			state.staleJobHashes = [];
+			state.rejectedHunks = {};
+			state.appliedCases = {};
+			state.jobOutcomes = [];
 			state.codemodRunsTab.selectedCaseHash = null;
-			state.caseHashInProgress = null;
+			state.caseHashesInProgress = [];
 
 			state.explorerSearchPhrases = {};
 			state.selectedExplorerNodes = {};
@@ -280,9 +328,107 @@ const rootSlice = createSlice({
 			);
 
 			state.caseHashJobHashes = caseHashJobHashes;
+			state.staleJobHashes = state.staleJobHashes.filter(
+				(jobHash) => !jobHashes.includes(jobHash),
+			);
+
+			for (const jobHash of jobHashes) {
+				delete state.rejectedHunks[jobHash];
+			}
+		},
+		setRejectedHunks(
+			state,
+			action: PayloadAction<{
+				jobHash: JobHash;
+				hunkIndices: ReadonlyArray<number>;
+			}>,
+		) {
+			const { jobHash, hunkIndices } = action.payload;
+
+			if (hunkIndices.length === 0) {
+				delete state.rejectedHunks[jobHash];
+				return;
+			}
+
+			state.rejectedHunks[jobHash] = [...hunkIndices];
 		},
-		setCaseHashInProgress(state, action: PayloadAction<CaseHash | null>) {
-			state.caseHashInProgress = action.payload;
+		addJobOutcomes(
+			state,
+			action: PayloadAction<ReadonlyArray<JobOutcome>>,
+		) {
+			const jobHashes = action.payload.map(({ jobHash }) => jobHash);
+
+			state.jobOutcomes = [
+				...state.jobOutcomes.filter(
+					({ jobHash }) => !jobHashes.includes(jobHash),
+				),
+				...action.payload,
+			];
+		},
+		enqueueExecution(state, action: PayloadAction<QueuedExecution>) {
+			state.executionQueue = [...state.executionQueue, action.payload];
+		},
+		removeQueuedExecution(state, action: PayloadAction<ExecutionId>) {
+			state.executionQueue = state.executionQueue.filter(
+				({ executionId }) => executionId !== action.payload,
+			);
+		},
+		moveQueuedExecution(
+			state,
+			action: PayloadAction<{
+				executionId: ExecutionId;
+				// -1 moves the execution one place closer to the start
+				offset: -1 | 1;
+			}>,
+		) {
+			const { executionId, offset } = action.payload;
+
+			const index = state.executionQueue.findIndex(
+				(queuedExecution) =>
+					queuedExecution.executionId === executionId,
+			);
+			const queuedExecution = state.executionQueue[index];
+			const otherQueuedExecution = state.executionQueue[index + offset];
+
+			if (
+				queuedExecution === undefined ||
+				otherQueuedExecution === undefined
+			) {
+				return;
+			}
+
+			state.executionQueue[index] = otherQueuedExecution;
+			state.executionQueue[index + offset] = queuedExecution;
+		},
+		setExecutionQueuePaused(state, action: PayloadAction<boolean>) {
+			state.executionQueuePaused = action.payload;
+		},
+		removeJobOutcomes(
+			state,
+			action: PayloadAction<ReadonlyArray<JobHash>>,
+		) {
+			state.jobOutcomes = state.jobOutcomes.filter(
+				({ jobHash }) => !action.payload.includes(jobHash),
+			);
+		},
+		setStaleJobHashes(
+			state,
+			action: PayloadAction<ReadonlyArray<JobHash>>,
+		) {
+			state.staleJobHashes = [...action.payload];
+		},
+		addCaseHashInProgress(state, action: PayloadAction<CaseHash>) {
+			state.caseHashesInProgress = [
+				...state.caseHashesInProgress.filter(
+					(caseHash) => caseHash !== action.payload,
+				),
+				action.payload,
+			];
+		},
+		removeCaseHashInProgress(state, action: PayloadAction<CaseHash>) {
+			state.caseHashesInProgress = state.caseHashesInProgress.filter(
+				(caseHash) => caseHash !== action.payload,
+			);
 		},
 		setApplySelectedInProgress(state, action: PayloadAction<boolean>) {
 			state.applySelectedInProgress = action.payload;
@@ -352,7 +498,7 @@ const rootSlice = createSlice({
 				selectExplorerNodes(
 					state,
 					caseHash,
-					vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ?? '',
+					getWorkspaceFolderPaths(),
 				) ?? [];
 			const prevNodeData = selectNodeData(state, caseHash, explorerNodes);
 			const focused = state.focusedExplorerNodes[caseHash] ?? null;
@@ -393,15 +539,19 @@ const rootSlice = createSlice({
 			state.activeTabId = 'codemodRuns';
 			state.codemodRunsTab.changeExplorerCollapsed = false;
 		},
-		setExplorerNodes(state, action: PayloadAction<[CaseHash, string]>) {
-			const [caseHash, rootPath] = action.payload;
+		setExplorerNodes(state, action: PayloadAction<CaseHash>) {
+			const caseHash = action.payload;
 
 			state.applySelectedInProgress = false;
 
 			state.codemodRunsTab.selectedCaseHash = caseHash;
 
 			const explorerNodes =
-				selectExplorerNodes(state, caseHash, rootPath) ?? [];
+				selectExplorerNodes(
+					state,
+					caseHash,
+					getWorkspaceFolderPaths(),
+				) ?? [];
 
 			const kase = state.case.entities[caseHash] ?? null;
 
@@ -449,7 +599,7 @@ const rootSlice = createSlice({
 				selectExplorerNodes(
 					state,
 					caseHash,
-					vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ?? '',
+					getWorkspaceFolderPaths(),
 				) ?? [];
 
 			const index =
@@ -0,0 +1,86 @@
+import { execFile } from 'node:child_process';
+import { buildArguments } from '../components/buildArguments';
+import { decodeEngineMessage } from './engineMessages';
+import { EngineBinaryKind } from './engineVersions';
+import { BootstrappedEngine, EngineAdapter } from './types';
+
+// the engines executed by the codemod engine node
+export const CODEMOD_ENGINE_NODE_ENGINES = [
+	'jscodeshift',
+	'ts-morph',
+	'filemod',
+	'repomod-engine',
+	'recipe',
+] as const;
+
+export const PIRANHA_ENGINE = 'piranha';
+
+const HELP_TIMEOUT = 10000;
+
+// the help of each version of the executables is read once per session
+const fileTimeoutSupports = new Map<string, Promise<boolean>>();
+
+// the engines released before the per-file timeout reject the unknown options
+const doesEngineSupportFileTimeout = ({
+	executableUri,
+	version,
+}: BootstrappedEngine): Promise<boolean> => {
+	const key = `${executableUri.fsPath}@${version ?? ''}`;
+
+	const support =
+		fileTimeoutSupports.get(key) ??
+		new Promise<boolean>((resolve) => {
+			execFile(
+				executableUri.fsPath,
+				['--help'],
+				{ timeout: HELP_TIMEOUT },
+				(_error, stdout, stderr) => {
+					resolve(`${stdout}${stderr}`.includes('--fileTimeout'));
+				},
+			);
+		});
+
+	fileTimeoutSupports.set(key, support);
+
+	return support;
+};
+
+const buildBuiltInEngineAdapter = (
+	name: string,
+	getBootstrappedEngine: () => BootstrappedEngine | null,
+): EngineAdapter => ({
+	name,
+	resolveExecutableUri: async () =>
+		getBootstrappedEngine()?.executableUri ?? null,
+	resolveVersion: async () => getBootstrappedEngine()?.version ?? null,
+	supportsFileTimeout: async () => {
+		// the piranha rules are run without the per-file timeout
+		if (name === PIRANHA_ENGINE) {
+			return false;
+		}
+
+		const bootstrappedEngine = getBootstrappedEngine();
+
+		return (
+			bootstrappedEngine !== null &&
+			doesEngineSupportFileTimeout(bootstrappedEngine)
+		);
+	},
+	buildArguments,
+	decodeMessage: decodeEngineMessage,
+});
+
+export const buildBuiltInEngineAdapters = (
+	getBootstrappedEngine: (
+		kind: EngineBinaryKind,
+	) => BootstrappedEngine | null,
+): ReadonlyArray<EngineAdapter> => [
+	...CODEMOD_ENGINE_NODE_ENGINES.map((name) =>
+		buildBuiltInEngineAdapter(name, () =>
+			getBootstrappedEngine('codemodEngineNode'),
+		),
+	),
+	buildBuiltInEngineAdapter(PIRANHA_ENGINE, () =>
+		getBootstrappedEngine('codemodEngineRust'),
+	),
+];
@@ -0,0 +1,176 @@
+import * as t from 'io-ts';
+import prettyReporter from 'io-ts-reporters';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import { createHash } from 'node:crypto';
+import { Uri } from 'vscode';
+import { buildTypeCodec, singleQuotify } from '../utilities';
+import { decodeEngineMessage } from './engineMessages';
+import { EngineAdapter, EngineExecution } from './types';
+
+export class ScopedExecutionNotSupportedError extends Error {}
+
+const INCLUDE_PATH_PLACEHOLDER = '${includePath}';
+const EXCLUDE_PATH_PLACEHOLDER = '${excludePath}';
+
+const configuredEngineAdapterCodec = buildTypeCodec({
+	engine: t.string,
+	executablePath: t.string,
+	arguments: t.readonlyArray(t.string),
+});
+
+type ConfiguredEngineAdapter = t.TypeOf<typeof configuredEngineAdapterCodec>;
+
+const getCodemodDirectoryPath = ({ command }: EngineExecution): string =>
+	command.kind === 'executeLocalCodemod'
+		? command.codemodUri.fsPath
+		: join(
+				homedir(),
+				'.intuita',
+				createHash('ripemd160')
+					.update(command.name)
+					.digest('base64url'),
+		  );
+
+const buildPlaceholderValues = (
+	execution: EngineExecution,
+): Readonly<Record<string, string>> => ({
+	targetPath: execution.targetUri.fsPath,
+	outputDirectoryPath: execution.outputUri.fsPath,
+	codemodName: execution.command.name,
+	codemodDirectoryPath: getCodemodDirectoryPath(execution),
+	fileTimeout: String(execution.configuration.fileTimeout),
+});
+
+// the files to process, like the built-in engines take them
+const buildIncludePaths = ({
+	targetUri,
+	targetUriIsDirectory,
+	includedUris,
+	configuration,
+}: EngineExecution): ReadonlyArray<string> => {
+	if (includedUris !== null) {
+		return includedUris.map(({ fsPath }) => fsPath);
+	}
+
+	if (!targetUriIsDirectory) {
+		return [targetUri.fsPath];
+	}
+
+	return configuration.includePatterns.map(
+		(includePattern) => Uri.joinPath(targetUri, includePattern).fsPath,
+	);
+};
+
+const buildExcludePaths = ({
+	targetUri,
+	targetUriIsDirectory,
+	includedUris,
+	configuration,
+}: EngineExecution): ReadonlyArray<string> =>
+	includedUris === null && targetUriIsDirectory
+		? configuration.excludePatterns.map(
+				(excludePattern) =>
+					Uri.joinPath(targetUri, excludePattern).fsPath,
+		  )
+		: [];
+
+const fillPlaceholders = (
+	template: string,
+	placeholderValues: Readonly<Record<string, string>>,
+): string =>
+	template.replace(
+		/\$\{(\w+)\}/g,
+		(placeholder, name: string) => placeholderValues[name] ?? placeholder,
+	);
+
+// the arguments with the ${includePath} or ${excludePath} placeholders are repeated for each path
+const expandArgumentTemplate = (
+	template: string,
+	placeholderValues: Readonly<Record<string, string>>,
+	includePaths: ReadonlyArray<string>,
+	excludePaths: ReadonlyArray<string>,
+): ReadonlyArray<string> => {
+	if (template.includes(INCLUDE_PATH_PLACEHOLDER)) {
+		return includePaths.map((includePath) =>
+			fillPlaceholders(template, { ...placeholderValues, includePath }),
+		);
+	}
+
+	if (template.includes(EXCLUDE_PATH_PLACEHOLDER)) {
+		return excludePaths.map((excludePath) =>
+			fillPlaceholders(template, { ...placeholderValues, excludePath }),
+		);
+	}
+
+	return [fillPlaceholders(template, placeholderValues)];
+};
+
+const buildConfiguredEngineAdapter = ({
+	engine,
+	executablePath,
+	arguments: argumentTemplates,
+}: ConfiguredEngineAdapter): EngineAdapter => ({
+	name: engine,
+	resolveExecutableUri: async () => Uri.file(executablePath),
+	resolveVersion: async () => null,
+	buildArguments: (execution) => {
+		// otherwise the executable would process the whole target instead of the selected files
+		if (
+			execution.includedUris !== null &&
+			!argumentTemplates.some((template) =>
+				template.includes(INCLUDE_PATH_PLACEHOLDER),
+			)
+		) {
+			throw new ScopedExecutionNotSupportedError(
+				`The executable of the "${engine}" engine cannot be limited to the selected files. Add the ${INCLUDE_PATH_PLACEHOLDER} placeholder to its arguments in the intuita.engineAdapters setting.`,
+			);
+		}
+
+		const placeholderValues = buildPlaceholderValues(execution);
+		const includePaths = buildIncludePaths(execution);
+		const excludePaths = buildExcludePaths(execution);
+
+		const args = argumentTemplates
+			.flatMap((template) =>
+				expandArgumentTemplate(
+					template,
+					placeholderValues,
+					includePaths,
+					excludePaths,
+				),
+			)
+			.map(singleQuotify);
+
+		const { command } = execution;
+
+		const codemodArguments =
+			command.kind !== 'executeLocalCodemod'
+				? (command.arguments ?? []).flatMap(({ name, value }) => [
+						`--arg:${name}`,
+						singleQuotify(String(value)),
+				  ])
+				: [];
+
+		return [...args, ...codemodArguments];
+	},
+	decodeMessage: decodeEngineMessage,
+});
+
+/**
+ * Builds the adapters out of the `intuita.engineAdapters` setting,
+ * skipping the invalid entries.
+ */
+export const buildConfiguredEngineAdapters = (
+	engineAdapters: ReadonlyArray<unknown>,
+): ReadonlyArray<EngineAdapter> =>
+	engineAdapters.flatMap((engineAdapter) => {
+		const validation = configuredEngineAdapterCodec.decode(engineAdapter);
+
+		if (validation._tag === 'Left') {
+			console.error(prettyReporter.report(validation));
+			return [];
+		}
+
+		return [buildConfiguredEngineAdapter(validation.right)];
+	});
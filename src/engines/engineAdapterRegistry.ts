@@ -0,0 +1,64 @@
+import { Disposable, workspace } from 'vscode';
+import { Configuration } from '../configuration';
+import { Container } from '../container';
+import { buildConfiguredEngineAdapters } from './configuredEngineAdapters';
+import { Command } from '../components/messageBus';
+import { PIRANHA_ENGINE } from './builtInEngineAdapters';
+import { EngineAdapter } from './types';
+
+export const getCommandEngine = (command: Command): string => {
+	if (command.kind === 'executePiranhaRule') {
+		return PIRANHA_ENGINE;
+	}
+
+	// the local codemods are written for jscodeshift
+	if (command.kind === 'executeLocalCodemod') {
+		return 'jscodeshift';
+	}
+
+	return command.engine;
+};
+
+export class EngineAdapterRegistry {
+	private __builtInAdapters: ReadonlyArray<EngineAdapter> = [];
+	private readonly __registeredAdapters = new Map<string, EngineAdapter>();
+
+	public constructor(
+		private readonly __configurationContainer: Container<Configuration>,
+	) {}
+
+	public setBuiltInAdapters(adapters: ReadonlyArray<EngineAdapter>) {
+		this.__builtInAdapters = adapters;
+	}
+
+	/**
+	 * Registers the adapter on behalf of another extension.
+	 * The adapter replaces any built-in adapter with the same name until disposed.
+	 */
+	public register(adapter: EngineAdapter): Disposable {
+		this.__registeredAdapters.set(adapter.name, adapter);
+
+		return new Disposable(() => {
+			if (this.__registeredAdapters.get(adapter.name) === adapter) {
+				this.__registeredAdapters.delete(adapter.name);
+			}
+		});
+	}
+
+	// the settings take precedence over the other extensions, and those over the built-in adapters
+	public get(engine: string): EngineAdapter | null {
+		// the executables of the settings are spawned through a shell
+		const configuredAdapters = workspace.isTrusted
+			? buildConfiguredEngineAdapters(
+					this.__configurationContainer.get().engineAdapters,
+			  )
+			: [];
+
+		return (
+			configuredAdapters.find(({ name }) => name === engine) ??
+			this.__registeredAdapters.get(engine) ??
+			this.__builtInAdapters.find(({ name }) => name === engine) ??
+			null
+		);
+	}
+}
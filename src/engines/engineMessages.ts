@@ -0,0 +1,188 @@
+import * as t from 'io-ts';
+import prettyReporter from 'io-ts-reporters';
+import { ExecutionError, executionErrorCodec } from '../errors/types';
+import { buildTypeCodec } from '../utilities';
+
+export const enum EngineMessageKind {
+	finish = 2,
+	rewrite = 3,
+	progress = 6,
+	delete = 7,
+	move = 8,
+	create = 9,
+	copy = 10,
+}
+
+export const messageCodec = t.union([
+	buildTypeCodec({
+		k: t.literal(EngineMessageKind.rewrite),
+		i: t.string,
+		o: t.string,
+	}),
+	buildTypeCodec({
+		k: t.literal(EngineMessageKind.finish),
+	}),
+	buildTypeCodec({
+		k: t.literal(EngineMessageKind.progress),
+		p: t.number,
+		t: t.number,
+	}),
+	buildTypeCodec({
+		k: t.literal(EngineMessageKind.delete),
+		oldFilePath: t.string,
+	}),
+	buildTypeCodec({
+		k: t.literal(EngineMessageKind.move),
+		oldFilePath: t.string,
+		newFilePath: t.string,
+	}),
+	buildTypeCodec({
+		k: t.literal(EngineMessageKind.create),
+		newFilePath: t.string,
+		newContentPath: t.string,
+	}),
+	buildTypeCodec({
+		k: t.literal(EngineMessageKind.copy),
+		oldFilePath: t.string,
+		newFilePath: t.string,
+	}),
+	buildTypeCodec({
+		kind: t.literal('rewrite'),
+		oldPath: t.string,
+		newDataPath: t.string,
+	}),
+	buildTypeCodec({
+		kind: t.literal('finish'),
+	}),
+	buildTypeCodec({
+		kind: t.literal('progress'),
+		processedFileNumber: t.number,
+		totalFileNumber: t.number,
+	}),
+	buildTypeCodec({
+		kind: t.literal('delete'),
+		oldFilePath: t.string,
+	}),
+	buildTypeCodec({
+		kind: t.literal('move'),
+		oldFilePath: t.string,
+		newFilePath: t.string,
+	}),
+	buildTypeCodec({
+		kind: t.literal('create'),
+		newFilePath: t.string,
+		newContentPath: t.string,
+	}),
+	buildTypeCodec({
+		kind: t.literal('copy'),
+		oldFilePath: t.string,
+		newFilePath: t.string,
+	}),
+]);
+
+type EngineMessage = t.TypeOf<typeof messageCodec>;
+
+export type VerboseEngineMessage = Exclude<EngineMessage, { k: unknown }>;
+
+export const verboseEngineMessage = (
+	message: EngineMessage,
+): VerboseEngineMessage => {
+	if (!('k' in message)) {
+		return message;
+	}
+
+	if (message.k === EngineMessageKind.rewrite) {
+		return {
+			kind: 'rewrite',
+			oldPath: message.i,
+			newDataPath: message.o,
+		};
+	}
+
+	if (message.k === EngineMessageKind.finish) {
+		return {
+			kind: 'finish',
+		};
+	}
+
+	if (message.k === EngineMessageKind.progress) {
+		return {
+			kind: 'progress',
+			processedFileNumber: message.p,
+			totalFileNumber: message.t,
+		};
+	}
+
+	if (message.k === EngineMessageKind.delete) {
+		return {
+			kind: 'delete',
+			oldFilePath: message.oldFilePath,
+		};
+	}
+
+	if (message.k === EngineMessageKind.move) {
+		return {
+			kind: 'move',
+			oldFilePath: message.oldFilePath,
+			newFilePath: message.newFilePath,
+		};
+	}
+
+	if (message.k === EngineMessageKind.create) {
+		return {
+			kind: 'create',
+			newFilePath: message.newFilePath,
+			newContentPath: message.newContentPath,
+		};
+	}
+
+	return {
+		kind: 'copy',
+		oldFilePath: message.oldFilePath,
+		newFilePath: message.newFilePath,
+	};
+};
+
+/**
+ * Decodes a line of the standard output of an engine,
+ * returns null for the lines that are not engine messages.
+ */
+export const decodeEngineMessage = (
+	line: string,
+): VerboseEngineMessage | null => {
+	let json: unknown;
+
+	try {
+		json = JSON.parse(line);
+	} catch (error) {
+		console.error(error);
+		return null;
+	}
+
+	const either = messageCodec.decode(json);
+
+	if (either._tag === 'Left') {
+		console.error(prettyReporter.report(either));
+		return null;
+	}
+
+	return verboseEngineMessage(either.right);
+};
+
+/**
+ * Decodes a line of the standard error of an engine.
+ * Returns null for the lines that are not diagnostics, e.g. the logs of the codemods.
+ */
+export const decodeExecutionError = (line: string): ExecutionError | null => {
+	let json: unknown;
+
+	try {
+		json = JSON.parse(line);
+	} catch (error) {
+		return null;
+	}
+
+	const either = executionErrorCodec.decode(json);
+
+	return either._tag === 'Right' ? either.right : null;
+};
@@ -0,0 +1,149 @@
+import { FileSystem, FileSystemError, FileType, Uri } from 'vscode';
+
+export type EngineBinaryKind = 'codemodEngineNode' | 'codemodEngineRust';
+
+export type EngineBinary = Readonly<{
+	kind: EngineBinaryKind;
+	label: string;
+	executableBaseName: string;
+	url: string;
+	// the settings of the locally provided executable and of the pinned version
+	pathSettingName: `${EngineBinaryKind}ExecutablePath`;
+	versionSettingName: `${EngineBinaryKind}Version`;
+}>;
+
+const ENGINES_DIRECTORY_NAME = 'engines';
+
+const getPlatform = (): string =>
+	process.platform === 'darwin'
+		? 'macos'
+		: encodeURIComponent(process.platform);
+
+export const buildEngineBinaries = (): ReadonlyArray<EngineBinary> => {
+	const platform = getPlatform();
+
+	const codemodEngineNodeBaseName = `intuita-${platform}`;
+	const codemodEngineRustBaseName = `codemod-engine-rust-${platform}`;
+
+	return [
+		{
+			kind: 'codemodEngineNode',
+			label: 'Codemod Engine Node',
+			executableBaseName: codemodEngineNodeBaseName,
+			url: `https://intuita-public.s3.us-west-1.amazonaws.com/intuita/${codemodEngineNodeBaseName}`,
+			pathSettingName: 'codemodEngineNodeExecutablePath',
+			versionSettingName: 'codemodEngineNodeVersion',
+		},
+		{
+			kind: 'codemodEngineRust',
+			label: 'Codemod Engine Rust',
+			executableBaseName: codemodEngineRustBaseName,
+			url: `https://intuita-public.s3.us-west-1.amazonaws.com/codemod-engine-rust/${codemodEngineRustBaseName}`,
+			pathSettingName: 'codemodEngineRustExecutablePath',
+			versionSettingName: 'codemodEngineRustVersion',
+		},
+	];
+};
+
+/**
+ * Builds the version out of the last modification time of the published binary,
+ * e.g. 20231019T120000Z, so the versions sort chronologically.
+ */
+export const buildEngineVersion = (modificationTime: number): string =>
+	new Date(modificationTime)
+		.toISOString()
+		.replace(/\.\d+/, '')
+		.replace(/[-:]/g, '');
+
+export const getVersionedExecutableUri = (
+	globalStorageUri: Uri,
+	{ executableBaseName }: EngineBinary,
+	version: string,
+): Uri =>
+	Uri.joinPath(
+		globalStorageUri,
+		ENGINES_DIRECTORY_NAME,
+		executableBaseName,
+		version,
+		executableBaseName,
+	);
+
+// kept outside of the version directory, so the interrupted downloads never count as installed
+export const getVersionDownloadUri = (
+	globalStorageUri: Uri,
+	{ executableBaseName }: EngineBinary,
+	version: string,
+): Uri =>
+	Uri.joinPath(
+		globalStorageUri,
+		ENGINES_DIRECTORY_NAME,
+		executableBaseName,
+		`${version}.download`,
+	);
+
+// the binaries downloaded before the versioned storage
+export const getLegacyExecutableUri = (
+	globalStorageUri: Uri,
+	{ executableBaseName }: EngineBinary,
+): Uri => Uri.joinPath(globalStorageUri, executableBaseName);
+
+const doesFileExist = async (
+	fileSystem: FileSystem,
+	uri: Uri,
+): Promise<boolean> => {
+	try {
+		await fileSystem.stat(uri);
+
+		return true;
+	} catch (error) {
+		if (error instanceof FileSystemError) {
+			return false;
+		}
+
+		throw error;
+	}
+};
+
+/**
+ * Lists the downloaded versions of the binary, starting with the newest one.
+ * The version directories without the executable (e.g. left by the failed downloads) are skipped.
+ */
+export const listInstalledEngineVersions = async (
+	fileSystem: FileSystem,
+	globalStorageUri: Uri,
+	engineBinary: EngineBinary,
+): Promise<ReadonlyArray<string>> => {
+	let entries: ReadonlyArray<[string, FileType]>;
+
+	try {
+		entries = await fileSystem.readDirectory(
+			Uri.joinPath(
+				globalStorageUri,
+				ENGINES_DIRECTORY_NAME,
+				engineBinary.executableBaseName,
+			),
+		);
+	} catch (error) {
+		if (error instanceof FileSystemError) {
+			return [];
+		}
+
+		throw error;
+	}
+
+	const versions: string[] = [];
+
+	for (const [name, fileType] of entries) {
+		if (
+			fileType === FileType.Directory &&
+			(await doesFileExist(
+				fileSystem,
+				getVersionedExecutableUri(globalStorageUri, engineBinary, name),
+			))
+		) {
+			versions.push(name);
+		}
+	}
+
+	return versions.sort().reverse();
+};
@@ -0,0 +1,37 @@
+import type { Uri } from 'vscode';
+import type { Configuration } from '../configuration';
+import type { Command } from '../components/messageBus';
+import type { VerboseEngineMessage } from './engineMessages';
+
+export type EngineExecution = Readonly<{
+	command: Command;
+	targetUri: Uri;
+	targetUriIsDirectory: boolean;
+	// the files within the target the execution is limited to, null for all of them
+	includedUris: ReadonlyArray<Uri> | null;
+	// the directory for the new contents of the files
+	outputUri: Uri;
+	configuration: Configuration;
+}>;
+
+export type BootstrappedEngine = Readonly<{
+	executableUri: Uri;
+	// null for the locally provided executables and the ones downloaded before the versioning
+	version: string | null;
+}>;
+
+export type EngineAdapter = Readonly<{
+	// the `engine` field of the codemod configurations that the adapter executes
+	name: string;
+	// returns null if the executable is not available (yet)
+	resolveExecutableUri(): Promise<Uri | null>;
+	// recorded on the cases, optional for the adapters registered before the versioning
+	resolveVersion?(): Promise<string | null>;
+	// the per-file timeout is left out for the engines without its support,
+	// optional for the adapters passing it on their own
+	supportsFileTimeout?(): Promise<boolean>;
+	// the arguments are passed to a shell, so they need quoting
+	buildArguments(execution: EngineExecution): ReadonlyArray<string>;
+	// returns null for the lines of the standard output that should be skipped
+	decodeMessage(line: string): VerboseEngineMessage | null;
+}>;
@@ -1,9 +1,27 @@
 import * as t from 'io-ts';
+import { withFallback } from 'io-ts-types';
 import { buildTypeCodec } from '../utilities';
 
+export const executionErrorSeverityCodec = t.union([
+	t.literal('error'),
+	t.literal('warning'),
+	t.literal('info'),
+]);
+
+export type ExecutionErrorSeverity = t.TypeOf<
+	typeof executionErrorSeverityCodec
+>;
+
+// the engines print the diagnostics as JSON lines on the standard error
 export const executionErrorCodec = buildTypeCodec({
 	message: t.string,
 	path: t.union([t.string, t.undefined]),
+	severity: withFallback(executionErrorSeverityCodec, 'error'),
+	code: withFallback(t.union([t.string, t.null]), null),
+	// one-based positions within the file
+	line: withFallback(t.union([t.number, t.null]), null),
+	column: withFallback(t.union([t.number, t.null]), null),
+	stack: withFallback(t.union([t.string, t.null]), null),
 });
 
 export type ExecutionError = t.TypeOf<typeof executionErrorCodec>;
@@ -0,0 +1,50 @@
+import { Uri } from 'vscode';
+import { toCaseCommand, toCommand } from '../cases/caseCommands';
+import { Message, MessageKind } from '../components/messageBus';
+import type { ExecutionId, QueuedExecution } from './types';
+
+export type ExecuteCodemodSetMessage = Message & {
+	kind: MessageKind.executeCodemodSet;
+};
+
+export const toQueuedExecution = (
+	executionId: ExecutionId,
+	message: ExecuteCodemodSetMessage,
+): QueuedExecution => ({
+	executionId,
+	caseHashDigest: message.caseHashDigest,
+	command: toCaseCommand(message.command),
+	happenedAt: message.happenedAt,
+	storageUri: message.storageUri.toString(),
+	targetUri: message.targetUri.toString(),
+	targetUriIsDirectory: message.targetUriIsDirectory,
+	executionSettings: message.executionSettings ?? null,
+	includedUris:
+		message.includedUris?.map((includedUri) => includedUri.toString()) ??
+		null,
+	supersededJobHashes: message.supersededJobHashes
+		? [...message.supersededJobHashes]
+		: null,
+});
+
+/**
+ * Rebuilds the message of the queued execution.
+ * Throws if the persisted command is not valid anymore.
+ */
+export const toExecuteCodemodSetMessage = (
+	queuedExecution: QueuedExecution,
+): ExecuteCodemodSetMessage => ({
+	kind: MessageKind.executeCodemodSet,
+	caseHashDigest: queuedExecution.caseHashDigest,
+	command: toCommand(queuedExecution.command),
+	happenedAt: queuedExecution.happenedAt,
+	storageUri: Uri.parse(queuedExecution.storageUri),
+	targetUri: Uri.parse(queuedExecution.targetUri),
+	targetUriIsDirectory: queuedExecution.targetUriIsDirectory,
+	executionSettings: queuedExecution.executionSettings,
+	includedUris:
+		queuedExecution.includedUris?.map((includedUri) =>
+			Uri.parse(includedUri),
+		) ?? null,
+	supersededJobHashes: queuedExecution.supersededJobHashes,
+});
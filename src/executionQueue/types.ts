@@ -0,0 +1,48 @@
+import * as t from 'io-ts';
+import { withFallback } from 'io-ts-types';
+import {
+	caseCommandCodec,
+	caseHashCodec,
+	executionSettingsCodec,
+} from '../cases/types';
+import { jobHashCodec } from '../jobs/types';
+import { buildTypeCodec } from '../utilities';
+
+interface ExecutionIdBrand {
+	readonly __ExecutionId: unique symbol;
+}
+
+// the executions of the same case are told apart by their ids
+export const executionIdCodec = t.brand(
+	t.string,
+	(executionId): executionId is t.Branded<string, ExecutionIdBrand> =>
+		executionId.length > 0,
+	'__ExecutionId',
+);
+
+export type ExecutionId = t.TypeOf<typeof executionIdCodec>;
+
+export const queuedExecutionCodec = buildTypeCodec({
+	executionId: executionIdCodec,
+	// the hash of the case the execution creates or merges into
+	caseHashDigest: caseHashCodec,
+	command: caseCommandCodec,
+	happenedAt: t.string,
+	storageUri: t.string,
+	targetUri: t.string,
+	targetUriIsDirectory: t.boolean,
+	// the settings of the re-runs, the current ones are used otherwise
+	executionSettings: withFallback(
+		t.union([executionSettingsCodec, t.null]),
+		null,
+	),
+	// the files the re-runs are limited to, as URI strings
+	includedUris: withFallback(t.union([t.array(t.string), t.null]), null),
+	// the jobs of the case the re-run merges into
+	supersededJobHashes: withFallback(
+		t.union([t.array(jobHashCodec), t.null]),
+		null,
+	),
+});
+
+export type QueuedExecution = t.TypeOf<typeof queuedExecutionCodec>;
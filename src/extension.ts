@@ -5,8 +5,14 @@ import { buildContainer } from './container';
 import { Command, MessageBus, MessageKind } from './components/messageBus';
 import { JobManager } from './components/jobManager';
 import { FileService } from './components/fileService';
+import { toCommand } from './cases/caseCommands';
 import { CaseHash, caseHashCodec } from './cases/types';
+import { executionIdCodec } from './executionQueue/types';
 import { DownloadService } from './components/downloadService';
+import {
+	DownloadVerifier,
+	readSigningKey,
+} from './components/downloadVerifier';
 import { FileSystemUtilities } from './components/fileSystemUtilities';
 import { EngineService } from './components/engineService';
 import { BootstrapExecutablesService } from './components/bootstrapExecutablesService';
@@ -26,7 +32,10 @@ import { actions } from './data/slice';
 import { IntuitaPanelProvider } from './components/webview/IntuitaPanelProvider';
 import { CaseManager } from './cases/caseManager';
 import { CodemodDescriptionProvider } from './components/webview/CodemodDescriptionProvider';
-import { selectExplorerTree } from './selectors/selectExplorerTree';
+import {
+	selectExplorerTree,
+	selectSelectedJobHashes,
+} from './selectors/selectExplorerTree';
 import {
 	CodemodNodeHashDigest,
 	selectCodemodArguments,
@@ -34,7 +43,7 @@ import {
 import { buildHash, isNeitherNullNorUndefined } from './utilities';
 import { mkdir, readFile, writeFile } from 'fs/promises';
 import { homedir } from 'os';
-import { join } from 'path';
+import { basename, dirname, join } from 'path';
 import { createHash, randomBytes } from 'crypto';
 import { existsSync, rmSync } from 'fs';
 import {
@@ -45,8 +54,38 @@ import {
 import { parsePrivateCodemodsEnvelope } from './data/privateCodemodsEnvelopeSchema';
 import { GlobalStateTokenStorage, UserService } from './components/userService';
 import { HomeDirectoryService } from './data/readHomeDirectoryCases';
+import {
+	getCaseRootPath,
+	getWorkspaceFolderPaths,
+	pickWorkspaceFolderUri,
+} from './workspaceFolders';
 import { isLeft } from 'fp-ts/lib/Either';
 import { createClearStateCommand } from './commands/clearStateCommand';
+import { createManageEngineVersionsCommand } from './commands/manageEngineVersionsCommand';
+import { createRerunCaseCommand } from './commands/rerunCaseCommand';
+import { createExecuteCodemodOnGitScopeCommand } from './commands/executeCodemodOnGitScopeCommand';
+import { JobsRolledBackError } from './jobs/acceptJobs';
+import { StaleJobsError } from './jobs/staleJobs';
+import { ApplicationCancelledError } from './jobs/applyJobsAsWorkspaceEdit';
+import { jobHashCodec, mapPersistedJobToJob } from './jobs/types';
+import { AppliedCaseManager } from './appliedCases/appliedCaseManager';
+import { PostApplyHookRunner } from './appliedCases/postApplyHookRunner';
+import { getJobAffectedUris } from './jobs/fileSnapshot';
+import {
+	commitAppliedCase,
+	findUncommittedPaths,
+} from './git/postApplyWorkflow';
+import { WorktreeManager } from './git/worktreeManager';
+import { buildUnifiedDiff } from './jobs/buildUnifiedDiff';
+import { parseUnifiedDiff } from './jobs/parseUnifiedDiff';
+import { buildPatchJobs } from './jobs/importPatch';
+import { buildCaseReport } from './caseReports/buildCaseReport';
+import { EngineAdapterRegistry } from './engines/engineAdapterRegistry';
+import { EngineAdapter } from './engines/types';
+import {
+	CASE_REPORT_FILE_EXTENSIONS,
+	formatCaseReport,
+} from './caseReports/formatCaseReport';
 
 export const enum SEARCH_PARAMS_KEYS {
 	ENGINE = 'engine',
@@ -63,8 +102,6 @@ export const enum SEARCH_PARAMS_KEYS {
 const messageBus = new MessageBus();
 
 export async function activate(context: vscode.ExtensionContext) {
-	const rootUri = vscode.workspace.workspaceFolders?.[0]?.uri ?? null;
-
 	messageBus.setDisposables(context.subscriptions);
 
 	const { store } = await buildStore(context.workspaceState);
@@ -74,8 +111,53 @@ export async function activate(context: vscode.ExtensionContext) {
 	);
 	const userService = new UserService(globalStateTokenStorage);
 
+	const configurationContainer = buildContainer(getConfiguration());
+
+	const offlineModeStatusBarItem = vscode.window.createStatusBarItem(
+		vscode.StatusBarAlignment.Left,
+	);
+	offlineModeStatusBarItem.text = '$(debug-disconnect) Intuita: Offline';
+	offlineModeStatusBarItem.tooltip =
+		'The Intuita extension does not access the network.';
+	offlineModeStatusBarItem.command = 'intuita.showIntuitaSettings';
+
+	const updateOfflineModeStatusBarItem = () => {
+		if (configurationContainer.get().offlineMode) {
+			offlineModeStatusBarItem.show();
+		} else {
+			offlineModeStatusBarItem.hide();
+		}
+	};
+
+	updateOfflineModeStatusBarItem();
+
+	context.subscriptions.push(
+		offlineModeStatusBarItem,
+		vscode.workspace.onDidChangeConfiguration((event) => {
+			configurationContainer.set(getConfiguration());
+			updateOfflineModeStatusBarItem();
+
+			const engineSettingChanged = [
+				'intuita.offlineMode',
+				'intuita.codemodEngineNodeExecutablePath',
+				'intuita.codemodEngineRustExecutablePath',
+				'intuita.codemodEngineNodeVersion',
+				'intuita.codemodEngineRustVersion',
+			].some((section) => event.affectsConfiguration(section));
+
+			if (engineSettingChanged) {
+				messageBus.publish({
+					kind: MessageKind.bootstrapEngine,
+				});
+			}
+		}),
+	);
+
 	const accessToken = userService.getLinkedToken();
-	if (accessToken !== null) {
+	// the token is validated once the extension activates online again
+	if (accessToken !== null && configurationContainer.get().offlineMode) {
+		vscode.commands.executeCommand('setContext', 'intuita.signedIn', true);
+	} else if (accessToken !== null) {
 		const valid = await validateAccessToken(accessToken);
 		vscode.commands.executeCommand('setContext', 'intuita.signedIn', valid);
 
@@ -101,25 +183,48 @@ export async function activate(context: vscode.ExtensionContext) {
 		}
 	}
 
-	const configurationContainer = buildContainer(getConfiguration());
+	const fileService = new FileService(messageBus);
 
-	context.subscriptions.push(
-		vscode.workspace.onDidChangeConfiguration(() => {
-			configurationContainer.set(getConfiguration());
-		}),
-	);
+	// the engine and the post-apply hook output that is neither messages nor diagnostics
+	const outputChannel = vscode.window.createOutputChannel('Intuita');
+	context.subscriptions.push(outputChannel);
 
-	const fileService = new FileService(messageBus);
+	const appliedCaseManager = new AppliedCaseManager(
+		messageBus,
+		store,
+		context.storageUri ?? null,
+	);
 
-	const jobManager = new JobManager(fileService, messageBus, store);
+	const jobManager = new JobManager(
+		fileService,
+		messageBus,
+		store,
+		appliedCaseManager,
+		new PostApplyHookRunner(store, configurationContainer, outputChannel),
+		configurationContainer,
+	);
 
 	new CaseManager(messageBus, store);
 
+	const worktreeManager = new WorktreeManager(
+		messageBus,
+		store,
+		context.storageUri ?? null,
+		configurationContainer,
+	);
+
 	const fileSystemUtilities = new FileSystemUtilities(vscode.workspace.fs);
 
 	const downloadService = new DownloadService(
-		vscode.workspace.fs,
 		fileSystemUtilities,
+		new DownloadVerifier(
+			await readSigningKey(vscode.workspace.fs, context.extensionUri),
+		),
+		configurationContainer,
+	);
+
+	const engineAdapterRegistry = new EngineAdapterRegistry(
+		configurationContainer,
 	);
 
 	const engineService = new EngineService(
@@ -127,6 +232,8 @@ export async function activate(context: vscode.ExtensionContext) {
 		messageBus,
 		vscode.workspace.fs,
 		store,
+		engineAdapterRegistry,
+		outputChannel,
 	);
 
 	new BootstrapExecutablesService(
@@ -134,6 +241,7 @@ export async function activate(context: vscode.ExtensionContext) {
 		context.globalStorageUri,
 		vscode.workspace.fs,
 		messageBus,
+		configurationContainer,
 	);
 
 	const intuitaTextDocumentContentProvider =
@@ -143,6 +251,7 @@ export async function activate(context: vscode.ExtensionContext) {
 	const vscodeTelemetry = new VscodeTelemetry(
 		new TelemetryReporter(telemetryKey),
 		messageBus,
+		configurationContainer,
 	);
 
 	const mainViewProvider = new MainViewProvider(
@@ -150,8 +259,8 @@ export async function activate(context: vscode.ExtensionContext) {
 		userService,
 		engineService,
 		messageBus,
-		rootUri,
 		store,
+		configurationContainer,
 	);
 
 	const mainView = vscode.window.registerWebviewViewProvider(
@@ -169,7 +278,6 @@ export async function activate(context: vscode.ExtensionContext) {
 		mainViewProvider,
 		messageBus,
 		codemodDescriptionProvider,
-		rootUri?.fsPath ?? null,
 		jobManager,
 	);
 
@@ -309,8 +417,7 @@ export async function activate(context: vscode.ExtensionContext) {
 
 					const tree = selectExplorerTree(
 						state,
-						vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ??
-							'',
+						getWorkspaceFolderPaths(),
 					);
 
 					if (tree === null) {
@@ -322,7 +429,59 @@ export async function activate(context: vscode.ExtensionContext) {
 
 					const { selectedJobHashes } = tree;
 
-					await jobManager.acceptJobs(new Set(selectedJobHashes));
+					// the accepted jobs are removed from the state
+					const kase = state.case.entities[caseHashDigest] ?? null;
+
+					const appliedUris = selectedJobHashes
+						.map((jobHash) => state.job.entities[jobHash])
+						.filter(isNeitherNullNorUndefined)
+						.map(mapPersistedJobToJob)
+						.flatMap(getJobAffectedUris);
+
+					const { postApplyGitWorkflow, gitBranchNameTemplate } =
+						configurationContainer.get();
+
+					// the changes applied in a worktree are always committed there
+					let commitApplied =
+						postApplyGitWorkflow &&
+						kase !== null &&
+						kase.worktree === null;
+
+					if (commitApplied && kase !== null) {
+						// the commit reports the git errors after applying
+						const uncommittedPaths = await findUncommittedPaths(
+							kase,
+							appliedUris,
+						).catch((error) => {
+							console.error(error);
+							return [];
+						});
+
+						if (uncommittedPaths.length !== 0) {
+							const choice =
+								await vscode.window.showWarningMessage(
+									`${uncommittedPaths.length} file(s) touched by the case have uncommitted changes.`,
+									{
+										modal: true,
+										detail: [
+											'The whole files are committed, so the commit would include the following changes made before applying:',
+											...uncommittedPaths,
+										].join('\n'),
+									},
+									'Apply Without Committing',
+								);
+
+							if (choice !== 'Apply Without Committing') {
+								return;
+							}
+
+							commitApplied = false;
+						}
+					}
+
+					const hooksPassed = await jobManager.acceptJobs(
+						new Set(selectedJobHashes),
+					);
 
 					store.dispatch(
 						actions.clearSelectedExplorerNodes(caseHashDigest),
@@ -331,14 +490,65 @@ export async function activate(context: vscode.ExtensionContext) {
 						actions.clearIndeterminateExplorerNodes(caseHashDigest),
 					);
 
+					// the failed applies are left uncommitted, so they can be undone
+					if (commitApplied && hooksPassed && kase !== null) {
+						// the changes stay applied even if they cannot be committed
+						try {
+							const commit = await commitAppliedCase(
+								kase,
+								appliedUris,
+								gitBranchNameTemplate,
+							);
+
+							if (commit !== null) {
+								vscode.window.showInformationMessage(
+									commit.carriedFileCount !== 0
+										? `Committed ${commit.fileCount} file(s) as ${commit.commitHash} on the ${commit.branchName} branch. The uncommitted changes of ${commit.carriedFileCount} other file(s) were carried over to the branch.`
+										: `Committed ${commit.fileCount} file(s) as ${commit.commitHash} on the ${commit.branchName} branch.`,
+								);
+							}
+						} catch (error) {
+							console.error(error);
+
+							vscode.window.showErrorMessage(
+								`The changes were applied, but could not be committed: ${
+									error instanceof Error
+										? error.message
+										: String(error)
+								}`,
+							);
+						}
+					}
+
 					vscode.commands.executeCommand('workbench.view.scm');
 				} catch (e) {
+					if (e instanceof ApplicationCancelledError) {
+						return;
+					}
+
 					const message = e instanceof Error ? e.message : String(e);
 					vscodeTelemetry.sendError({
 						kind: 'failedToExecuteCommand',
 						commandName:
 							'intuita.sourceControl.saveStagedJobsToTheFileSystem',
 					});
+
+					if (e instanceof JobsRolledBackError) {
+						vscode.window.showErrorMessage(message, {
+							modal: true,
+							detail: e.detail,
+						});
+						return;
+					}
+
+					if (e instanceof StaleJobsError) {
+						vscode.window.showWarningMessage(message, {
+							modal: true,
+							detail: e.detail,
+						});
+						return;
+					}
+
 					vscode.window.showErrorMessage(message);
 				} finally {
 					store.dispatch(actions.setApplySelectedInProgress(false));
@@ -368,7 +578,7 @@ export async function activate(context: vscode.ExtensionContext) {
 
 				const tree = selectExplorerTree(
 					state,
-					vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ?? '',
+					getWorkspaceFolderPaths(),
 				);
 
 				if (tree === null) {
@@ -377,7 +587,7 @@ export async function activate(context: vscode.ExtensionContext) {
 
 				const { selectedJobHashes } = tree;
 
-				jobManager.deleteJobs(selectedJobHashes);
+				await jobManager.deleteJobs(selectedJobHashes);
 
 				store.dispatch(
 					actions.clearSelectedExplorerNodes(caseHashDigest),
@@ -397,6 +607,560 @@ export async function activate(context: vscode.ExtensionContext) {
 		}),
 	);
 
+	context.subscriptions.push(
+		vscode.commands.registerCommand(
+			'intuita.undoAppliedCase',
+			async (arg0: unknown) => {
+				try {
+					const validation = caseHashCodec.decode(arg0);
+
+					if (validation._tag === 'Left') {
+						throw new Error(
+							prettyReporter.report(validation).join('\n'),
+						);
+					}
+
+					const caseHashDigest = validation.right;
+
+					const changedUris =
+						await appliedCaseManager.findChangedUris(
+							caseHashDigest,
+						);
+
+					if (changedUris.length !== 0) {
+						const choice = await vscode.window.showWarningMessage(
+							`${changedUris.length} file(s) changed since the changes were applied.`,
+							{
+								modal: true,
+								detail: [
+									'Undoing the changes overwrites the following files with their contents from before the apply:',
+									...changedUris.map(({ fsPath }) => fsPath),
+								].join('\n'),
+							},
+							'Overwrite',
+						);
+
+						if (choice !== 'Overwrite') {
+							return;
+						}
+					}
+
+					const missingJobCount =
+						await appliedCaseManager.undoAppliedCase(
+							caseHashDigest,
+						);
+
+					store.dispatch(actions.setExplorerNodes(caseHashDigest));
+
+					if (missingJobCount !== 0) {
+						vscode.window.showWarningMessage(
+							`The files were restored, but ${missingJobCount} change(s) could not be re-created because their codemod output does not exist anymore.`,
+						);
+						return;
+					}
+
+					vscode.window.showInformationMessage(
+						'The applied changes were undone.',
+					);
+				} catch (e) {
+					const message = e instanceof Error ? e.message : String(e);
+					vscode.window.showErrorMessage(message);
+
+					vscodeTelemetry.sendError({
+						kind: 'failedToExecuteCommand',
+						commandName: 'intuita.undoAppliedCase',
+					});
+				}
+			},
+		),
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand(
+			'intuita.exportCaseAsPatch',
+			async (arg0: unknown) => {
+				try {
+					const validation = caseHashCodec.decode(arg0);
+
+					if (validation._tag === 'Left') {
+						throw new Error(
+							prettyReporter.report(validation).join('\n'),
+						);
+					}
+
+					const caseHashDigest = validation.right;
+
+					const state = store.getState();
+
+					const kase = state.case.entities[caseHashDigest] ?? null;
+
+					if (kase === null) {
+						throw new Error(
+							'The case has no changes left to export.',
+						);
+					}
+
+					const rootPaths = getWorkspaceFolderPaths();
+					const rootPath = getCaseRootPath(kase, rootPaths);
+
+					if (rootPath === null) {
+						throw new Error('No workspace has been opened.');
+					}
+
+					const jobs = selectSelectedJobHashes(
+						state,
+						caseHashDigest,
+						rootPaths,
+					)
+						.map((jobHash) => state.job.entities[jobHash])
+						.filter(isNeitherNullNorUndefined)
+						.map(mapPersistedJobToJob);
+
+					if (jobs.length === 0) {
+						vscode.window.showWarningMessage(
+							'No changes are selected to export.',
+						);
+						return;
+					}
+
+					const patchUri = await vscode.window.showSaveDialog({
+						defaultUri: vscode.Uri.file(
+							join(
+								rootPath,
+								`${kase.codemodName.replace(
+									/[^\w.-]+/g,
+									'-',
+								)}.patch`,
+							),
+						),
+						filters: { Patch: ['patch', 'diff'] },
+						title: 'Export the case as a patch',
+					});
+
+					if (patchUri === undefined) {
+						return;
+					}
+
+					const patch = await buildUnifiedDiff(jobs, rootPath);
+
+					await vscode.workspace.fs.writeFile(
+						patchUri,
+						Buffer.from(patch),
+					);
+
+					vscode.window.showInformationMessage(
+						`Exported ${jobs.length} change(s) to ${patchUri.fsPath}.`,
+					);
+				} catch (e) {
+					const message = e instanceof Error ? e.message : String(e);
+					vscode.window.showErrorMessage(message);
+
+					vscodeTelemetry.sendError({
+						kind: 'failedToExecuteCommand',
+						commandName: 'intuita.exportCaseAsPatch',
+					});
+				}
+			},
+		),
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand(
+			'intuita.executeCodemodOnGitScope',
+			createExecuteCodemodOnGitScopeCommand({
+				store,
+				messageBus,
+				storageUri: context.storageUri,
+				configurationContainer,
+				vscodeTelemetry,
+			}),
+		),
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand(
+			'intuita.rerunCase',
+			createRerunCaseCommand({
+				store,
+				messageBus,
+				storageUri: context.storageUri,
+				vscodeTelemetry,
+			}),
+		),
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand(
+			'intuita.exportCaseReport',
+			async (arg0: unknown) => {
+				try {
+					const validation = caseHashCodec.decode(arg0);
+
+					if (validation._tag === 'Left') {
+						throw new Error(
+							prettyReporter.report(validation).join('\n'),
+						);
+					}
+
+					const report = await buildCaseReport(
+						store.getState(),
+						validation.right,
+						getWorkspaceFolderPaths(),
+					);
+
+					const formatItem = await vscode.window.showQuickPick(
+						[
+							{ label: 'Markdown', format: 'markdown' as const },
+							{ label: 'HTML', format: 'html' as const },
+							{ label: 'JSON', format: 'json' as const },
+						],
+						{ placeHolder: 'Select the format of the report' },
+					);
+
+					if (formatItem === undefined) {
+						return;
+					}
+
+					const { format } = formatItem;
+					const extension = CASE_REPORT_FILE_EXTENSIONS[format];
+
+					const reportUri = await vscode.window.showSaveDialog({
+						defaultUri: vscode.Uri.file(
+							join(
+								report.rootPath ?? dirname(report.targetPath),
+								`${report.codemodName.replace(
+									/[^\w.-]+/g,
+									'-',
+								)}-report.${extension}`,
+							),
+						),
+						filters: { [formatItem.label]: [extension] },
+						title: 'Export the case report',
+					});
+
+					if (reportUri === undefined) {
+						return;
+					}
+
+					await vscode.workspace.fs.writeFile(
+						reportUri,
+						Buffer.from(formatCaseReport(report, format)),
+					);
+
+					vscode.window.showInformationMessage(
+						`Exported the report to ${reportUri.fsPath}.`,
+					);
+				} catch (e) {
+					const message = e instanceof Error ? e.message : String(e);
+					vscode.window.showErrorMessage(message);
+
+					vscodeTelemetry.sendError({
+						kind: 'failedToExecuteCommand',
+						commandName: 'intuita.exportCaseReport',
+					});
+				}
+			},
+		),
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand(
+			'intuita.importPatch',
+			async (arg0: unknown) => {
+				try {
+					if (getWorkspaceFolderPaths().length === 0) {
+						throw new Error('No workspace has been opened.');
+					}
+
+					const { storageUri } = context;
+
+					if (!storageUri) {
+						throw new Error(
+							'No storage URI, aborting the command.',
+						);
+					}
+
+					const patchUri =
+						arg0 instanceof vscode.Uri
+							? arg0
+							: (
+									await vscode.window.showOpenDialog({
+										canSelectMany: false,
+										filters: { Patch: ['patch', 'diff'] },
+										title: 'Import a patch as a case',
+									})
+							  )?.[0] ?? null;
+
+					if (patchUri === null) {
+						return;
+					}
+
+					// the paths in the patch are relative to the root of the repository
+					const rootUri =
+						vscode.workspace.getWorkspaceFolder(patchUri)?.uri ??
+						(await pickWorkspaceFolderUri());
+
+					if (rootUri === null) {
+						return;
+					}
+
+					const filePatches = parseUnifiedDiff(
+						Buffer.from(
+							await vscode.workspace.fs.readFile(patchUri),
+						).toString('utf8'),
+					);
+
+					if (filePatches.length === 0) {
+						vscode.window.showWarningMessage(
+							'The patch contains no file changes.',
+						);
+						return;
+					}
+
+					const caseHashDigest = buildCaseHash();
+					const codemodName = `${basename(patchUri.fsPath)} (patch)`;
+
+					const jobs = await buildPatchJobs(filePatches, {
+						rootPath: rootUri.fsPath,
+						outputUri: vscode.Uri.joinPath(
+							storageUri,
+							'codemod-engine-node',
+							caseHashDigest,
+						),
+						caseHashDigest,
+						codemodName,
+					});
+
+					messageBus.publish({
+						kind: MessageKind.upsertCase,
+						kase: {
+							hash: caseHashDigest,
+							codemodName,
+							codemodHashDigest: undefined,
+							createdAt: Date.now(),
+							path: rootUri.fsPath,
+							rootPath: rootUri.fsPath,
+							codemodArguments: [],
+							engineVersion: null,
+							command: null,
+							executionSettings: null,
+							targetUriIsDirectory: null,
+							worktree: null,
+						},
+						jobs,
+					});
+
+					store.dispatch(actions.setExplorerNodes(caseHashDigest));
+
+					vscode.commands.executeCommand('intuitaMainView.focus');
+				} catch (e) {
+					const message = e instanceof Error ? e.message : String(e);
+					vscode.window.showErrorMessage(message);
+
+					vscodeTelemetry.sendError({
+						kind: 'failedToExecuteCommand',
+						commandName: 'intuita.importPatch',
+					});
+				}
+			},
+		),
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand(
+			'intuita.forceApplyJob',
+			async (arg0: unknown) => {
+				try {
+					const validation = jobHashCodec.decode(arg0);
+
+					if (validation._tag === 'Left') {
+						throw new Error(
+							prettyReporter.report(validation).join('\n'),
+						);
+					}
+
+					await jobManager.acceptJobs(
+						new Set([validation.right]),
+						true,
+					);
+				} catch (e) {
+					if (e instanceof ApplicationCancelledError) {
+						return;
+					}
+
+					const message = e instanceof Error ? e.message : String(e);
+					vscodeTelemetry.sendError({
+						kind: 'failedToExecuteCommand',
+						commandName: 'intuita.forceApplyJob',
+					});
+
+					if (e instanceof JobsRolledBackError) {
+						vscode.window.showErrorMessage(message, {
+							modal: true,
+							detail: e.detail,
+						});
+						return;
+					}
+
+					vscode.window.showErrorMessage(message);
+				}
+			},
+		),
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand(
+			'intuita.mergeStaleJob',
+			async (arg0: unknown) => {
+				try {
+					const validation = jobHashCodec.decode(arg0);
+
+					if (validation._tag === 'Left') {
+						throw new Error(
+							prettyReporter.report(validation).join('\n'),
+						);
+					}
+
+					const conflictCount = await jobManager.mergeJob(
+						validation.right,
+					);
+
+					if (conflictCount !== 0) {
+						vscode.window.showWarningMessage(
+							`The changes were merged with ${conflictCount} conflict(s). Resolve them in the diff view before applying.`,
+						);
+						return;
+					}
+
+					vscode.window.showInformationMessage(
+						'The changes were merged without conflicts.',
+					);
+				} catch (e) {
+					const message = e instanceof Error ? e.message : String(e);
+					vscode.window.showErrorMessage(message);
+
+					vscodeTelemetry.sendError({
+						kind: 'failedToExecuteCommand',
+						commandName: 'intuita.mergeStaleJob',
+					});
+				}
+			},
+		),
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand(
+			'intuita.rerunCodemodOnJobFile',
+			async (arg0: unknown) => {
+				try {
+					const validation = jobHashCodec.decode(arg0);
+
+					if (validation._tag === 'Left') {
+						throw new Error(
+							prettyReporter.report(validation).join('\n'),
+						);
+					}
+
+					const state = store.getState();
+
+					const persistedJob =
+						state.job.entities[validation.right] ?? null;
+
+					if (persistedJob === null) {
+						throw new Error('The change does not exist anymore.');
+					}
+
+					const job = mapPersistedJobToJob(persistedJob);
+
+					const kase =
+						state.case.entities[job.caseHashDigest] ?? null;
+
+					const { storageUri } = context;
+
+					// the new job replaces the stale one within the same case once the re-run finishes
+					if (
+						kase !== null &&
+						kase.command !== null &&
+						kase.executionSettings !== null &&
+						kase.worktree === null &&
+						!state.caseHashesInProgress.includes(kase.hash) &&
+						job.oldUri !== null &&
+						storageUri
+					) {
+						messageBus.publish({
+							kind: MessageKind.executeCodemodSet,
+							command: toCommand(kase.command),
+							happenedAt: String(Date.now()),
+							caseHashDigest: kase.hash,
+							storageUri,
+							targetUri: job.oldUri,
+							targetUriIsDirectory: false,
+							includedUris: [job.oldUri],
+							executionSettings: kase.executionSettings,
+							supersededJobHashes: [job.hash],
+						});
+						return;
+					}
+
+					const codemodHashDigest = kase?.codemodHashDigest ?? null;
+
+					const codemod =
+						codemodHashDigest !== null
+							? state.codemod.entities[codemodHashDigest] ?? null
+							: null;
+
+					const privateCodemod =
+						codemodHashDigest !== null
+							? state.privateCodemods.entities[
+									codemodHashDigest
+							  ] ?? null
+							: null;
+
+					if (
+						job.oldUri === null ||
+						(codemod === null && privateCodemod === null)
+					) {
+						throw new Error(
+							'The codemod cannot be re-run for this change.',
+						);
+					}
+
+					// the cases created before the commands were recorded are re-run as new cases
+					messageBus.publish({
+						kind: MessageKind.rejectJobs,
+						jobHashes: new Set([job.hash]),
+					});
+
+					if (codemod !== null) {
+						vscode.commands.executeCommand(
+							'intuita.executeCodemod',
+							job.oldUri,
+							codemod.hashDigest,
+						);
+						return;
+					}
+
+					if (privateCodemod !== null) {
+						vscode.commands.executeCommand(
+							'intuita.executePrivateCodemod',
+							job.oldUri,
+							privateCodemod.hashDigest,
+							privateCodemod.name,
+						);
+					}
+				} catch (e) {
+					const message = e instanceof Error ? e.message : String(e);
+					vscode.window.showErrorMessage(message);
+
+					vscodeTelemetry.sendError({
+						kind: 'failedToExecuteCommand',
+						commandName: 'intuita.rerunCodemodOnJobFile',
+					});
+				}
+			},
+		),
+	);
+
 	context.subscriptions.push(
 		vscode.commands.registerCommand('intuita.rejectCase', async (arg0) => {
 			try {
@@ -430,13 +1194,16 @@ export async function activate(context: vscode.ExtensionContext) {
 			'intuita.executeAsCodemod',
 			async (codemodUri: vscode.Uri) => {
 				try {
-					const targetUri =
-						vscode.workspace.workspaceFolders?.[0]?.uri ?? null;
-
-					if (targetUri == null) {
+					if (getWorkspaceFolderPaths().length === 0) {
 						throw new Error('No workspace has been opened.');
 					}
 
+					const targetUri = await pickWorkspaceFolderUri();
+
+					if (targetUri === null) {
+						return;
+					}
+
 					const { storageUri } = context;
 
 					if (!storageUri) {
@@ -496,13 +1263,16 @@ export async function activate(context: vscode.ExtensionContext) {
 					);
 				}
 
-				const targetUri =
-					vscode.workspace.workspaceFolders?.[0]?.uri ?? null;
-
-				if (targetUri == null) {
+				if (getWorkspaceFolderPaths().length === 0) {
 					throw new Error('No workspace has been opened.');
 				}
 
+				const targetUri = await pickWorkspaceFolderUri();
+
+				if (targetUri === null) {
+					return;
+				}
+
 				const { storageUri } = context;
 
 				if (!storageUri) {
@@ -592,6 +1362,7 @@ export async function activate(context: vscode.ExtensionContext) {
 									kind: 'executeCodemod',
 									codemodHash,
 									name: codemod.name,
+									engine: codemod.engine,
 									arguments: args,
 							  };
 
@@ -762,6 +1533,7 @@ export async function activate(context: vscode.ExtensionContext) {
 									codemodHash:
 										codemodEntry.hashDigest as CodemodHash,
 									name: codemodEntry.name,
+									engine: codemodEntry.engine,
 									arguments: args,
 							  };
 
@@ -850,10 +1622,29 @@ export async function activate(context: vscode.ExtensionContext) {
 		),
 	);
 
+	context.subscriptions.push(
+		vscode.commands.registerCommand(
+			'intuita.manageEngineVersions',
+			createManageEngineVersionsCommand({
+				fileSystem: vscode.workspace.fs,
+				globalStorageUri: context.globalStorageUri,
+				configurationContainer,
+				downloadService,
+				engineService,
+				vscodeTelemetry,
+			}),
+		),
+	);
+
 	context.subscriptions.push(
 		vscode.commands.registerCommand(
 			'intuita.clearState',
-			createClearStateCommand({ fileService, store }),
+			createClearStateCommand({
+				fileService,
+				store,
+				appliedCaseManager,
+				worktreeManager,
+			}),
 		),
 	);
 
@@ -863,6 +1654,87 @@ export async function activate(context: vscode.ExtensionContext) {
 		}),
 	);
 
+	context.subscriptions.push(
+		vscode.commands.registerCommand('intuita.pauseExecutionQueue', () => {
+			store.dispatch(actions.setExecutionQueuePaused(true));
+		}),
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand('intuita.resumeExecutionQueue', () => {
+			store.dispatch(actions.setExecutionQueuePaused(false));
+
+			engineService.executeNextQueuedExecution();
+		}),
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand(
+			'intuita.moveQueuedExecution',
+			(arg0: unknown, arg1: unknown) => {
+				try {
+					const validation = executionIdCodec.decode(arg0);
+
+					if (validation._tag === 'Left') {
+						throw new Error(
+							prettyReporter.report(validation).join('\n'),
+						);
+					}
+
+					if (arg1 !== -1 && arg1 !== 1) {
+						throw new Error(
+							'Did not pass the offset into the command.',
+						);
+					}
+
+					store.dispatch(
+						actions.moveQueuedExecution({
+							executionId: validation.right,
+							offset: arg1,
+						}),
+					);
+				} catch (e) {
+					const message = e instanceof Error ? e.message : String(e);
+					vscode.window.showErrorMessage(message);
+
+					vscodeTelemetry.sendError({
+						kind: 'failedToExecuteCommand',
+						commandName: 'intuita.moveQueuedExecution',
+					});
+				}
+			},
+		),
+	);
+
+	context.subscriptions.push(
+		vscode.commands.registerCommand(
+			'intuita.cancelQueuedExecution',
+			(arg0: unknown) => {
+				try {
+					const validation = executionIdCodec.decode(arg0);
+
+					if (validation._tag === 'Left') {
+						throw new Error(
+							prettyReporter.report(validation).join('\n'),
+						);
+					}
+
+					store.dispatch(
+						actions.removeQueuedExecution(validation.right),
+					);
+				} catch (e) {
+					const message = e instanceof Error ? e.message : String(e);
+					vscode.window.showErrorMessage(message);
+
+					vscodeTelemetry.sendError({
+						kind: 'failedToExecuteCommand',
+						commandName: 'intuita.cancelQueuedExecution',
+					});
+				}
+			},
+		),
+	);
+
 	context.subscriptions.push(
 		vscode.commands.registerCommand(
 			'intuita.removePrivateCodemod',
@@ -1191,6 +2063,13 @@ export async function activate(context: vscode.ExtensionContext) {
 						'workbench.view.extension.intuitaViewId',
 					);
 
+					if (configurationContainer.get().offlineMode) {
+						vscode.window.showWarningMessage(
+							'Signing in is disabled in offline mode.',
+						);
+						return;
+					}
+
 					const valid = await validateAccessToken(accessToken);
 					if (valid) {
 						userService.linkUserIntuitaAccount(accessToken);
@@ -1273,9 +2152,15 @@ export async function activate(context: vscode.ExtensionContext) {
 		kind: MessageKind.bootstrapEngine,
 	});
 
-	new HomeDirectoryService(messageBus, store, rootUri);
+	new HomeDirectoryService(messageBus, store);
 
 	messageBus.publish({
 		kind: MessageKind.loadHomeDirectoryData,
 	});
+
+	// the API for the extensions plugging in their own engines
+	return {
+		registerEngineAdapter: (engineAdapter: EngineAdapter) =>
+			engineAdapterRegistry.register(engineAdapter),
+	};
 }
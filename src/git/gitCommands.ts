@@ -0,0 +1,155 @@
+import { execFile } from 'node:child_process';
+
+export class GitCommandError extends Error {}
+export class InvalidGitRevisionError extends Error {}
+
+// the outputs of the commands can list thousands of files
+const MAX_BUFFER = 64 * 1024 * 1024;
+
+/**
+ * Runs the git executable in the directory and returns its standard output.
+ * Throws GitCommandError if git is missing or the command fails.
+ */
+export const runGit = (
+	cwd: string,
+	args: ReadonlyArray<string>,
+): Promise<string> =>
+	new Promise((resolve, reject) => {
+		execFile(
+			'git',
+			args,
+			{ cwd, maxBuffer: MAX_BUFFER },
+			(error, stdout, stderr) => {
+				if (error !== null) {
+					reject(
+						new GitCommandError(
+							`Could not run "git ${args.join(' ')}": ${
+								stderr.trim() || error.message
+							}`,
+						),
+					);
+					return;
+				}
+
+				resolve(stdout);
+			},
+		);
+	});
+
+const splitNullSeparatedPaths = (output: string): ReadonlyArray<string> =>
+	output.split('\0').filter((path) => path !== '');
+
+/**
+ * Returns the message explaining why the ref or the range cannot be passed to git, if any,
+ * e.g. for the validation of the input boxes.
+ */
+export const validateGitRevision = (revision: string): string | null =>
+	// git would take the revision for an option
+	revision.trim().startsWith('-')
+		? 'The git ref or range cannot start with "-".'
+		: null;
+
+const assertGitRevision = (revision: string): void => {
+	const message = validateGitRevision(revision);
+
+	if (message !== null) {
+		throw new InvalidGitRevisionError(`${message} Got "${revision}".`);
+	}
+};
+
+/**
+ * Lists the files within the directory that differ from the ref, including the untracked ones.
+ * The paths are relative to the directory.
+ * Throws InvalidGitRevisionError if the ref could be taken for an option.
+ */
+export const listFilesChangedSince = async (
+	directoryPath: string,
+	ref: string,
+): Promise<ReadonlyArray<string>> => {
+	assertGitRevision(ref);
+
+	const [changedFiles, untrackedFiles] = await Promise.all([
+		runGit(directoryPath, [
+			'diff',
+			'--name-only',
+			'--relative',
+			'-z',
+			'--end-of-options',
+			ref,
+			'--',
+			'.',
+		]),
+		runGit(directoryPath, [
+			'ls-files',
+			'--others',
+			'--exclude-standard',
+			'-z',
+			'--',
+			'.',
+		]),
+	]);
+
+	return [
+		...splitNullSeparatedPaths(changedFiles),
+		...splitNullSeparatedPaths(untrackedFiles),
+	];
+};
+
+export type GitScope =
+	| Readonly<{ kind: 'workingTree' }>
+	| Readonly<{ kind: 'branch'; baseRef: string }>
+	| Readonly<{ kind: 'commitRange'; range: string }>;
+
+/**
+ * Lists the files within the directory that belong to the scope:
+ * the uncommitted ones, the ones changed since the branch forked from the base ref
+ * or the ones touched by any commit of the range.
+ * The paths are relative to the directory.
+ * Throws InvalidGitRevisionError if the base ref or the range could be taken for an option.
+ */
+export const listGitScopeFiles = async (
+	directoryPath: string,
+	scope: GitScope,
+): Promise<ReadonlyArray<string>> => {
+	if (scope.kind === 'workingTree') {
+		return listFilesChangedSince(directoryPath, 'HEAD');
+	}
+
+	if (scope.kind === 'branch') {
+		assertGitRevision(scope.baseRef);
+
+		const mergeBase = (
+			await runGit(directoryPath, [
+				'merge-base',
+				'--end-of-options',
+				scope.baseRef,
+				'HEAD',
+			])
+		).trim();
+
+		return listFilesChangedSince(directoryPath, mergeBase);
+	}
+
+	assertGitRevision(scope.range);
+
+	const touchedFiles = await runGit(directoryPath, [
+		'log',
+		'--name-only',
+		'--relative',
+		'--format=',
+		'-z',
+		'--end-of-options',
+		scope.range,
+		'--',
+		'.',
+	]);
+
+	// the empty format leaves a line break before the files of each commit
+	return Array.from(
+		new Set(
+			splitNullSeparatedPaths(touchedFiles)
+				.map((path) => path.replace(/^\n+/, ''))
+				.filter((path) => path !== ''),
+		),
+	);
+};
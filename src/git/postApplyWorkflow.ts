@@ -0,0 +1,267 @@
+import { dirname, isAbsolute, relative } from 'node:path';
+import { Uri } from 'vscode';
+import type { Case } from '../cases/types';
+import { runGit } from './gitCommands';
+
+export class InvalidBranchNameError extends Error {}
+export class BranchSwitchError extends Error {}
+
+export type AppliedCaseCommit = Readonly<{
+	branchName: string;
+	commitHash: string;
+	fileCount: number;
+	// the other uncommitted files carried over to the switched branch
+	carriedFileCount: number;
+}>;
+
+// the pathspecs match the paths exactly instead of as glob patterns
+const runLiteralGit = (cwd: string, args: ReadonlyArray<string>) =>
+	runGit(cwd, ['--literal-pathspecs', ...args]);
+
+const splitNullSeparatedPaths = (output: string): ReadonlyArray<string> =>
+	output.split('\0').filter((path) => path !== '');
+
+const getCaseName = (kase: Case): string =>
+	kase.command?.name ?? kase.codemodName;
+
+/**
+ * Builds the branch name out of the template, replacing
+ * `${codemodName}`, `${caseHash}` and `${date}` with the metadata of the case.
+ */
+export const buildBranchName = (template: string, kase: Case): string => {
+	const codemodName = getCaseName(kase)
+		.trim()
+		.replace(/[^\w./-]+/g, '-')
+		.replace(/-{2,}/g, '-')
+		.replace(/^[-.]+|[-.]+$/g, '');
+
+	return template
+		.replace(/\$\{codemodName\}/g, codemodName)
+		.replace(/\$\{caseHash\}/g, kase.hash)
+		.replace(
+			/\$\{date\}/g,
+			new Date(kase.createdAt).toISOString().slice(0, 10),
+		);
+};
+
+export const buildCommitMessage = (kase: Case, fileCount: number): string => {
+	const details = [
+		kase.codemodArguments.length !== 0
+			? `Arguments: ${kase.codemodArguments
+					.map(({ name, value }) => `${name}=${String(value)}`)
+					.join(', ')}`
+			: null,
+		`Target: ${
+			kase.rootPath !== null
+				? relative(kase.rootPath, kase.path) || '.'
+				: kase.path
+		}`,
+		kase.engineVersion !== null
+			? `Engine version: ${kase.engineVersion}`
+			: null,
+		`Files: ${fileCount}`,
+		`Case: ${kase.hash}`,
+	].filter((detail): detail is string => detail !== null);
+
+	return `Apply the ${getCaseName(kase)} codemod\n\n${details.join('\n')}`;
+};
+
+type CasePaths = Readonly<{
+	repositoryPath: string;
+	// the tracked files (including the deleted ones) and the untracked files that are not ignored
+	committablePaths: ReadonlyArray<string>;
+}>;
+
+const getCasePaths = async (
+	kase: Case,
+	uris: ReadonlyArray<Uri>,
+): Promise<CasePaths | null> => {
+	const repositoryPath = (
+		await runGit(kase.rootPath ?? dirname(kase.path), [
+			'rev-parse',
+			'--show-toplevel',
+		])
+	).trim();
+
+	const relativePaths = Array.from(
+		new Set(uris.map(({ fsPath }) => relative(repositoryPath, fsPath))),
+	).filter((path) => !path.startsWith('..') && !isAbsolute(path));
+
+	if (relativePaths.length === 0) {
+		return null;
+	}
+
+	const committablePaths = splitNullSeparatedPaths(
+		await runLiteralGit(repositoryPath, [
+			'ls-files',
+			'--cached',
+			'--others',
+			'--exclude-standard',
+			'-z',
+			'--',
+			...relativePaths,
+		]),
+	);
+
+	return committablePaths.length !== 0
+		? { repositoryPath, committablePaths }
+		: null;
+};
+
+// the entries of the porcelain status start with the two status letters and a space
+const listChangedPaths = async (
+	repositoryPath: string,
+	paths: ReadonlyArray<string>,
+): Promise<ReadonlyArray<string>> =>
+	splitNullSeparatedPaths(
+		await runLiteralGit(repositoryPath, [
+			'status',
+			'--porcelain',
+			'-z',
+			'--no-renames',
+			'--untracked-files=all',
+			'--',
+			...paths,
+		]),
+	).map((entry) => entry.slice(3));
+
+/**
+ * Lists the files touched by the jobs of the case that have uncommitted changes,
+ * which committing the applied case would include, as the paths relative to the repository.
+ * Call it before applying the jobs.
+ */
+export const findUncommittedPaths = async (
+	kase: Case,
+	uris: ReadonlyArray<Uri>,
+): Promise<ReadonlyArray<string>> => {
+	const casePaths = await getCasePaths(kase, uris);
+
+	return casePaths !== null
+		? listChangedPaths(casePaths.repositoryPath, casePaths.committablePaths)
+		: [];
+};
+
+/**
+ * Switches to the branch built out of the template, creating it if needed,
+ * and commits the files touched by the applied jobs of the case.
+ * The other changes, staged or not, stay as they were.
+ * If the commit fails, the staged files are reset and the previous branch is checked out again.
+ * Returns null if none of the files changed in the repository.
+ */
+export const commitAppliedCase = async (
+	kase: Case,
+	uris: ReadonlyArray<Uri>,
+	branchNameTemplate: string,
+): Promise<AppliedCaseCommit | null> => {
+	const casePaths = await getCasePaths(kase, uris);
+
+	if (casePaths === null) {
+		return null;
+	}
+
+	const { repositoryPath, committablePaths } = casePaths;
+
+	const changedPaths = await listChangedPaths(
+		repositoryPath,
+		committablePaths,
+	);
+
+	if (changedPaths.length === 0) {
+		return null;
+	}
+
+	const branchName = buildBranchName(branchNameTemplate, kase);
+
+	try {
+		await runGit(repositoryPath, [
+			'check-ref-format',
+			'--branch',
+			branchName,
+		]);
+	} catch (error) {
+		throw new InvalidBranchNameError(
+			`The branch name "${branchName}" built out of the template "${branchNameTemplate}" is not valid.`,
+		);
+	}
+
+	const currentBranchName = (
+		await runGit(repositoryPath, ['branch', '--show-current'])
+	).trim();
+
+	const switchBranch = currentBranchName !== branchName;
+
+	let carriedFileCount = 0;
+
+	if (switchBranch) {
+		const branchExists =
+			(
+				await runGit(repositoryPath, ['branch', '--list', branchName])
+			).trim() !== '';
+
+		// the uncommitted changes of the other files stay in the working tree of the branch
+		carriedFileCount = (
+			await listChangedPaths(repositoryPath, ['.'])
+		).filter((path) => !committablePaths.includes(path)).length;
+
+		// switching carries the working tree changes over and refuses to overwrite them
+		try {
+			await runGit(
+				repositoryPath,
+				branchExists
+					? ['switch', branchName]
+					: ['switch', '--create', branchName],
+			);
+		} catch (error) {
+			throw new BranchSwitchError(
+				`Could not switch to the "${branchName}" branch, the changes were left uncommitted on the current branch: ${
+					error instanceof Error ? error.message : String(error)
+				}`,
+			);
+		}
+	}
+
+	try {
+		await runLiteralGit(repositoryPath, [
+			'add',
+			'--all',
+			'--',
+			...committablePaths,
+		]);
+
+		// only the listed paths are committed, the rest of the index stays staged
+		await runLiteralGit(repositoryPath, [
+			'commit',
+			'--only',
+			'--message',
+			buildCommitMessage(kase, changedPaths.length),
+			'--',
+			...committablePaths,
+		]);
+	} catch (error) {
+		await runLiteralGit(repositoryPath, [
+			'reset',
+			'--quiet',
+			'--',
+			...committablePaths,
+		]).catch((resetError) => console.error(resetError));
+
+		if (switchBranch) {
+			await runGit(repositoryPath, ['switch', '-']).catch((switchError) =>
+				console.error(switchError),
+			);
+		}
+
+		throw error;
+	}
+
+	const commitHash = (
+		await runGit(repositoryPath, ['rev-parse', '--short', 'HEAD'])
+	).trim();
+
+	return {
+		branchName,
+		commitHash,
+		fileCount: changedPaths.length,
+		carriedFileCount,
+	};
+};
@@ -0,0 +1,167 @@
+import { existsSync } from 'node:fs';
+import { readdir } from 'node:fs/promises';
+import { Uri, window } from 'vscode';
+import { CaseHash } from '../cases/types';
+import { Message, MessageBus, MessageKind } from '../components/messageBus';
+import { Configuration } from '../configuration';
+import { Container } from '../container';
+import { Store } from '../data';
+import { getJobAffectedUris } from '../jobs/fileSnapshot';
+import { Job } from '../jobs/types';
+import { commitAppliedCase } from './postApplyWorkflow';
+import {
+	getWorktreeDirectoryUri,
+	getWorktreesUri,
+	removeWorktree,
+} from './worktrees';
+
+/**
+ * Commits the jobs applied within the worktrees of the cases
+ * and removes each worktree once its case has no jobs left.
+ */
+export class WorktreeManager {
+	// the git commands of the worktrees cannot run side by side on the same repository
+	#pendingOperation: Promise<void> = Promise.resolve();
+
+	public constructor(
+		private readonly __messageBus: MessageBus,
+		private readonly __store: Store,
+		private readonly __storageUri: Uri | null,
+		private readonly __configurationContainer: Container<Configuration>,
+	) {
+		this.__messageBus.subscribe(MessageKind.jobsAccepted, (message) =>
+			this.#onJobsAcceptedMessage(message),
+		);
+		this.__messageBus.subscribe(MessageKind.jobsRejected, (message) =>
+			this.#onJobsRejectedMessage(message),
+		);
+	}
+
+	#enqueueOperation(operation: () => Promise<void>): Promise<void> {
+		this.#pendingOperation = this.#pendingOperation
+			.then(operation)
+			.catch((error) => {
+				console.error(error);
+
+				window.showErrorMessage(
+					error instanceof Error ? error.message : String(error),
+				);
+			});
+
+		return this.#pendingOperation;
+	}
+
+	#groupJobsByCaseHash(
+		jobs: ReadonlySet<Job>,
+	): ReadonlyMap<CaseHash, ReadonlyArray<Job>> {
+		const caseJobs = new Map<CaseHash, Job[]>();
+
+		for (const job of jobs) {
+			caseJobs.set(job.caseHashDigest, [
+				...(caseJobs.get(job.caseHashDigest) ?? []),
+				job,
+			]);
+		}
+
+		return caseJobs;
+	}
+
+	#onJobsAcceptedMessage(
+		message: Message & { kind: MessageKind.jobsAccepted },
+	) {
+		for (const [caseHash, jobs] of this.#groupJobsByCaseHash(
+			message.deletedJobs,
+		)) {
+			const state = this.__store.getState();
+
+			// the case is removed from the state once all of its jobs are accepted
+			const kase =
+				state.case.entities[caseHash] ??
+				state.appliedCases[caseHash]?.kase ??
+				null;
+
+			if (kase === null || kase.worktree === null) {
+				continue;
+			}
+
+			this.#enqueueOperation(async () => {
+				try {
+					const commit = await commitAppliedCase(
+						kase,
+						jobs.flatMap(getJobAffectedUris),
+						this.__configurationContainer.get()
+							.gitBranchNameTemplate,
+					);
+
+					if (commit !== null) {
+						window.showInformationMessage(
+							`Committed ${commit.fileCount} file(s) as ${commit.commitHash} on the ${commit.branchName} branch. Cherry-pick or merge it into your branch.`,
+						);
+					}
+				} catch (error) {
+					// the worktree is kept, so the applied changes can still be committed by hand
+					throw new Error(
+						`The changes were applied in the worktree ${
+							kase.worktree?.path
+						}, but could not be committed: ${
+							error instanceof Error
+								? error.message
+								: String(error)
+						}`,
+					);
+				}
+
+				await this.#removeWorktreeOfFinishedCase(caseHash);
+			});
+		}
+	}
+
+	#onJobsRejectedMessage(
+		message: Message & { kind: MessageKind.jobsRejected },
+	) {
+		for (const caseHash of this.#groupJobsByCaseHash(
+			message.deletedJobs,
+		).keys()) {
+			this.#enqueueOperation(() =>
+				this.#removeWorktreeOfFinishedCase(caseHash),
+			);
+		}
+	}
+
+	async #removeWorktreeOfFinishedCase(caseHash: CaseHash): Promise<void> {
+		if (
+			this.__storageUri === null ||
+			(this.__store.getState().case.entities[caseHash] ?? null) !== null
+		) {
+			return;
+		}
+
+		await removeWorktree(
+			getWorktreeDirectoryUri(this.__storageUri, caseHash),
+		);
+	}
+
+	public async removeAllWorktrees(): Promise<void> {
+		if (this.__storageUri === null) {
+			return;
+		}
+
+		const worktreesUri = getWorktreesUri(this.__storageUri);
+
+		if (!existsSync(worktreesUri.fsPath)) {
+			return;
+		}
+
+		const entries = await readdir(worktreesUri.fsPath, {
+			withFileTypes: true,
+		});
+
+		for (const entry of entries) {
+			if (entry.isDirectory()) {
+				await this.#enqueueOperation(() =>
+					removeWorktree(Uri.joinPath(worktreesUri, entry.name)),
+				);
+			}
+		}
+	}
+}
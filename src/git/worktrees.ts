@@ -0,0 +1,84 @@
+import { existsSync } from 'node:fs';
+import { readdir, rm } from 'node:fs/promises';
+import { basename, dirname, isAbsolute, join, relative } from 'node:path';
+import { Uri } from 'vscode';
+import type { CaseHash, Worktree } from '../cases/types';
+import { runGit } from './gitCommands';
+
+export const getWorktreesUri = (storageUri: Uri): Uri =>
+	Uri.joinPath(storageUri, 'worktrees');
+
+// each case gets its own directory, so the worktrees can be found by the case hash alone
+export const getWorktreeDirectoryUri = (
+	storageUri: Uri,
+	caseHash: CaseHash,
+): Uri => Uri.joinPath(getWorktreesUri(storageUri), caseHash);
+
+/**
+ * Creates a detached worktree at HEAD of the repository the target belongs to.
+ * The worktree directory is named after the repository, so the paths shown within it look familiar.
+ */
+export const createWorktree = async (
+	targetPath: string,
+	targetPathIsDirectory: boolean,
+	worktreeDirectoryUri: Uri,
+): Promise<Worktree> => {
+	const repositoryPath = (
+		await runGit(targetPathIsDirectory ? targetPath : dirname(targetPath), [
+			'rev-parse',
+			'--show-toplevel',
+		])
+	).trim();
+
+	const path = join(worktreeDirectoryUri.fsPath, basename(repositoryPath));
+
+	await runGit(repositoryPath, ['worktree', 'add', '--detach', path, 'HEAD']);
+
+	return { repositoryPath, path };
+};
+
+// the paths outside of the repository map onto the root of the worktree
+export const mapPathToWorktree = (path: string, worktree: Worktree): string => {
+	const relativePath = relative(worktree.repositoryPath, path);
+
+	return relativePath.startsWith('..') || isAbsolute(relativePath)
+		? worktree.path
+		: join(worktree.path, relativePath);
+};
+
+export const mapPathFromWorktree = (path: string, worktree: Worktree): string =>
+	join(worktree.repositoryPath, relative(worktree.path, path));
+
+/**
+ * Removes the worktree within the directory together with its administrative files in the repository.
+ * Does nothing if the directory does not exist.
+ */
+export const removeWorktree = async (
+	worktreeDirectoryUri: Uri,
+): Promise<void> => {
+	const directoryPath = worktreeDirectoryUri.fsPath;
+
+	if (!existsSync(directoryPath)) {
+		return;
+	}
+
+	const entries = await readdir(directoryPath, { withFileTypes: true });
+
+	for (const entry of entries) {
+		if (!entry.isDirectory()) {
+			continue;
+		}
+
+		const worktreePath = join(directoryPath, entry.name);
+
+		// the uncommitted output of the codemod is discarded with the worktree
+		await runGit(worktreePath, [
+			'worktree',
+			'remove',
+			'--force',
+			worktreePath,
+		]);
+	}
+
+	await rm(directoryPath, { recursive: true, force: true });
+};
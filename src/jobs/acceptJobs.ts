@@ -1,78 +1,180 @@
 import { Uri } from 'vscode';
 import { FileService } from '../components/fileService';
 import { Job, JobKind } from './types';
+import {
+	FileSnapshot,
+	findMissingDirectoryUris,
+	removeEmptyDirectories,
+	restoreFileSnapshot,
+	takeFileSnapshot,
+} from './fileSnapshot';
 
-export const acceptJobs = async (
+const buildRollbackMessage = (
+	reason: string,
+	restoredCount: number,
+	unrestoredCount: number,
+): string => {
+	if (unrestoredCount === 0) {
+		return `Could not apply the changes (${reason}). ${restoredCount} touched file(s) were rolled back.`;
+	}
+
+	const touchedCount = restoredCount + unrestoredCount;
+
+	return `Could not apply the changes (${reason}). ${unrestoredCount} of ${touchedCount} touched file(s) could not be rolled back.`;
+};
+
+export class JobsRolledBackError extends Error {
+	public constructor(
+		public readonly reason: string,
+		public readonly restoredUris: ReadonlyArray<Uri>,
+		public readonly unrestoredUris: ReadonlyArray<Uri>,
+	) {
+		super(
+			buildRollbackMessage(
+				reason,
+				restoredUris.length,
+				unrestoredUris.length,
+			),
+		);
+	}
+
+	public get detail(): string {
+		const lines: string[] = [];
+
+		if (this.restoredUris.length !== 0) {
+			lines.push(
+				'Rolled back:',
+				...this.restoredUris.map(({ fsPath }) => fsPath),
+			);
+		}
+
+		if (this.unrestoredUris.length !== 0) {
+			lines.push(
+				'Could not roll back:',
+				...this.unrestoredUris.map(({ fsPath }) => fsPath),
+			);
+		}
+
+		return lines.join('\n');
+	}
+}
+
+type Operation = Readonly<{
+	touchedUris: ReadonlyArray<Uri>;
+	apply: () => Promise<void>;
+}>;
+
+const buildOperations = (
 	fileService: FileService,
 	jobs: ReadonlyArray<Job>,
-) => {
-	const createJobOutputs: [Uri, Uri][] = [];
-	const updateJobOutputs: [Uri, Uri][] = [];
-	const deleteJobOutputs: Uri[] = [];
-	const moveJobOutputs: [Uri, Uri, Uri][] = [];
+): ReadonlyArray<Operation> => {
+	const createOperations: Operation[] = [];
+	const updateOperations: Operation[] = [];
+	const moveOperations: Operation[] = [];
+	const deleteOperations: Operation[] = [];
 
 	for (const job of jobs) {
+		const { oldUri, newUri, newContentUri } = job;
+
 		if (
-			job.kind === JobKind.createFile &&
-			job.newUri &&
-			job.newContentUri
+			(job.kind === JobKind.createFile ||
+				job.kind === JobKind.copyFile) &&
+			newUri &&
+			newContentUri
 		) {
-			createJobOutputs.push([job.newUri, job.newContentUri]);
+			createOperations.push({
+				touchedUris: [newUri],
+				apply: () => fileService.createFile({ newUri, newContentUri }),
+			});
 		}
 
-		if (job.kind === JobKind.deleteFile && job.oldUri) {
-			deleteJobOutputs.push(job.oldUri);
+		if (job.kind === JobKind.deleteFile && oldUri) {
+			deleteOperations.push({
+				touchedUris: [oldUri],
+				apply: () => fileService.deleteFile({ uri: oldUri }),
+			});
 		}
 
 		if (
 			(job.kind === JobKind.moveAndRewriteFile ||
 				job.kind === JobKind.moveFile) &&
-			job.oldUri &&
-			job.newUri &&
-			job.newContentUri
+			oldUri &&
+			newUri &&
+			newContentUri
 		) {
-			moveJobOutputs.push([job.oldUri, job.newUri, job.newContentUri]);
+			moveOperations.push({
+				touchedUris: [newUri, oldUri],
+				apply: () =>
+					fileService.moveFile({ oldUri, newUri, newContentUri }),
+			});
 		}
 
-		if (
-			job.kind === JobKind.rewriteFile &&
-			job.oldUri &&
-			job.newContentUri
-		) {
-			updateJobOutputs.push([job.oldUri, job.newContentUri]);
+		if (job.kind === JobKind.rewriteFile && oldUri && newContentUri) {
+			updateOperations.push({
+				touchedUris: [oldUri],
+				apply: () =>
+					fileService.updateFile({
+						uri: oldUri,
+						contentUri: newContentUri,
+					}),
+			});
 		}
+	}
+
+	return [
+		...createOperations,
+		...updateOperations,
+		...moveOperations,
+		...deleteOperations,
+	];
+};
+
+/**
+ * Applies the jobs as a single transaction: the affected files are read into a snapshot first
+ * and all the touched files are restored if any of the operations fails,
+ * along with removing the directories created for the new files.
+ */
+export const acceptJobs = async (
+	fileService: FileService,
+	jobs: ReadonlyArray<Job>,
+): Promise<FileSnapshot> => {
+	const snapshot = await takeFileSnapshot(jobs);
+
+	const missingDirectoryUris = await findMissingDirectoryUris(
+		snapshot
+			.filter(({ content }) => content === null)
+			.map(({ uri }) => uri),
+	);
+
+	const touchedUris = new Set<string>();
+
+	try {
+		for (const operation of buildOperations(fileService, jobs)) {
+			operation.touchedUris.forEach((uri) =>
+				touchedUris.add(uri.toString()),
+			);
 
-		if (job.kind === JobKind.copyFile && job.newUri && job.newContentUri) {
-			createJobOutputs.push([job.newUri, job.newContentUri]);
+			await operation.apply();
 		}
-	}
+	} catch (error) {
+		const touchedSnapshot = snapshot.filter(({ uri }) =>
+			touchedUris.has(uri.toString()),
+		);
 
-	for (const createJobOutput of createJobOutputs) {
-		const [newUri, newContentUri] = createJobOutput;
-		await fileService.createFile({
-			newUri,
-			newContentUri,
-		});
-	}
+		const unrestoredUris = await restoreFileSnapshot(touchedSnapshot);
 
-	for (const updateJobOutput of updateJobOutputs) {
-		const [uri, contentUri] = updateJobOutput;
-		await fileService.updateFile({
-			uri,
-			contentUri,
-		});
-	}
+		await removeEmptyDirectories(missingDirectoryUris);
+
+		const restoredUris = touchedSnapshot
+			.map(({ uri }) => uri)
+			.filter((uri) => !unrestoredUris.includes(uri));
 
-	for (const moveJobOutput of moveJobOutputs) {
-		const [oldUri, newUri, newContentUri] = moveJobOutput;
-		await fileService.moveFile({
-			oldUri,
-			newUri,
-			newContentUri,
-		});
+		throw new JobsRolledBackError(
+			error instanceof Error ? error.message : String(error),
+			restoredUris,
+			unrestoredUris,
+		);
 	}
 
-	await fileService.deleteFiles({
-		uris: deleteJobOutputs.slice(),
-	});
+	return snapshot;
 };
@@ -0,0 +1,181 @@
+import {
+	Position,
+	Range,
+	TextDocument,
+	Uri,
+	window,
+	workspace,
+	WorkspaceEdit,
+	WorkspaceEditEntryMetadata,
+} from 'vscode';
+import { Job, JobKind } from './types';
+import {
+	FileSnapshot,
+	getJobAffectedUris,
+	takeFileSnapshot,
+} from './fileSnapshot';
+
+export class ApplicationCancelledError extends Error {}
+
+const findOpenDocument = (uri: Uri): TextDocument | null =>
+	workspace.textDocuments.find(
+		(document) => document.uri.toString() === uri.toString(),
+	) ?? null;
+
+const readNewContent = async (newContentUri: Uri): Promise<string> =>
+	Buffer.from(await workspace.fs.readFile(newContentUri)).toString('utf8');
+
+const getFullRange = (document: TextDocument): Range =>
+	new Range(
+		new Position(0, 0),
+		document.lineAt(document.lineCount - 1).range.end,
+	);
+
+/**
+ * Asks the user to save the documents with unsaved changes that the jobs would touch.
+ * Throws ApplicationCancelledError if the user does not agree to it.
+ */
+export const saveDirtyDocuments = async (
+	jobs: ReadonlyArray<Job>,
+): Promise<void> => {
+	const dirtyDocuments = jobs
+		.flatMap(getJobAffectedUris)
+		.map(findOpenDocument)
+		.filter(
+			(document, index, documents): document is TextDocument =>
+				document !== null &&
+				document.isDirty &&
+				documents.indexOf(document) === index,
+		);
+
+	if (dirtyDocuments.length === 0) {
+		return;
+	}
+
+	const choice = await window.showWarningMessage(
+		`${dirtyDocuments.length} file(s) changed by the codemod have unsaved changes.`,
+		{
+			modal: true,
+			detail: [
+				'The unsaved changes need to be saved before applying the codemod changes:',
+				...dirtyDocuments.map(({ uri }) => uri.fsPath),
+			].join('\n'),
+		},
+		'Save and Apply',
+	);
+
+	if (choice !== 'Save and Apply') {
+		throw new ApplicationCancelledError(
+			'The application of the changes was cancelled.',
+		);
+	}
+
+	for (const document of dirtyDocuments) {
+		if (!(await document.save())) {
+			throw new Error(`Could not save ${document.uri.fsPath}.`);
+		}
+	}
+};
+
+const buildWorkspaceEdit = async (
+	jobs: ReadonlyArray<Job>,
+	metadata: WorkspaceEditEntryMetadata,
+): Promise<WorkspaceEdit> => {
+	const edit = new WorkspaceEdit();
+
+	const replaceContent = async (
+		uri: Uri,
+		contentUri: Uri,
+		documentUri: Uri,
+	) => {
+		const document = await workspace.openTextDocument(documentUri);
+
+		edit.replace(
+			uri,
+			getFullRange(document),
+			await readNewContent(contentUri),
+			metadata,
+		);
+	};
+
+	for (const { kind, oldUri, newUri, newContentUri } of jobs) {
+		if (
+			(kind === JobKind.createFile || kind === JobKind.copyFile) &&
+			newUri &&
+			newContentUri
+		) {
+			edit.createFile(newUri, { overwrite: true }, metadata);
+			edit.insert(
+				newUri,
+				new Position(0, 0),
+				await readNewContent(newContentUri),
+				metadata,
+			);
+		}
+
+		if (kind === JobKind.rewriteFile && oldUri && newContentUri) {
+			await replaceContent(oldUri, newContentUri, oldUri);
+		}
+
+		if (
+			(kind === JobKind.moveFile ||
+				kind === JobKind.moveAndRewriteFile) &&
+			oldUri &&
+			newUri
+		) {
+			edit.renameFile(oldUri, newUri, { overwrite: true }, metadata);
+
+			if (
+				kind === JobKind.moveAndRewriteFile &&
+				newContentUri &&
+				newContentUri.toString() !== oldUri.toString()
+			) {
+				await replaceContent(newUri, newContentUri, oldUri);
+			}
+		}
+
+		if (kind === JobKind.deleteFile && oldUri) {
+			edit.deleteFile(oldUri, { ignoreIfNotExists: true }, metadata);
+		}
+	}
+
+	return edit;
+};
+
+/**
+ * Applies the jobs as one workspace edit, so the changes join the undo stack of the editor
+ * and the open documents stay in sync with the file system.
+ * The dirty documents need to be saved beforehand with `saveDirtyDocuments`.
+ */
+export const applyJobsAsWorkspaceEdit = async (
+	jobs: ReadonlyArray<Job>,
+): Promise<FileSnapshot> => {
+	const snapshot = await takeFileSnapshot(jobs);
+
+	const codemodNames = Array.from(
+		new Set(jobs.map((job) => job.codemodName)),
+	);
+
+	const edit = await buildWorkspaceEdit(jobs, {
+		label: `Apply ${codemodNames.join(', ')}`,
+		needsConfirmation: false,
+	});
+
+	if (!(await workspace.applyEdit(edit))) {
+		throw new Error('Could not apply the changes as a workspace edit.');
+	}
+
+	const changedDocuments = jobs
+		.flatMap(getJobAffectedUris)
+		.map(findOpenDocument)
+		.filter(
+			(document): document is TextDocument =>
+				document !== null && document.isDirty,
+		);
+
+	for (const document of changedDocuments) {
+		await document.save();
+	}
+
+	return snapshot;
+};
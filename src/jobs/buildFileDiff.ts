@@ -0,0 +1,129 @@
+import { structuredPatch } from 'diff';
+import { JobKind } from './types';
+
+const FILE_MODE = '100644';
+const CONTEXT_LINE_COUNT = 3;
+const NO_NEWLINE_MARKER = '\\ No newline at end of file';
+
+export type FileDiff = Readonly<{
+	kind: JobKind;
+	oldPath: string | null;
+	newPath: string | null;
+	oldContent: string;
+	newContent: string;
+}>;
+
+const buildHunkLines = (
+	oldPath: string,
+	newPath: string,
+	oldContent: string,
+	newContent: string,
+): ReadonlyArray<string> => {
+	const { hunks } = structuredPatch(
+		oldPath,
+		newPath,
+		oldContent,
+		newContent,
+		undefined,
+		undefined,
+		{ context: CONTEXT_LINE_COUNT },
+	);
+
+	// the diff library treats an empty side as missing the trailing newline
+	const skipNoNewlineMarker =
+		(oldContent === '' || newContent === '') &&
+		(oldContent + newContent).endsWith('\n');
+
+	return hunks.flatMap(
+		({ oldStart, oldLines, newStart, newLines, lines }) => [
+			// an empty range starts one line before the place of the change
+			`@@ -${oldLines === 0 ? oldStart - 1 : oldStart},${oldLines} +${
+				newLines === 0 ? newStart - 1 : newStart
+			},${newLines} @@`,
+			...lines.filter(
+				(line) =>
+					!skipNoNewlineMarker || !line.startsWith(NO_NEWLINE_MARKER),
+			),
+		],
+	);
+};
+
+const buildHeaderLines = ({
+	kind,
+	oldPath,
+	newPath,
+}: FileDiff): ReadonlyArray<string> | null => {
+	if (kind === JobKind.createFile && newPath !== null) {
+		return [
+			`diff --git a/${newPath} b/${newPath}`,
+			`new file mode ${FILE_MODE}`,
+		];
+	}
+
+	if (kind === JobKind.deleteFile && oldPath !== null) {
+		return [
+			`diff --git a/${oldPath} b/${oldPath}`,
+			`deleted file mode ${FILE_MODE}`,
+		];
+	}
+
+	if (kind === JobKind.rewriteFile && oldPath !== null) {
+		return [`diff --git a/${oldPath} b/${oldPath}`];
+	}
+
+	if (
+		(kind === JobKind.moveFile || kind === JobKind.moveAndRewriteFile) &&
+		oldPath !== null &&
+		newPath !== null
+	) {
+		return [
+			`diff --git a/${oldPath} b/${newPath}`,
+			`rename from ${oldPath}`,
+			`rename to ${newPath}`,
+		];
+	}
+
+	if (kind === JobKind.copyFile && oldPath !== null && newPath !== null) {
+		return [
+			`diff --git a/${oldPath} b/${newPath}`,
+			`copy from ${oldPath}`,
+			`copy to ${newPath}`,
+		];
+	}
+
+	return null;
+};
+
+/**
+ * Formats the change of a single file the way `git diff` does,
+ * so the result can be used with `git apply`.
+ */
+export const buildFileDiff = (fileDiff: FileDiff): string | null => {
+	const headerLines = buildHeaderLines(fileDiff);
+
+	if (headerLines === null) {
+		return null;
+	}
+
+	const { kind, oldPath, newPath, oldContent, newContent } = fileDiff;
+
+	const oldFileName =
+		kind !== JobKind.createFile ? `a/${oldPath}` : '/dev/null';
+	const newFileName =
+		kind !== JobKind.deleteFile ? `b/${newPath}` : '/dev/null';
+
+	const hunkLines = buildHunkLines(
+		oldFileName,
+		newFileName,
+		oldContent,
+		newContent,
+	);
+
+	// git omits the file names for renames and copies without content changes
+	const fileNameLines =
+		hunkLines.length !== 0
+			? [`--- ${oldFileName}`, `+++ ${newFileName}`]
+			: [];
+
+	return [...headerLines, ...fileNameLines, ...hunkLines].join('\n') + '\n';
+};
@@ -0,0 +1,107 @@
+import { diffLines } from 'diff';
+
+export type JobHunk = Readonly<{
+	// one-based numbers of the lines before and after the change
+	oldStart: number;
+	newStart: number;
+	removedLineCount: number;
+	addedLineCount: number;
+}>;
+
+type ChangedBlock = {
+	kind: 'changed';
+	removedValue: string;
+	addedValue: string;
+	hunk: { -readonly [K in keyof JobHunk]: JobHunk[K] };
+};
+
+type Block = Readonly<{ kind: 'unchanged'; value: string }> | ChangedBlock;
+
+// the consecutive removals and additions make up one hunk
+const buildBlocks = (
+	oldContent: string,
+	newContent: string,
+): ReadonlyArray<Block> => {
+	const blocks: Block[] = [];
+
+	let oldLine = 1;
+	let newLine = 1;
+
+	for (const { value, added, removed, count } of diffLines(
+		oldContent,
+		newContent,
+	)) {
+		const lineCount = count ?? 0;
+
+		if (!added && !removed) {
+			blocks.push({ kind: 'unchanged', value });
+
+			oldLine += lineCount;
+			newLine += lineCount;
+			continue;
+		}
+
+		let block = blocks[blocks.length - 1];
+
+		if (block?.kind !== 'changed') {
+			block = {
+				kind: 'changed',
+				removedValue: '',
+				addedValue: '',
+				hunk: {
+					oldStart: oldLine,
+					newStart: newLine,
+					removedLineCount: 0,
+					addedLineCount: 0,
+				},
+			};
+
+			blocks.push(block);
+		}
+
+		if (removed) {
+			block.removedValue += value;
+			block.hunk.removedLineCount += lineCount;
+			oldLine += lineCount;
+		} else {
+			block.addedValue += value;
+			block.hunk.addedLineCount += lineCount;
+			newLine += lineCount;
+		}
+	}
+
+	return blocks;
+};
+
+export const buildHunks = (
+	oldContent: string,
+	newContent: string,
+): ReadonlyArray<JobHunk> =>
+	buildBlocks(oldContent, newContent).flatMap((block) =>
+		block.kind === 'changed' ? [block.hunk] : [],
+	);
+
+/**
+ * Builds the new content with the rejected hunks kept as in the old content.
+ * The hunks are identified by their indices in the result of `buildHunks`.
+ */
+export const applyAcceptedHunks = (
+	oldContent: string,
+	newContent: string,
+	rejectedHunkIndices: ReadonlyArray<number>,
+): string => {
+	let hunkIndex = 0;
+
+	return buildBlocks(oldContent, newContent)
+		.map((block) => {
+			if (block.kind === 'unchanged') {
+				return block.value;
+			}
+
+			const rejected = rejectedHunkIndices.includes(hunkIndex);
+			hunkIndex += 1;
+
+			return rejected ? block.removedValue : block.addedValue;
+		})
+		.join('');
+};
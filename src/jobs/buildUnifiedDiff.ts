@@ -0,0 +1,69 @@
+import { relative, sep } from 'node:path';
+import { Uri, workspace } from 'vscode';
+import { buildFileDiff, FileDiff } from './buildFileDiff';
+import { Job, JobKind } from './types';
+
+const readContent = async (uri: Uri | null): Promise<string> =>
+	uri !== null
+		? Buffer.from(await workspace.fs.readFile(uri)).toString('utf8')
+		: '';
+
+const toPatchPath = (rootPath: string, uri: Uri | null): string | null =>
+	uri !== null ? relative(rootPath, uri.fsPath).split(sep).join('/') : null;
+
+/**
+ * Reads the content of the file before and after applying the job,
+ * with the missing sides (e.g. of a created file) as empty strings.
+ */
+export const readJobContents = async ({
+	kind,
+	oldUri,
+	newContentUri,
+}: Job): Promise<Pick<FileDiff, 'oldContent' | 'newContent'>> => {
+	const oldContent =
+		kind !== JobKind.createFile ? await readContent(oldUri) : '';
+
+	const newContent =
+		kind === JobKind.deleteFile
+			? ''
+			: kind === JobKind.moveFile
+			? oldContent
+			: await readContent(newContentUri);
+
+	return { oldContent, newContent };
+};
+
+const buildJobFileDiff = async (
+	job: Job,
+	rootPath: string,
+): Promise<FileDiff> => {
+	const { kind, oldUri, newUri } = job;
+
+	return {
+		kind,
+		oldPath: toPatchPath(rootPath, oldUri),
+		newPath: toPatchPath(rootPath, newUri ?? oldUri),
+		...(await readJobContents(job)),
+	};
+};
+
+/**
+ * Builds one git-compatible unified diff out of the jobs,
+ * with the paths relative to the root path.
+ */
+export const buildUnifiedDiff = async (
+	jobs: ReadonlyArray<Job>,
+	rootPath: string,
+): Promise<string> => {
+	const fileDiffs: string[] = [];
+
+	for (const job of jobs) {
+		const fileDiff = buildFileDiff(await buildJobFileDiff(job, rootPath));
+
+		if (fileDiff !== null) {
+			fileDiffs.push(fileDiff);
+		}
+	}
+
+	return fileDiffs.join('');
+};
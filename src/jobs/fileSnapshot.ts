@@ -0,0 +1,161 @@
+import { FileSystemError, Uri, workspace } from 'vscode';
+import { Job, JobKind } from './types';
+
+export type FileSnapshotEntry = Readonly<{
+	uri: Uri;
+	// null means that the file did not exist when the snapshot was taken
+	content: Uint8Array | null;
+}>;
+
+export type FileSnapshot = ReadonlyArray<FileSnapshotEntry>;
+
+export const getJobAffectedUris = (job: Job): ReadonlyArray<Uri> => {
+	if (job.kind === JobKind.createFile || job.kind === JobKind.copyFile) {
+		return job.newUri ? [job.newUri] : [];
+	}
+
+	if (job.kind === JobKind.rewriteFile || job.kind === JobKind.deleteFile) {
+		return job.oldUri ? [job.oldUri] : [];
+	}
+
+	return [job.oldUri, job.newUri].filter((uri): uri is Uri => uri !== null);
+};
+
+const readFileOrNull = async (uri: Uri): Promise<Uint8Array | null> => {
+	try {
+		return await workspace.fs.readFile(uri);
+	} catch (error) {
+		if (error instanceof FileSystemError) {
+			return null;
+		}
+
+		throw error;
+	}
+};
+
+export const takeFileSnapshot = async (
+	jobs: ReadonlyArray<Job>,
+): Promise<FileSnapshot> => {
+	const uris = new Map<string, Uri>();
+
+	for (const job of jobs) {
+		for (const uri of getJobAffectedUris(job)) {
+			uris.set(uri.toString(), uri);
+		}
+	}
+
+	const entries: FileSnapshotEntry[] = [];
+
+	for (const uri of uris.values()) {
+		entries.push({
+			uri,
+			content: await readFileOrNull(uri),
+		});
+	}
+
+	return entries;
+};
+
+/**
+ * Brings the files back to the state captured in the snapshot.
+ * Returns the URIs which could not be restored.
+ */
+export const restoreFileSnapshot = async (
+	snapshot: FileSnapshot,
+): Promise<ReadonlyArray<Uri>> => {
+	const unrestoredUris: Uri[] = [];
+
+	for (const { uri, content } of snapshot) {
+		try {
+			if (content === null) {
+				if ((await readFileOrNull(uri)) !== null) {
+					await workspace.fs.delete(uri, {
+						recursive: false,
+						useTrash: false,
+					});
+				}
+
+				continue;
+			}
+
+			await workspace.fs.createDirectory(Uri.joinPath(uri, '..'));
+			await workspace.fs.writeFile(uri, content);
+		} catch (error) {
+			console.error(error);
+
+			unrestoredUris.push(uri);
+		}
+	}
+
+	return unrestoredUris;
+};
+
+const doesExist = async (uri: Uri): Promise<boolean> => {
+	try {
+		await workspace.fs.stat(uri);
+
+		return true;
+	} catch (error) {
+		if (error instanceof FileSystemError) {
+			return false;
+		}
+
+		throw error;
+	}
+};
+
+/**
+ * Finds the directories that writing the files would create, the deepest ones first.
+ */
+export const findMissingDirectoryUris = async (
+	uris: ReadonlyArray<Uri>,
+): Promise<ReadonlyArray<Uri>> => {
+	const missingDirectoryUris = new Map<string, Uri>();
+
+	for (const uri of uris) {
+		let directoryUri = Uri.joinPath(uri, '..');
+
+		// the root is its own parent
+		while (
+			directoryUri.path !== Uri.joinPath(directoryUri, '..').path &&
+			!missingDirectoryUris.has(directoryUri.toString()) &&
+			!(await doesExist(directoryUri))
+		) {
+			missingDirectoryUris.set(directoryUri.toString(), directoryUri);
+
+			directoryUri = Uri.joinPath(directoryUri, '..');
+		}
+	}
+
+	return Array.from(missingDirectoryUris.values()).sort(
+		(a, b) => b.path.length - a.path.length,
+	);
+};
+
+/**
+ * Deletes the directories that are empty, in order, so the deepest ones should come first.
+ * The directories which cannot be deleted are logged only.
+ */
+export const removeEmptyDirectories = async (
+	directoryUris: ReadonlyArray<Uri>,
+): Promise<void> => {
+	for (const directoryUri of directoryUris) {
+		try {
+			if (!(await doesExist(directoryUri))) {
+				continue;
+			}
+
+			// the files written there by anything else are kept
+			if ((await workspace.fs.readDirectory(directoryUri)).length !== 0) {
+				continue;
+			}
+
+			await workspace.fs.delete(directoryUri, {
+				recursive: false,
+				useTrash: false,
+			});
+		} catch (error) {
+			console.error(error);
+		}
+	}
+};
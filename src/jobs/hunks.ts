@@ -0,0 +1,68 @@
+import { FileSystemError, Uri, workspace } from 'vscode';
+import { applyAcceptedHunks } from './buildHunks';
+import { Job, JobKind } from './types';
+
+export const isHunkReviewable = (kind: JobKind): boolean =>
+	kind === JobKind.rewriteFile || kind === JobKind.moveAndRewriteFile;
+
+const getPartialContentUri = (newContentUri: Uri): Uri =>
+	Uri.file(`${newContentUri.fsPath}.partial`);
+
+/**
+ * Writes the content with only the accepted hunks next to the job output
+ * and returns the job pointing to it, so the original output stays intact for undoing.
+ */
+export const buildPartialJob = async (
+	job: Job,
+	rejectedHunkIndices: ReadonlyArray<number>,
+): Promise<Job> => {
+	const { kind, oldUri, newContentUri } = job;
+
+	if (
+		rejectedHunkIndices.length === 0 ||
+		!isHunkReviewable(kind) ||
+		oldUri === null ||
+		newContentUri === null
+	) {
+		return job;
+	}
+
+	const oldContent = Buffer.from(await workspace.fs.readFile(oldUri));
+	const newContent = Buffer.from(await workspace.fs.readFile(newContentUri));
+
+	const partialContentUri = getPartialContentUri(newContentUri);
+
+	await workspace.fs.writeFile(
+		partialContentUri,
+		Buffer.from(
+			applyAcceptedHunks(
+				oldContent.toString('utf8'),
+				newContent.toString('utf8'),
+				rejectedHunkIndices,
+			),
+		),
+	);
+
+	return { ...job, newContentUri: partialContentUri };
+};
+
+/**
+ * Deletes the content written by `buildPartialJob` for the job, if any,
+ * once the partial job has been applied.
+ */
+export const deletePartialContent = async (job: Job): Promise<void> => {
+	if (job.newContentUri === null) {
+		return;
+	}
+
+	try {
+		await workspace.fs.delete(getPartialContentUri(job.newContentUri), {
+			recursive: false,
+			useTrash: false,
+		});
+	} catch (error) {
+		if (!(error instanceof FileSystemError)) {
+			throw error;
+		}
+	}
+};
@@ -0,0 +1,197 @@
+import { extname, join } from 'node:path';
+import { applyPatch } from 'diff';
+import { FileSystemError, Uri, workspace } from 'vscode';
+import type { CaseHash } from '../cases/types';
+import { buildHash } from '../utilities';
+import { buildJobHash } from './buildJobHash';
+import { FilePatch } from './parseUnifiedDiff';
+import { Job, JobKind } from './types';
+
+export class PatchApplicationError extends Error {}
+
+type ImportContext = Readonly<{
+	rootPath: string;
+	// the directory for the new contents of the files
+	outputUri: Uri;
+	caseHashDigest: CaseHash;
+	codemodName: string;
+}>;
+
+const readFileContent = async (uri: Uri): Promise<Uint8Array> => {
+	try {
+		return await workspace.fs.readFile(uri);
+	} catch (error) {
+		if (error instanceof FileSystemError) {
+			throw new PatchApplicationError(
+				`The patch changes ${uri.fsPath} that does not exist.`,
+			);
+		}
+
+		throw error;
+	}
+};
+
+const patchContent = (
+	content: string,
+	{ kind, oldPath, newPath, diff }: FilePatch,
+): string => {
+	// the typings omit that the patch returns false if it does not apply
+	const newContent = applyPatch(content, diff) as string | false;
+
+	if (newContent === false) {
+		throw new PatchApplicationError(
+			`The patch does not apply to ${
+				kind === 'create' ? newPath : oldPath
+			}.`,
+		);
+	}
+
+	return newContent;
+};
+
+const writeNewContent = async (
+	{ outputUri }: ImportContext,
+	path: string,
+	content: string,
+): Promise<Uri> => {
+	const newContentUri = Uri.joinPath(
+		outputUri,
+		`${buildHash(path)}${extname(path)}`,
+	);
+
+	await workspace.fs.writeFile(newContentUri, Buffer.from(content));
+
+	return newContentUri;
+};
+
+const buildJob = async (
+	filePatch: FilePatch,
+	context: ImportContext,
+): Promise<Omit<Job, 'hash'>> => {
+	const { rootPath, caseHashDigest, codemodName } = context;
+	const { kind, oldPath, newPath, diff } = filePatch;
+
+	const oldUri = oldPath !== null ? Uri.file(join(rootPath, oldPath)) : null;
+	const newUri = newPath !== null ? Uri.file(join(rootPath, newPath)) : null;
+
+	const commonFields = {
+		codemodName,
+		createdAt: Date.now(),
+		caseHashDigest,
+	};
+
+	if (kind === 'create' && newUri !== null && newPath !== null) {
+		const newContent = patchContent('', filePatch);
+
+		return {
+			...commonFields,
+			kind: JobKind.createFile,
+			oldUri: null,
+			newUri,
+			newContentUri: await writeNewContent(context, newPath, newContent),
+			originalNewContent: newContent,
+			oldContentHashDigest: null,
+			oldContentUri: null,
+		};
+	}
+
+	if (oldUri === null || oldPath === null) {
+		throw new PatchApplicationError('The patch does not name a file.');
+	}
+
+	const oldContent = await readFileContent(oldUri);
+	const oldContentHashDigest = buildHash(oldContent);
+
+	if (kind === 'delete') {
+		return {
+			...commonFields,
+			kind: JobKind.deleteFile,
+			oldUri,
+			newUri: null,
+			newContentUri: null,
+			originalNewContent: null,
+			oldContentHashDigest,
+			oldContentUri: null,
+		};
+	}
+
+	const newContent = patchContent(
+		Buffer.from(oldContent).toString('utf8'),
+		filePatch,
+	);
+
+	if (kind === 'modify') {
+		const newContentUri = await writeNewContent(
+			context,
+			oldPath,
+			newContent,
+		);
+		// the base copy allows merging the job if the file changes later on
+		const oldContentUri = Uri.file(`${newContentUri.fsPath}.base`);
+
+		await workspace.fs.writeFile(oldContentUri, oldContent);
+
+		return {
+			...commonFields,
+			kind: JobKind.rewriteFile,
+			oldUri,
+			newUri: oldUri,
+			newContentUri,
+			originalNewContent: newContent,
+			oldContentHashDigest,
+			oldContentUri,
+		};
+	}
+
+	if (newUri === null || newPath === null) {
+		throw new PatchApplicationError(
+			`The patch does not name the new path of ${oldPath}.`,
+		);
+	}
+
+	const newContentUri =
+		diff.hunks.length !== 0
+			? await writeNewContent(context, newPath, newContent)
+			: oldUri;
+
+	return {
+		...commonFields,
+		kind:
+			kind === 'copy'
+				? JobKind.copyFile
+				: diff.hunks.length !== 0
+				? JobKind.moveAndRewriteFile
+				: JobKind.moveFile,
+		oldUri,
+		newUri,
+		newContentUri,
+		originalNewContent: newContent,
+		oldContentHashDigest,
+		oldContentUri: null,
+	};
+};
+
+/**
+ * Builds the jobs of the file patches the way an engine run would,
+ * with the new contents written into the output directory.
+ * Throws PatchApplicationError if any of the patches does not apply to the workspace.
+ */
+export const buildPatchJobs = async (
+	filePatches: ReadonlyArray<FilePatch>,
+	context: ImportContext,
+): Promise<ReadonlyArray<Job>> => {
+	await workspace.fs.createDirectory(context.outputUri);
+
+	const jobs: Job[] = [];
+
+	for (const filePatch of filePatches) {
+		const hashlessJob = await buildJob(filePatch, context);
+
+		jobs.push({
+			...hashlessJob,
+			hash: buildJobHash(hashlessJob, context.caseHashDigest),
+		});
+	}
+
+	return jobs;
+};
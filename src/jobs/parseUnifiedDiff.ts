@@ -0,0 +1,274 @@
+import type { Hunk, ParsedDiff } from 'diff';
+
+export class InvalidPatchError extends Error {}
+
+export type FilePatchKind = 'create' | 'delete' | 'modify' | 'rename' | 'copy';
+
+export type FilePatch = Readonly<{
+	kind: FilePatchKind;
+	// the paths are relative to the directory the patch was created in
+	oldPath: string | null;
+	newPath: string | null;
+	diff: ParsedDiff;
+}>;
+
+type Section = {
+	gitPaths: Readonly<{ oldPath: string; newPath: string }> | null;
+	oldFileName: string | null | undefined;
+	newFileName: string | null | undefined;
+	newFile: boolean;
+	deletedFile: boolean;
+	renameFrom: string | null;
+	renameTo: string | null;
+	copyFrom: string | null;
+	copyTo: string | null;
+	hunks: Hunk[];
+};
+
+const HUNK_HEADER_REGEX = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+const buildSection = (
+	gitPaths: Section['gitPaths'],
+	oldFileName?: string | null,
+	newFileName?: string | null,
+): Section => ({
+	gitPaths,
+	oldFileName,
+	newFileName,
+	newFile: false,
+	deletedFile: false,
+	renameFrom: null,
+	renameTo: null,
+	copyFrom: null,
+	copyTo: null,
+	hunks: [],
+});
+
+const parseGitPaths = (line: string): Section['gitPaths'] => {
+	const match =
+		/^diff --git a\/(.+) b\/(.+)$/.exec(line) ??
+		/^diff --git (\S+) (\S+)$/.exec(line);
+
+	return match?.[1] !== undefined && match[2] !== undefined
+		? { oldPath: match[1], newPath: match[2] }
+		: null;
+};
+
+// the file names can be followed by a tab and a timestamp
+const parseFileName = (line: string): string | null => {
+	const fileName = line.slice(4).split('\t')[0]?.trim() ?? '';
+
+	return fileName === '/dev/null' ? null : fileName;
+};
+
+const stripPrefix = (
+	fileName: string | null | undefined,
+	prefix: string,
+): string | null | undefined =>
+	fileName?.startsWith(prefix) ? fileName.slice(prefix.length) : fileName;
+
+const parseHunk = (
+	lines: ReadonlyArray<string>,
+	index: number,
+): [Hunk, number] => {
+	const match = HUNK_HEADER_REGEX.exec(lines[index] ?? '');
+
+	if (match === null) {
+		throw new InvalidPatchError(`Invalid hunk header: ${lines[index]}`);
+	}
+
+	const oldLines = match[2] !== undefined ? Number(match[2]) : 1;
+	const newLines = match[4] !== undefined ? Number(match[4]) : 1;
+	const hunkLines: string[] = [];
+
+	let oldLineCount = oldLines;
+	let newLineCount = newLines;
+	let nextIndex = index + 1;
+
+	while (oldLineCount > 0 || newLineCount > 0) {
+		const line = lines[nextIndex];
+
+		if (line === undefined) {
+			throw new InvalidPatchError(
+				`The hunk at ${lines[index]} ends prematurely.`,
+			);
+		}
+
+		// some editors strip the trailing whitespace of the empty context lines
+		if (line === '' || line.startsWith(' ')) {
+			oldLineCount -= 1;
+			newLineCount -= 1;
+		} else if (line.startsWith('-')) {
+			oldLineCount -= 1;
+		} else if (line.startsWith('+')) {
+			newLineCount -= 1;
+		} else if (!line.startsWith('\\')) {
+			throw new InvalidPatchError(`Invalid hunk line: ${line}`);
+		}
+
+		hunkLines.push(line === '' ? ' ' : line);
+		nextIndex += 1;
+	}
+
+	// the marker of the missing newline follows the last line of the hunk
+	if (lines[nextIndex]?.startsWith('\\')) {
+		hunkLines.push(lines[nextIndex] ?? '');
+		nextIndex += 1;
+	}
+
+	const hunk: Hunk = {
+		oldStart: Number(match[1]),
+		oldLines,
+		newStart: Number(match[3]),
+		newLines,
+		lines: hunkLines,
+		// applying the patch requires the line delimiters
+		linedelimiters: hunkLines.map(() => '\n'),
+	};
+
+	return [hunk, nextIndex];
+};
+
+const buildFilePatch = (section: Section): FilePatch | null => {
+	const hasPrefixes =
+		section.gitPaths !== null ||
+		((section.oldFileName?.startsWith('a/') ?? true) &&
+			(section.newFileName?.startsWith('b/') ?? true));
+
+	const oldFileName = hasPrefixes
+		? stripPrefix(section.oldFileName, 'a/')
+		: section.oldFileName;
+	const newFileName = hasPrefixes
+		? stripPrefix(section.newFileName, 'b/')
+		: section.newFileName;
+
+	// the sections without hunks, e.g. pure renames, name their files only in the git header
+	const oldPath =
+		section.renameFrom ??
+		section.copyFrom ??
+		(oldFileName !== undefined
+			? oldFileName
+			: section.newFile
+			? null
+			: section.gitPaths?.oldPath ?? null);
+
+	const newPath =
+		section.renameTo ??
+		section.copyTo ??
+		(newFileName !== undefined
+			? newFileName
+			: section.deletedFile
+			? null
+			: section.gitPaths?.newPath ?? null);
+
+	const diff: ParsedDiff = {
+		oldFileName: oldPath ?? '/dev/null',
+		newFileName: newPath ?? '/dev/null',
+		hunks: section.hunks,
+	};
+
+	if (oldPath === null && newPath !== null) {
+		return { kind: 'create', oldPath, newPath, diff };
+	}
+
+	if (newPath === null && oldPath !== null) {
+		return { kind: 'delete', oldPath, newPath, diff };
+	}
+
+	if (oldPath === null || newPath === null) {
+		return null;
+	}
+
+	if (section.copyFrom !== null) {
+		return { kind: 'copy', oldPath, newPath, diff };
+	}
+
+	if (oldPath !== newPath) {
+		return { kind: 'rename', oldPath, newPath, diff };
+	}
+
+	// e.g. the changes of the file mode only
+	if (section.hunks.length === 0) {
+		return null;
+	}
+
+	return { kind: 'modify', oldPath, newPath, diff };
+};
+
+/**
+ * Parses unified diffs, including the extended headers of `git diff`
+ * (new, deleted, renamed and copied files).
+ * Throws InvalidPatchError for malformed hunks and binary changes.
+ */
+export const parseUnifiedDiff = (patch: string): ReadonlyArray<FilePatch> => {
+	const lines = patch.replace(/\r\n/g, '\n').split('\n');
+	const sections: Section[] = [];
+
+	let section: Section | null = null;
+	let index = 0;
+
+	while (index < lines.length) {
+		const line = lines[index] ?? '';
+
+		if (line.startsWith('diff --git ')) {
+			section = buildSection(parseGitPaths(line));
+			sections.push(section);
+			index += 1;
+			continue;
+		}
+
+		if (line.startsWith('--- ') && lines[index + 1]?.startsWith('+++ ')) {
+			const oldFileName = parseFileName(line);
+			const newFileName = parseFileName(lines[index + 1] ?? '');
+
+			// plain unified diffs have no line separating the files
+			if (section === null || section.oldFileName !== undefined) {
+				section = buildSection(null, oldFileName, newFileName);
+				sections.push(section);
+			} else {
+				section.oldFileName = oldFileName;
+				section.newFileName = newFileName;
+			}
+
+			index += 2;
+			continue;
+		}
+
+		if (line.startsWith('@@ ') && section !== null) {
+			const [hunk, nextIndex] = parseHunk(lines, index);
+
+			section.hunks.push(hunk);
+			index = nextIndex;
+			continue;
+		}
+
+		if (section !== null) {
+			if (line.startsWith('new file mode ')) {
+				section.newFile = true;
+			} else if (line.startsWith('deleted file mode ')) {
+				section.deletedFile = true;
+			} else if (line.startsWith('rename from ')) {
+				section.renameFrom = line.slice('rename from '.length);
+			} else if (line.startsWith('rename to ')) {
+				section.renameTo = line.slice('rename to '.length);
+			} else if (line.startsWith('copy from ')) {
+				section.copyFrom = line.slice('copy from '.length);
+			} else if (line.startsWith('copy to ')) {
+				section.copyTo = line.slice('copy to '.length);
+			} else if (
+				line.startsWith('Binary files ') ||
+				line === 'GIT binary patch'
+			) {
+				throw new InvalidPatchError(
+					`Binary changes cannot be imported: ${line}`,
+				);
+			}
+		}
+
+		index += 1;
+	}
+
+	return sections
+		.map(buildFilePatch)
+		.filter((filePatch): filePatch is FilePatch => filePatch !== null);
+};
@@ -0,0 +1,56 @@
+import { FileSystemError, workspace } from 'vscode';
+import { buildHash } from '../utilities';
+import { Job } from './types';
+
+export class StaleJobsError extends Error {
+	public constructor(public readonly staleJobs: ReadonlyArray<Job>) {
+		super(
+			`${staleJobs.length} file(s) changed since the codemod was run. Re-run the codemod on them, merge them or force-apply them from the change explorer.`,
+		);
+	}
+
+	public get detail(): string {
+		return this.staleJobs
+			.map(({ oldUri }) => oldUri?.fsPath ?? null)
+			.filter((fsPath): fsPath is string => fsPath !== null)
+			.join('\n');
+	}
+}
+
+const readContentHashDigest = async (job: Job): Promise<string | null> => {
+	if (job.oldUri === null) {
+		return null;
+	}
+
+	try {
+		return buildHash(await workspace.fs.readFile(job.oldUri));
+	} catch (error) {
+		if (error instanceof FileSystemError) {
+			return null;
+		}
+
+		throw error;
+	}
+};
+
+/**
+ * Finds the jobs whose input files do not match the fingerprints taken during the dry run.
+ * Jobs created without a fingerprint (e.g. the ones persisted before it was introduced) are never stale.
+ */
+export const findStaleJobs = async (
+	jobs: ReadonlyArray<Job>,
+): Promise<ReadonlyArray<Job>> => {
+	const staleJobs: Job[] = [];
+
+	for (const job of jobs) {
+		if (job.oldContentHashDigest === null) {
+			continue;
+		}
+
+		if ((await readContentHashDigest(job)) !== job.oldContentHashDigest) {
+			staleJobs.push(job);
+		}
+	}
+
+	return staleJobs;
+};
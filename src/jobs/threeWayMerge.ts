@@ -0,0 +1,201 @@
+import { diffArrays } from 'diff';
+
+export const CONFLICT_START_MARKER = '<<<<<<< current';
+export const CONFLICT_SEPARATOR_MARKER = '=======';
+export const CONFLICT_END_MARKER = '>>>>>>> codemod';
+
+type Hunk = Readonly<{
+	side: 'current' | 'codemod';
+	baseStart: number;
+	baseEnd: number;
+	sideStart: number;
+	sideEnd: number;
+}>;
+
+export type MergeResult = Readonly<{
+	content: string;
+	conflictCount: number;
+}>;
+
+const splitLines = (content: string): ReadonlyArray<string> =>
+	content.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+
+const buildHunks = (
+	side: Hunk['side'],
+	baseLines: ReadonlyArray<string>,
+	sideLines: ReadonlyArray<string>,
+): ReadonlyArray<Hunk> => {
+	const hunks: Hunk[] = [];
+
+	let baseIndex = 0;
+	let sideIndex = 0;
+	let hunk: { baseStart: number; sideStart: number } | null = null;
+
+	const closeHunk = () => {
+		if (hunk === null) {
+			return;
+		}
+
+		hunks.push({
+			side,
+			baseStart: hunk.baseStart,
+			baseEnd: baseIndex,
+			sideStart: hunk.sideStart,
+			sideEnd: sideIndex,
+		});
+
+		hunk = null;
+	};
+
+	for (const change of diffArrays([...baseLines], [...sideLines])) {
+		const count = change.count ?? change.value.length;
+
+		if (!change.added && !change.removed) {
+			closeHunk();
+
+			baseIndex += count;
+			sideIndex += count;
+
+			continue;
+		}
+
+		hunk = hunk ?? { baseStart: baseIndex, sideStart: sideIndex };
+
+		if (change.removed) {
+			baseIndex += count;
+		} else {
+			sideIndex += count;
+		}
+	}
+
+	closeHunk();
+
+	return hunks;
+};
+
+// the unchanged lines between the hunks of the same side map one-to-one onto the base
+const getSideLines = (
+	baseLines: ReadonlyArray<string>,
+	sideLines: ReadonlyArray<string>,
+	hunks: ReadonlyArray<Hunk>,
+	baseStart: number,
+	baseEnd: number,
+): ReadonlyArray<string> => {
+	const firstHunk = hunks[0] ?? null;
+	const lastHunk = hunks[hunks.length - 1] ?? null;
+
+	if (firstHunk === null || lastHunk === null) {
+		return baseLines.slice(baseStart, baseEnd);
+	}
+
+	return sideLines.slice(
+		firstHunk.sideStart - (firstHunk.baseStart - baseStart),
+		lastHunk.sideEnd + (baseEnd - lastHunk.baseEnd),
+	);
+};
+
+const withTrailingLineBreak = (lines: ReadonlyArray<string>) =>
+	lines.map((line, index) =>
+		index === lines.length - 1 && !line.endsWith('\n') ? `${line}\n` : line,
+	);
+
+/**
+ * Merges the changes made to the base content in the current file
+ * with the ones made by the codemod.
+ * Overlapping or adjacent changes that differ are surrounded with conflict markers.
+ */
+export const threeWayMerge = (
+	baseContent: string,
+	currentContent: string,
+	codemodContent: string,
+): MergeResult => {
+	const baseLines = splitLines(baseContent);
+	const currentLines = splitLines(currentContent);
+	const codemodLines = splitLines(codemodContent);
+
+	const hunks = [
+		...buildHunks('current', baseLines, currentLines),
+		...buildHunks('codemod', baseLines, codemodLines),
+	].sort((a, b) => a.baseStart - b.baseStart || a.baseEnd - b.baseEnd);
+
+	const mergedLines: string[] = [];
+	let conflictCount = 0;
+	let baseIndex = 0;
+	let hunkIndex = 0;
+
+	while (hunkIndex < hunks.length) {
+		const firstHunk = hunks[hunkIndex];
+
+		if (firstHunk === undefined) {
+			break;
+		}
+
+		const chunkHunks: Hunk[] = [firstHunk];
+		let chunkEnd = firstHunk.baseEnd;
+
+		++hunkIndex;
+
+		for (
+			let hunk = hunks[hunkIndex];
+			hunk !== undefined && hunk.baseStart <= chunkEnd;
+			hunk = hunks[++hunkIndex]
+		) {
+			chunkHunks.push(hunk);
+			chunkEnd = Math.max(chunkEnd, hunk.baseEnd);
+		}
+
+		const chunkStart = firstHunk.baseStart;
+
+		mergedLines.push(...baseLines.slice(baseIndex, chunkStart));
+
+		const currentHunks = chunkHunks.filter(
+			({ side }) => side === 'current',
+		);
+		const codemodHunks = chunkHunks.filter(
+			({ side }) => side === 'codemod',
+		);
+
+		const currentChunkLines = getSideLines(
+			baseLines,
+			currentLines,
+			currentHunks,
+			chunkStart,
+			chunkEnd,
+		);
+		const codemodChunkLines = getSideLines(
+			baseLines,
+			codemodLines,
+			codemodHunks,
+			chunkStart,
+			chunkEnd,
+		);
+
+		if (
+			codemodHunks.length === 0 ||
+			currentChunkLines.join('') === codemodChunkLines.join('')
+		) {
+			mergedLines.push(...currentChunkLines);
+		} else if (currentHunks.length === 0) {
+			mergedLines.push(...codemodChunkLines);
+		} else {
+			++conflictCount;
+
+			mergedLines.push(
+				`${CONFLICT_START_MARKER}\n`,
+				...withTrailingLineBreak(currentChunkLines),
+				`${CONFLICT_SEPARATOR_MARKER}\n`,
+				...withTrailingLineBreak(codemodChunkLines),
+				`${CONFLICT_END_MARKER}\n`,
+			);
+		}
+
+		baseIndex = chunkEnd;
+	}
+
+	mergedLines.push(...baseLines.slice(baseIndex));
+
+	return {
+		content: mergedLines.join(''),
+		conflictCount,
+	};
+};
@@ -1,5 +1,6 @@
 import { Uri } from 'vscode';
 import * as t from 'io-ts';
+import { withFallback } from 'io-ts-types';
 import { buildTypeCodec } from '../utilities';
 import { CaseHash, caseHashCodec } from '../cases/types';
 
@@ -25,6 +26,15 @@ export const enum JobKind {
 	copyFile = 6,
 }
 
+export const jobKindCodec = t.union([
+	t.literal(JobKind.rewriteFile),
+	t.literal(JobKind.createFile),
+	t.literal(JobKind.deleteFile),
+	t.literal(JobKind.moveAndRewriteFile),
+	t.literal(JobKind.moveFile),
+	t.literal(JobKind.copyFile),
+]);
+
 export type Job = Readonly<{
 	hash: JobHash;
 	kind: JobKind;
@@ -32,6 +42,10 @@ export type Job = Readonly<{
 	newUri: Uri | null;
 	newContentUri: Uri | null;
 	originalNewContent: string | null;
+	// the hash digest of the old file content at the time of the dry run
+	oldContentHashDigest: string | null;
+	// a copy of the old file content at the time of the dry run, used as the merge base
+	oldContentUri: Uri | null;
 	codemodName: string;
 	createdAt: number;
 	caseHashDigest: CaseHash;
@@ -39,18 +53,13 @@ export type Job = Readonly<{
 
 export const persistedJobCodec = buildTypeCodec({
 	hash: jobHashCodec,
-	kind: t.union([
-		t.literal(JobKind.rewriteFile),
-		t.literal(JobKind.createFile),
-		t.literal(JobKind.deleteFile),
-		t.literal(JobKind.moveAndRewriteFile),
-		t.literal(JobKind.moveFile),
-		t.literal(JobKind.copyFile),
-	]),
+	kind: jobKindCodec,
 	oldUri: t.union([t.string, t.null]),
 	newUri: t.union([t.string, t.null]),
 	newContentUri: t.union([t.string, t.null]),
 	originalNewContent: t.union([t.string, t.null]),
+	oldContentHashDigest: withFallback(t.union([t.string, t.null]), null),
+	oldContentUri: withFallback(t.union([t.string, t.null]), null),
 	codemodName: t.string,
 	caseHashDigest: caseHashCodec,
 	createdAt: t.number,
@@ -64,6 +73,7 @@ export const mapJobToPersistedJob = (job: Job): PersistedJob => {
 		oldUri: job.oldUri?.toString() ?? null,
 		newUri: job.newUri?.toString() ?? null,
 		newContentUri: job.newContentUri?.toString() ?? null,
+		oldContentUri: job.oldContentUri?.toString() ?? null,
 		originalNewContent: job.originalNewContent,
 	};
 };
@@ -76,6 +86,9 @@ export const mapPersistedJobToJob = (persistedJob: PersistedJob): Job => {
 		newContentUri: persistedJob.newContentUri
 			? Uri.parse(persistedJob.newContentUri)
 			: null,
+		oldContentUri: persistedJob.oldContentUri
+			? Uri.parse(persistedJob.oldContentUri)
+			: null,
 		originalNewContent: persistedJob.originalNewContent,
 	};
 };
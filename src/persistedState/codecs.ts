@@ -3,10 +3,13 @@ import { buildTypeCodec } from '../utilities';
 import { codemodEntryCodec, privateCodemodEntryCodec } from '../codemods/types';
 import { executionErrorCodec } from '../errors/types';
 import { withFallback } from 'io-ts-types';
-import { persistedJobCodec } from '../jobs/types';
+import { jobHashCodec, persistedJobCodec } from '../jobs/types';
 import { caseCodec, caseHashCodec } from '../cases/types';
 import { codemodNodeHashDigestCodec } from '../selectors/selectCodemodTree';
 import { _explorerNodeHashDigestCodec } from './explorerNodeCodec';
+import { appliedCaseCodec } from '../appliedCases/types';
+import { jobOutcomeCodec } from '../caseReports/types';
+import { queuedExecutionCodec } from '../executionQueue/types';
 
 export const syntheticErrorCodec = buildTypeCodec({
 	kind: t.literal('syntheticError'),
@@ -161,7 +164,18 @@ export const persistedStateCodecNew = buildTypeCodec({
 		null,
 	),
 	caseHashJobHashes: withFallback(t.readonlyArray(t.string), []),
-	caseHashInProgress: withFallback(t.union([caseHashCodec, t.null]), null),
+	staleJobHashes: withFallback(t.readonlyArray(jobHashCodec), []),
+	// the indices of the hunks rejected in the diff viewer
+	rejectedHunks: withFallback(
+		t.record(jobHashCodec, t.readonlyArray(t.number)),
+		{},
+	),
+	appliedCases: withFallback(t.record(caseHashCodec, appliedCaseCodec), {}),
+	jobOutcomes: withFallback(t.readonlyArray(jobOutcomeCodec), []),
+	// the executions waiting for the one in progress, in the order of execution
+	executionQueue: withFallback(t.readonlyArray(queuedExecutionCodec), []),
+	executionQueuePaused: withFallback(t.boolean, false),
+	caseHashesInProgress: withFallback(t.readonlyArray(caseHashCodec), []),
 	applySelectedInProgress: withFallback(t.boolean, false),
 	activeTabId: withFallback(activeTabIdCodec, 'codemods'),
 	explorerSearchPhrases: withFallback(t.record(caseHashCodec, t.string), {}),
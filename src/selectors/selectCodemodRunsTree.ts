@@ -1,13 +1,25 @@
 import { RootState } from '../data';
 import { isNeitherNullNorUndefined } from '../utilities';
-import { sep } from 'path';
+import { getCaseRootPath } from '../workspaceFolders';
+import { basename } from 'path';
 
-export const selectCodemodRunsTree = (state: RootState, rootPath: string) => {
+export const selectCodemodRunsTree = (
+	state: RootState,
+	rootPaths: ReadonlyArray<string>,
+) => {
 	const { selectedCaseHash } = state.codemodRunsTab;
-	const dirName = rootPath.split(sep).slice(-1).join(sep);
 
-	const nodeData = Object.values(state.case.entities)
+	const pendingCases = Object.values(state.case.entities).filter(
+		isNeitherNullNorUndefined,
+	);
+
+	// fully applied cases are removed from the pending ones, but they can be still undone
+	const appliedCases = Object.values(state.appliedCases)
 		.filter(isNeitherNullNorUndefined)
+		.map(({ kase }) => kase)
+		.filter(({ hash }) => (state.case.entities[hash] ?? null) === null);
+
+	const nodeData = [...pendingCases, ...appliedCases]
 		.sort((a, b) => a.createdAt - b.createdAt)
 		.map((kase) => {
 			const label =
@@ -18,12 +30,20 @@ export const selectCodemodRunsTree = (state: RootState, rootPath: string) => {
 					  kase.codemodName
 					: kase.codemodName;
 
+			// the path starts with the name of the workspace folder the case belongs to
+			const rootPath = getCaseRootPath(kase, rootPaths) ?? '';
+
 			return {
 				node: {
 					hashDigest: kase.hash,
 					label,
 					createdAt: kase.createdAt,
-					path: kase.path.replace(rootPath, dirName),
+					path: kase.path.replace(rootPath, basename(rootPath)),
+					appliedAt: state.appliedCases[kase.hash]?.appliedAt ?? null,
+					// the changes applied in the worktrees are committed there instead
+					canBeUndone:
+						kase.worktree === null &&
+						(state.appliedCases[kase.hash] ?? null) !== null,
 				} as const,
 				depth: 0,
 				expanded: true,
@@ -4,6 +4,8 @@ import { RootState } from '../data';
 import * as t from 'io-ts';
 import * as T from 'fp-ts/These';
 import { CodemodHash } from '../packageJsonAnalyzer/types';
+import { findRootPath } from '../workspaceFolders';
+import { selectQueuedCodemodHashes } from './selectExecutionQueue';
 
 const IntuitaCertifiedCodemods = [
 	'next/13/app-directory-boilerplate',
@@ -73,6 +75,7 @@ export const buildCodemodNode = (
 	codemod: CodemodEntry | PrivateCodemodEntry,
 	name: string,
 	executionPath: string,
+	rootPath: string | null,
 	queued: boolean,
 	isPrivate: boolean,
 	args: ReadonlyArray<CodemodArgumentWithValue>,
@@ -84,6 +87,7 @@ export const buildCodemodNode = (
 		hashDigest: codemod.hashDigest as CodemodNodeHashDigest,
 		label: buildCodemodTitle(name),
 		executionPath: T.right(executionPath),
+		rootPath,
 		queued: queued,
 		icon: isPrivate
 			? 'private'
@@ -104,19 +108,19 @@ export type CodemodNode =
 
 export const selectPrivateCodemods = (
 	state: RootState,
-	rootPath: string | null,
-	executionQueue: ReadonlyArray<CodemodHash>,
+	rootPaths: ReadonlyArray<string>,
 ) => {
 	const codemods = Object.values(
 		state.privateCodemods.entities,
 	) as PrivateCodemodEntry[];
+	const queuedCodemodHashes = selectQueuedCodemodHashes(state);
 
 	const nodeData: NodeDatum[] = codemods.map((codemod) => {
 		const { name, hashDigest } = codemod;
 		const { executionPaths } = state.codemodDiscoveryView;
 
 		const executionPath =
-			executionPaths[codemod.hashDigest] ?? rootPath ?? '/';
+			executionPaths[codemod.hashDigest] ?? rootPaths[0] ?? '/';
 
 		const args = selectCodemodArguments(
 			state,
@@ -127,7 +131,8 @@ export const selectPrivateCodemods = (
 			codemod,
 			name,
 			executionPath,
-			executionQueue.includes(codemod.hashDigest as CodemodHash),
+			findRootPath(rootPaths, executionPath),
+			queuedCodemodHashes.includes(codemod.hashDigest as CodemodHash),
 			true,
 			args,
 		);
@@ -159,11 +164,11 @@ export const selectPrivateCodemods = (
 
 export const selectCodemodTree = (
 	state: RootState,
-	rootPath: string | null,
-	executionQueue: ReadonlyArray<CodemodHash>,
+	rootPaths: ReadonlyArray<string>,
 ) => {
 	const codemods = Object.values(state.codemod.entities) as CodemodEntry[];
 	codemods.sort((a, b) => a.name.localeCompare(b.name));
+	const queuedCodemodHashes = selectQueuedCodemodHashes(state);
 	const { executionPaths, searchPhrase } = state.codemodDiscoveryView;
 
 	const nodes: Record<CodemodNodeHashDigest, CodemodNode> = {};
@@ -208,7 +213,7 @@ export const selectCodemodTree = (
 
 			if (idx === pathParts.length - 1) {
 				const executionPath =
-					executionPaths[codemod.hashDigest] ?? rootPath ?? '/';
+					executionPaths[codemod.hashDigest] ?? rootPaths[0] ?? '/';
 
 				const args = selectCodemodArguments(
 					state,
@@ -219,7 +224,10 @@ export const selectCodemodTree = (
 					codemod,
 					part,
 					executionPath,
-					executionQueue.includes(codemod.hashDigest as CodemodHash),
+					findRootPath(rootPaths, executionPath),
+					queuedCodemodHashes.includes(
+						codemod.hashDigest as CodemodHash,
+					),
 					false,
 					args,
 				);
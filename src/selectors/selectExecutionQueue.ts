@@ -0,0 +1,47 @@
+import { basename } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import type { RootState } from '../data';
+import type { CodemodHash } from '../packageJsonAnalyzer/types';
+import { findRootPath } from '../workspaceFolders';
+
+export const selectQueuedCodemodHashes = (
+	state: RootState,
+): ReadonlyArray<CodemodHash> =>
+	state.executionQueue.flatMap(({ command }) =>
+		command.kind !== 'executePiranhaRule' && command.codemodHash !== null
+			? [command.codemodHash as CodemodHash]
+			: [],
+	);
+
+export const selectExecutionQueue = (
+	state: RootState,
+	rootPaths: ReadonlyArray<string>,
+) => {
+	const items = state.executionQueue.map(
+		({ executionId, command, targetUri }) => {
+			const targetPath = fileURLToPath(targetUri);
+
+			// the path starts with the name of the workspace folder the target belongs to
+			const rootPath = findRootPath(rootPaths, targetPath) ?? '';
+
+			return {
+				executionId,
+				name: command.name,
+				targetPath: targetPath.replace(rootPath, basename(rootPath)),
+				arguments:
+					'arguments' in command
+						? command.arguments
+								.map(({ name, value }) => `${name}=${value}`)
+								.join(', ')
+						: '',
+			} as const;
+		},
+	);
+
+	return {
+		items,
+		paused: state.executionQueuePaused,
+	} as const;
+};
+
+export type ExecutionQueue = ReturnType<typeof selectExecutionQueue>;
@@ -15,6 +15,7 @@ import {
 	doesJobAddNewFile,
 	getPersistedJobUri,
 } from './comparePersistedJobs';
+import { getCaseRootPath } from '../workspaceFolders';
 
 const FUZZY_SEARCH_MINIMUM_SCORE = -1000;
 export const selectSearchPhrase = (state: RootState, caseHash: CaseHash) =>
@@ -23,7 +24,7 @@ export const selectSearchPhrase = (state: RootState, caseHash: CaseHash) =>
 export const selectExplorerNodes = (
 	state: RootState,
 	caseHash: CaseHash,
-	rootPath: string,
+	rootPaths: ReadonlyArray<string>,
 ) => {
 	const kase = state.case.entities[caseHash] ?? null;
 
@@ -31,6 +32,8 @@ export const selectExplorerNodes = (
 		return;
 	}
 
+	const rootPath = getCaseRootPath(kase, rootPaths) ?? '';
+
 	const nodes: Record<_ExplorerNodeHashDigest, _ExplorerNode> = {};
 
 	// we can iterate through the sets based on the insertion order
@@ -286,14 +289,39 @@ export const selectNodeData = (
 	);
 };
 
-export const selectExplorerTree = (state: RootState, rootPath: string) => {
+/**
+ * Returns the job hashes of the selected files of the case.
+ * All files are selected for a case that has never been opened in the change explorer.
+ */
+export const selectSelectedJobHashes = (
+	state: RootState,
+	caseHash: CaseHash,
+	rootPaths: ReadonlyArray<string>,
+): ReadonlyArray<JobHash> => {
+	const selectedExplorerNodeHashDigests =
+		state.selectedExplorerNodes[caseHash] ?? null;
+
+	return (selectExplorerNodes(state, caseHash, rootPaths) ?? [])
+		.filter(
+			(node): node is _ExplorerNode & { kind: 'FILE' } =>
+				node.kind === 'FILE' &&
+				(selectedExplorerNodeHashDigests === null ||
+					selectedExplorerNodeHashDigests.includes(node.hashDigest)),
+		)
+		.map(({ jobHash }) => jobHash);
+};
+
+export const selectExplorerTree = (
+	state: RootState,
+	rootPaths: ReadonlyArray<string>,
+) => {
 	const caseHash = state.codemodRunsTab.selectedCaseHash as CaseHash | null;
 
-	if (state.caseHashInProgress === caseHash) {
+	if (caseHash === null) {
 		return null;
 	}
 
-	if (caseHash === null) {
+	if (state.caseHashesInProgress.includes(caseHash)) {
 		return null;
 	}
 
@@ -303,7 +331,7 @@ export const selectExplorerTree = (state: RootState, rootPath: string) => {
 		return null;
 	}
 
-	const explorerNodes = selectExplorerNodes(state, caseHash, rootPath) ?? [];
+	const explorerNodes = selectExplorerNodes(state, caseHash, rootPaths) ?? [];
 	const nodeData = selectNodeData(state, caseHash, explorerNodes);
 	const nodes = explorerNodes;
 
@@ -324,6 +352,10 @@ export const selectExplorerTree = (state: RootState, rootPath: string) => {
 	const indeterminateExplorerNodeHashDigests =
 		state.indeterminateExplorerNodes[caseHash] ?? [];
 
+	const staleJobHashes = fileNodes
+		.map(({ jobHash }) => jobHash)
+		.filter((jobHash) => state.staleJobHashes.includes(jobHash));
+
 	return {
 		caseHash,
 		nodeData,
@@ -334,6 +366,7 @@ export const selectExplorerTree = (state: RootState, rootPath: string) => {
 		selectedJobHashes,
 		selectedJobCount: selectedFiles.length,
 		indeterminateExplorerNodeHashDigests,
+		staleJobHashes,
 	};
 };
 
@@ -1,18 +1,16 @@
-import type { Uri } from 'vscode';
 import type { RootState } from '../data';
 import { selectCodemodRunsTree } from './selectCodemodRunsTree';
 import { selectCodemodTree, selectPrivateCodemods } from './selectCodemodTree';
 import { selectExplorerTree } from './selectExplorerTree';
-import { CodemodHash } from '../packageJsonAnalyzer/types';
+import { selectExecutionQueue } from './selectExecutionQueue';
 import { selectSourceControlTabProps } from './selectSourceControlTabProps';
 
 export const selectMainWebviewViewProps = (
 	state: RootState,
-	rootUri: Uri | null,
+	rootPaths: ReadonlyArray<string>,
 	autocompleteItems: ReadonlyArray<string>,
-	executionQueue: ReadonlyArray<CodemodHash>,
 ) => {
-	if (rootUri === null) {
+	if (rootPaths.length === 0) {
 		return null;
 	}
 
@@ -22,17 +20,9 @@ export const selectMainWebviewViewProps = (
 			toaster: state.toaster,
 			searchPhrase: state.codemodDiscoveryView.searchPhrase,
 			autocompleteItems,
-			codemodTree: selectCodemodTree(
-				state,
-				rootUri?.fsPath ?? null,
-				executionQueue,
-			),
-			privateCodemods: selectPrivateCodemods(
-				state,
-				rootUri?.fsPath ?? null,
-				executionQueue,
-			),
-			rootPath: rootUri?.fsPath ?? null,
+			codemodTree: selectCodemodTree(state, rootPaths),
+			privateCodemods: selectPrivateCodemods(state, rootPaths),
+			rootPaths,
 			publicRegistryCollapsed:
 				state.codemodDiscoveryView.publicRegistryCollapsed,
 			privateRegistryCollapsed:
@@ -47,15 +37,10 @@ export const selectMainWebviewViewProps = (
 			activeTabId: state.activeTabId,
 			toaster: state.toaster,
 			applySelectedInProgress: state.applySelectedInProgress,
-			codemodRunsTree:
-				rootUri !== null
-					? selectCodemodRunsTree(state, rootUri.fsPath)
-					: null,
-			changeExplorerTree:
-				rootUri !== null
-					? selectExplorerTree(state, rootUri.fsPath)
-					: null,
-			codemodExecutionInProgress: state.caseHashInProgress !== null,
+			codemodRunsTree: selectCodemodRunsTree(state, rootPaths),
+			changeExplorerTree: selectExplorerTree(state, rootPaths),
+			codemodExecutionInProgress: state.caseHashesInProgress.length !== 0,
+			executionQueue: selectExecutionQueue(state, rootPaths),
 			panelGroupSettings: state.codemodRunsTab.panelGroupSettings,
 			resultsCollapsed: state.codemodRunsTab.resultsCollapsed,
 			changeExplorerCollapsed:
@@ -0,0 +1,37 @@
+import { RelativePattern, Uri, workspace } from 'vscode';
+import type { ExecutionSettings } from './cases/types';
+
+/**
+ * Lists the files within the target that the engine would process
+ * with the include and exclude patterns of the settings.
+ */
+export const listTargetUris = async (
+	targetUri: Uri,
+	targetUriIsDirectory: boolean,
+	{
+		includePatterns,
+		excludePatterns,
+	}: Pick<ExecutionSettings, 'includePatterns' | 'excludePatterns'>,
+): Promise<ReadonlyArray<Uri>> => {
+	if (!targetUriIsDirectory) {
+		return [targetUri];
+	}
+
+	const exclude =
+		excludePatterns.length !== 0
+			? new RelativePattern(targetUri, `{${excludePatterns.join(',')}}`)
+			: null;
+
+	const uris = await Promise.all(
+		includePatterns.map((includePattern) =>
+			workspace.findFiles(
+				new RelativePattern(targetUri, includePattern),
+				exclude,
+			),
+		),
+	);
+
+	const paths = new Set(uris.flat().map(({ fsPath }) => fsPath));
+
+	return Array.from(paths).map((path) => Uri.file(path));
+};
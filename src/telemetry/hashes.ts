@@ -1,5 +1,9 @@
 import { randomBytes } from 'node:crypto';
 import type { CaseHash } from '../cases/types';
+import type { ExecutionId } from '../executionQueue/types';
 
 export const buildCaseHash = (): CaseHash =>
 	randomBytes(20).toString('base64url') as CaseHash;
+
+export const buildExecutionId = (): ExecutionId =>
+	randomBytes(20).toString('base64url') as ExecutionId;
@@ -3,11 +3,14 @@ import { Event, ErrorEvent, Telemetry } from './telemetry';
 import { Message, MessageBus, MessageKind } from '../components/messageBus';
 import { Job } from '../jobs/types';
 import { CaseHash } from '../cases/types';
+import { Configuration } from '../configuration';
+import { Container } from '../container';
 
 export class VscodeTelemetry implements Telemetry {
 	constructor(
 		private readonly __telemetryReporter: TelemetryReporter,
 		private readonly __messageBus: MessageBus,
+		private readonly __configurationContainer: Container<Configuration>,
 	) {
 		this.__messageBus.subscribe(
 			MessageKind.codemodSetExecuted,
@@ -116,6 +119,10 @@ export class VscodeTelemetry implements Telemetry {
 	}
 
 	sendEvent(event: Event): void {
+		if (this.__configurationContainer.get().offlineMode) {
+			return;
+		}
+
 		const { name, properties, measurements } =
 			this.__rawEventToTelemetryEvent(event);
 
@@ -127,6 +134,10 @@ export class VscodeTelemetry implements Telemetry {
 	}
 
 	sendError(event: ErrorEvent): void {
+		if (this.__configurationContainer.get().offlineMode) {
+			return;
+		}
+
 		const { name, properties, measurements } =
 			this.__rawEventToTelemetryEvent(event);
 		this.__telemetryReporter.sendTelemetryErrorEvent(
@@ -26,7 +26,7 @@ export function assertsNeitherNullOrUndefined<T>(
 	}
 }
 
-export const buildHash = (data: string) =>
+export const buildHash = (data: string | Uint8Array) =>
 	createHash('ripemd160').update(data).digest('base64url');
 
 export const buildTypeCodec = <T extends t.Props>(
@@ -0,0 +1,47 @@
+import { sep } from 'node:path';
+import { Uri, window, workspace } from 'vscode';
+import type { Case } from './cases/types';
+
+export const getWorkspaceFolderPaths = (): ReadonlyArray<string> =>
+	workspace.workspaceFolders?.map(({ uri }) => uri.fsPath) ?? [];
+
+/**
+ * Finds the innermost workspace folder containing the path.
+ */
+export const findRootPath = (
+	rootPaths: ReadonlyArray<string>,
+	path: string,
+): string | null =>
+	rootPaths
+		.filter(
+			(rootPath) =>
+				path === rootPath ||
+				path.startsWith(
+					rootPath.endsWith(sep) ? rootPath : rootPath + sep,
+				),
+		)
+		.sort((a, b) => b.length - a.length)[0] ?? null;
+
+// the cases created before the root paths were recorded get the workspace folder of their target
+export const getCaseRootPath = (
+	kase: Case,
+	rootPaths: ReadonlyArray<string>,
+): string | null =>
+	kase.rootPath ?? findRootPath(rootPaths, kase.path) ?? rootPaths[0] ?? null;
+
+/**
+ * Returns the only workspace folder or asks the user to pick one in a multi-root workspace.
+ */
+export const pickWorkspaceFolderUri = async (): Promise<Uri | null> => {
+	const workspaceFolders = workspace.workspaceFolders ?? [];
+
+	if (workspaceFolders.length < 2) {
+		return workspaceFolders[0]?.uri ?? null;
+	}
+
+	const workspaceFolder = await window.showWorkspaceFolderPick({
+		placeHolder: 'Select the workspace folder to run the codemod in',
+	});
+
+	return workspaceFolder?.uri ?? null;
+};
@@ -0,0 +1,66 @@
+import { expect } from 'chai';
+import { parseDigestManifest } from '../../src/components/parseDigestManifest';
+
+const NODE_DIGEST = 'a'.repeat(64);
+const RUST_DIGEST = '0123456789abcdef'.repeat(4);
+
+describe('parseDigestManifest', () => {
+	it('should key the digests by the file names', () => {
+		const digests = parseDigestManifest(
+			`${NODE_DIGEST}  intuita-linux\n${RUST_DIGEST}  piranha-linux\n`,
+		);
+
+		expect(Array.from(digests)).to.deep.eq([
+			['intuita-linux', NODE_DIGEST],
+			['piranha-linux', RUST_DIGEST],
+		]);
+	});
+
+	it('should accept the binary mode marker', () => {
+		expect(
+			parseDigestManifest(`${NODE_DIGEST} *intuita-win.exe`).get(
+				'intuita-win.exe',
+			),
+		).to.eq(NODE_DIGEST);
+	});
+
+	it('should lowercase the digests', () => {
+		expect(
+			parseDigestManifest(
+				`${RUST_DIGEST.toUpperCase()}  piranha-macos`,
+			).get('piranha-macos'),
+		).to.eq(RUST_DIGEST);
+	});
+
+	it('should accept the Windows line breaks', () => {
+		const digests = parseDigestManifest(
+			`${NODE_DIGEST}  intuita-linux\r\n${RUST_DIGEST}  piranha-linux\r\n`,
+		);
+
+		expect(digests.get('intuita-linux')).to.eq(NODE_DIGEST);
+		expect(digests.get('piranha-linux')).to.eq(RUST_DIGEST);
+	});
+
+	it('should keep the spaces within the file names', () => {
+		expect(
+			parseDigestManifest(`${NODE_DIGEST}  intuita linux`).get(
+				'intuita linux',
+			),
+		).to.eq(NODE_DIGEST);
+	});
+
+	it('should skip the lines that are not in the sha256sum format', () => {
+		const digests = parseDigestManifest(
+			[
+				'# the digests of the engines',
+				'',
+				`${NODE_DIGEST.slice(1)}  truncated`,
+				`${NODE_DIGEST}intuita-linux`,
+				`${'g'.repeat(64)}  not-hex`,
+				`${RUST_DIGEST}  piranha-linux`,
+			].join('\n'),
+		);
+
+		expect(Array.from(digests.keys())).to.deep.eq(['piranha-linux']);
+	});
+});
@@ -0,0 +1,116 @@
+import { expect } from 'chai';
+import { applyPatch } from 'diff';
+import { buildFileDiff, FileDiff } from '../../src/jobs/buildFileDiff';
+import { parseUnifiedDiff } from '../../src/jobs/parseUnifiedDiff';
+import { JobKind } from '../../src/jobs/types';
+
+const parseFileDiff = (fileDiff: FileDiff) => {
+	const patch = buildFileDiff(fileDiff);
+
+	expect(patch).not.to.eq(null);
+
+	const filePatches = parseUnifiedDiff(patch ?? '');
+
+	expect(filePatches).to.have.length(1);
+
+	return filePatches[0];
+};
+
+describe('buildFileDiff', () => {
+	it('should round-trip the rewritten files', () => {
+		const oldContent = Array.from(
+			{ length: 20 },
+			(_, index) => `line ${index}\n`,
+		).join('');
+		const newContent = oldContent
+			.replace('line 2\n', 'line two\n')
+			.replace('line 17\n', '');
+
+		const filePatch = parseFileDiff({
+			kind: JobKind.rewriteFile,
+			oldPath: 'src/index.ts',
+			newPath: 'src/index.ts',
+			oldContent,
+			newContent,
+		});
+
+		expect(filePatch?.kind).to.eq('modify');
+		expect(filePatch?.oldPath).to.eq('src/index.ts');
+		expect(filePatch?.newPath).to.eq('src/index.ts');
+		expect(filePatch?.diff.hunks).to.have.length(2);
+		expect(applyPatch(oldContent, filePatch?.diff ?? '')).to.eq(newContent);
+	});
+
+	it('should round-trip the created files', () => {
+		const filePatch = parseFileDiff({
+			kind: JobKind.createFile,
+			oldPath: null,
+			newPath: 'src/new.ts',
+			oldContent: '',
+			newContent: 'export {};\n',
+		});
+
+		expect(filePatch?.kind).to.eq('create');
+		expect(filePatch?.oldPath).to.eq(null);
+		expect(filePatch?.newPath).to.eq('src/new.ts');
+		expect(applyPatch('', filePatch?.diff ?? '')).to.eq('export {};\n');
+	});
+
+	it('should round-trip the deleted files', () => {
+		const filePatch = parseFileDiff({
+			kind: JobKind.deleteFile,
+			oldPath: 'src/old.ts',
+			newPath: 'src/old.ts',
+			oldContent: 'export {};\n',
+			newContent: '',
+		});
+
+		expect(filePatch?.kind).to.eq('delete');
+		expect(filePatch?.oldPath).to.eq('src/old.ts');
+		expect(filePatch?.newPath).to.eq(null);
+		expect(applyPatch('export {};\n', filePatch?.diff ?? '')).to.eq('');
+	});
+
+	it('should round-trip the moved files without content changes', () => {
+		const filePatch = parseFileDiff({
+			kind: JobKind.moveFile,
+			oldPath: 'src/a.ts',
+			newPath: 'src/b.ts',
+			oldContent: 'export {};\n',
+			newContent: 'export {};\n',
+		});
+
+		expect(filePatch?.kind).to.eq('rename');
+		expect(filePatch?.oldPath).to.eq('src/a.ts');
+		expect(filePatch?.newPath).to.eq('src/b.ts');
+		expect(filePatch?.diff.hunks).to.have.length(0);
+	});
+
+	it('should round-trip the moved and rewritten files', () => {
+		const filePatch = parseFileDiff({
+			kind: JobKind.moveAndRewriteFile,
+			oldPath: 'src/a.ts',
+			newPath: 'src/b.ts',
+			oldContent: 'const a = 1;\n',
+			newContent: 'const b = 1;\n',
+		});
+
+		expect(filePatch?.kind).to.eq('rename');
+		expect(filePatch?.newPath).to.eq('src/b.ts');
+		expect(applyPatch('const a = 1;\n', filePatch?.diff ?? '')).to.eq(
+			'const b = 1;\n',
+		);
+	});
+
+	it('should round-trip the files without the trailing line break', () => {
+		const filePatch = parseFileDiff({
+			kind: JobKind.rewriteFile,
+			oldPath: 'src/index.ts',
+			newPath: 'src/index.ts',
+			oldContent: 'a\nb',
+			newContent: 'a\nc',
+		});
+
+		expect(applyPatch('a\nb', filePatch?.diff ?? '')).to.eq('a\nc');
+	});
+});
@@ -0,0 +1,62 @@
+import { expect } from 'chai';
+import { applyAcceptedHunks, buildHunks } from '../../src/jobs/buildHunks';
+
+describe('buildHunks', () => {
+	it('should number the lines of the hunks from one', () => {
+		expect(buildHunks('a\nb\nc\n', 'a\nB\nc\nd\n')).to.deep.eq([
+			{
+				oldStart: 2,
+				newStart: 2,
+				removedLineCount: 1,
+				addedLineCount: 1,
+			},
+			{
+				oldStart: 4,
+				newStart: 4,
+				removedLineCount: 0,
+				addedLineCount: 1,
+			},
+		]);
+	});
+
+	it('should build no hunks for the same contents', () => {
+		expect(buildHunks('a\nb\n', 'a\nb\n')).to.deep.eq([]);
+	});
+});
+
+describe('applyAcceptedHunks', () => {
+	const oldContent = 'a\nb\nc\nd\ne\n';
+	const newContent = 'A\nb\nc\nD\nD2\ne\nf\n';
+
+	it('should build the new content if no hunk was rejected', () => {
+		expect(applyAcceptedHunks(oldContent, newContent, [])).to.eq(
+			newContent,
+		);
+	});
+
+	it('should build the old content if all hunks were rejected', () => {
+		expect(applyAcceptedHunks(oldContent, newContent, [0, 1, 2])).to.eq(
+			oldContent,
+		);
+	});
+
+	it('should keep the rejected hunks as in the old content', () => {
+		expect(applyAcceptedHunks(oldContent, newContent, [1])).to.eq(
+			'A\nb\nc\nd\ne\nf\n',
+		);
+	});
+
+	it('should identify the hunks by their indices in the result of buildHunks', () => {
+		expect(buildHunks(oldContent, newContent)).to.have.length(3);
+
+		expect(applyAcceptedHunks(oldContent, newContent, [0, 2])).to.eq(
+			'a\nb\nc\nD\nD2\ne\n',
+		);
+	});
+
+	it('should ignore the indices of the hunks that do not exist', () => {
+		expect(applyAcceptedHunks(oldContent, newContent, [3])).to.eq(
+			newContent,
+		);
+	});
+});
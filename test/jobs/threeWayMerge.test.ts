@@ -0,0 +1,106 @@
+import { expect } from 'chai';
+import {
+	CONFLICT_END_MARKER,
+	CONFLICT_SEPARATOR_MARKER,
+	CONFLICT_START_MARKER,
+	threeWayMerge,
+} from '../../src/jobs/threeWayMerge';
+
+describe('threeWayMerge', () => {
+	const baseContent = 'a\nb\nc\nd\ne\n';
+
+	it('should keep the base content if neither side changed it', () => {
+		expect(threeWayMerge(baseContent, baseContent, baseContent)).to.deep.eq(
+			{
+				content: baseContent,
+				conflictCount: 0,
+			},
+		);
+	});
+
+	it('should take the codemod changes if the current file did not change', () => {
+		expect(
+			threeWayMerge(baseContent, baseContent, 'a\nB\nc\nd\ne\n'),
+		).to.deep.eq({
+			content: 'a\nB\nc\nd\ne\n',
+			conflictCount: 0,
+		});
+	});
+
+	it('should keep the current changes if the codemod did not change the file', () => {
+		expect(
+			threeWayMerge(baseContent, 'a\nb\nc\nD\ne\n', baseContent),
+		).to.deep.eq({
+			content: 'a\nb\nc\nD\ne\n',
+			conflictCount: 0,
+		});
+	});
+
+	it('should merge the changes made to the different lines', () => {
+		expect(
+			threeWayMerge(baseContent, 'a\nb\nc\nd\nE\n', 'A\nb\nc\nd\ne\n'),
+		).to.deep.eq({
+			content: 'A\nb\nc\nd\nE\n',
+			conflictCount: 0,
+		});
+	});
+
+	it('should merge the added and the removed lines', () => {
+		expect(
+			threeWayMerge(baseContent, 'a\nb\nc\nd\ne\nf\n', 'b\nc\nd\ne\n'),
+		).to.deep.eq({
+			content: 'b\nc\nd\ne\nf\n',
+			conflictCount: 0,
+		});
+	});
+
+	it('should not report a conflict if both sides made the same change', () => {
+		expect(
+			threeWayMerge(baseContent, 'a\nB\nc\nd\ne\n', 'a\nB\nc\nd\ne\n'),
+		).to.deep.eq({
+			content: 'a\nB\nc\nd\ne\n',
+			conflictCount: 0,
+		});
+	});
+
+	it('should surround the different changes of the same lines with the conflict markers', () => {
+		expect(
+			threeWayMerge(baseContent, 'a\nX\nc\nd\ne\n', 'a\nY\nc\nd\ne\n'),
+		).to.deep.eq({
+			content: [
+				'a\n',
+				`${CONFLICT_START_MARKER}\n`,
+				'X\n',
+				`${CONFLICT_SEPARATOR_MARKER}\n`,
+				'Y\n',
+				`${CONFLICT_END_MARKER}\n`,
+				'c\nd\ne\n',
+			].join(''),
+			conflictCount: 1,
+		});
+	});
+
+	it('should count each conflicting chunk', () => {
+		const { conflictCount } = threeWayMerge(
+			baseContent,
+			'X\nb\nc\nd\nX\n',
+			'Y\nb\nc\nd\nY\n',
+		);
+
+		expect(conflictCount).to.eq(2);
+	});
+
+	it('should end the conflicting lines with a line break', () => {
+		expect(threeWayMerge('a\nb', 'a\nX', 'a\nY')).to.deep.eq({
+			content: [
+				'a\n',
+				`${CONFLICT_START_MARKER}\n`,
+				'X\n',
+				`${CONFLICT_SEPARATOR_MARKER}\n`,
+				'Y\n',
+				`${CONFLICT_END_MARKER}\n`,
+			].join(''),
+			conflictCount: 1,
+		});
+	});
+});